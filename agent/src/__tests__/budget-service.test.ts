@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({
+  supabaseService: {
+    from: vi.fn(),
+  },
+}));
+
+import {
+  getCrossedThreshold,
+  getMonthPeriod,
+  normalizeBudgetCategory,
+} from '../services/budget.service';
+
+describe('getCrossedThreshold', () => {
+  it('returns null below 50%', () => {
+    expect(getCrossedThreshold(749.99, 1500)).toBeNull();
+  });
+
+  it('returns the highest threshold reached', () => {
+    expect(getCrossedThreshold(750, 1500)).toBe(50);
+    expect(getCrossedThreshold(1250, 1500)).toBe(80);
+    expect(getCrossedThreshold(1500, 1500)).toBe(100);
+    expect(getCrossedThreshold(2400, 1500)).toBe(100);
+  });
+
+  it('ignores non-positive budgets', () => {
+    expect(getCrossedThreshold(100, 0)).toBeNull();
+  });
+});
+
+describe('getMonthPeriod', () => {
+  it("uses the user's timezone to pick the month", () => {
+    // 2025-10-31 22:30 UTC is already November 1st in Dubai (UTC+4)
+    const now = new Date('2025-10-31T22:30:00Z');
+
+    expect(getMonthPeriod('Asia/Dubai', now)).toEqual({
+      start: '2025-11-01',
+      end: '2025-11-30',
+      label: 'November 2025',
+    });
+    expect(getMonthPeriod('UTC', now)).toEqual({
+      start: '2025-10-01',
+      end: '2025-10-31',
+      label: 'October 2025',
+    });
+  });
+
+  it('handles leap-year February', () => {
+    const period = getMonthPeriod('UTC', new Date('2024-02-10T12:00:00Z'));
+    expect(period.end).toBe('2024-02-29');
+  });
+});
+
+describe('normalizeBudgetCategory', () => {
+  it('title-cases categories to match logged transactions', () => {
+    expect(normalizeBudgetCategory('dining')).toBe('Dining');
+    expect(normalizeBudgetCategory('  personal   CARE ')).toBe('Personal Care');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({ supabaseService: { from: vi.fn(), rpc: vi.fn() } }));
+vi.mock('../lib/embeddings', () => ({ getMerchantEmbedding: vi.fn() }));
+
+import {
+  buildChartSvg,
+  getDefaultChartRange,
+  limitPieSlices,
+  renderChartPng,
+  type ChartSpec,
+} from '../services/chart.service';
+
+const categorySpec: ChartSpec = {
+  type: 'category',
+  title: 'Spending by category',
+  currency: 'AED',
+  points: [
+    { label: 'Dining', value: 450 },
+    { label: 'Groceries & <Home>', value: 300 },
+  ],
+};
+
+describe('limitPieSlices', () => {
+  it('merges the smallest categories into Other', () => {
+    const points = Array.from({ length: 10 }, (_, index) => ({
+      label: `Category ${index + 1}`,
+      value: 100 - index * 10,
+    }));
+
+    const slices = limitPieSlices(points);
+
+    expect(slices).toHaveLength(8);
+    expect(slices[0]).toEqual({ label: 'Category 1', value: 100 });
+    expect(slices[7]).toEqual({ label: 'Other', value: 30 + 20 + 10 });
+  });
+
+  it('drops empty categories', () => {
+    expect(limitPieSlices([{ label: 'Dining', value: 0 }])).toEqual([]);
+  });
+});
+
+describe('buildChartSvg', () => {
+  it('builds a pie with an escaped legend', () => {
+    const svg = buildChartSvg(categorySpec);
+
+    expect(svg.match(/<path /g)).toHaveLength(2);
+    expect(svg).toContain('Groceries &amp; &lt;Home&gt;');
+    expect(svg).toContain('450 AED · 60%');
+  });
+
+  it('builds one bar per month', () => {
+    const svg = buildChartSvg({
+      type: 'monthly',
+      title: 'Monthly spending',
+      currency: 'AED',
+      points: [
+        { label: 'Oct 25', value: 1200 },
+        { label: 'Nov 25', value: 0 },
+      ],
+    });
+
+    expect(svg.match(/<rect [^>]*rx="4"/g)).toHaveLength(2);
+    expect(svg).toContain('Nov 25');
+  });
+
+  it('builds a daily trend line', () => {
+    const svg = buildChartSvg({
+      type: 'daily',
+      title: 'Daily spending',
+      currency: 'AED',
+      points: [
+        { label: '1 Nov', value: 20 },
+        { label: '2 Nov', value: 35 },
+        { label: '3 Nov', value: 0 },
+      ],
+    });
+
+    expect(svg).toContain('<polyline');
+    expect(svg).toContain('3 Nov');
+  });
+});
+
+describe('renderChartPng', () => {
+  it('renders a PNG without a browser', () => {
+    const png = renderChartPng(categorySpec);
+
+    expect(png.subarray(1, 4).toString('ascii')).toBe('PNG');
+  });
+});
+
+describe('getDefaultChartRange', () => {
+  it('covers this month, the last 6 months or the last 30 days', () => {
+    expect(getDefaultChartRange('category', '2025-11-20')).toEqual({
+      dateFrom: '2025-11-01',
+      dateTo: '2025-11-20',
+    });
+    expect(getDefaultChartRange('monthly', '2025-11-20').dateFrom).toBe('2025-06-01');
+    expect(getDefaultChartRange('daily', '2025-11-20').dateFrom).toBe('2025-10-22');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({ supabaseService: { from: vi.fn() } }));
+vi.mock('../lib/prompt-cache', () => ({ AgentResponseCache: { bumpDataVersion: vi.fn() } }));
+
+import {
+  buildRedenominationUpdate,
+  getOriginalValue,
+  type MigratableTransaction,
+} from '../services/currency-migration.service';
+
+const baseTransaction: MigratableTransaction = {
+  id: 'tx-1',
+  amount: 100,
+  currency: 'AED',
+  transaction_date: '2025-03-10',
+  original_amount: null,
+  original_currency: null,
+  converted_amount: null,
+  conversion_rate: null,
+};
+
+describe('getOriginalValue', () => {
+  it('uses amount and currency for unconverted rows', () => {
+    expect(getOriginalValue(baseTransaction)).toEqual({ amount: 100, currency: 'AED' });
+  });
+
+  it('prefers the original amount of converted rows', () => {
+    const converted = {
+      ...baseTransaction,
+      amount: 367.3,
+      original_amount: 100,
+      original_currency: 'USD',
+      converted_amount: 367.3,
+      conversion_rate: 3.673,
+    };
+    expect(getOriginalValue(converted)).toEqual({ amount: 100, currency: 'USD' });
+  });
+});
+
+describe('buildRedenominationUpdate', () => {
+  it('converts from the old amount and keeps it as the original', () => {
+    const update = buildRedenominationUpdate(
+      baseTransaction,
+      'USD',
+      { convertedAmount: 27.23, rate: 0.2723, source: 'cached', rateDate: '2025-03-10' },
+      '2025-06-01T00:00:00.000Z'
+    );
+
+    expect(update).toEqual({
+      amount: 27.23,
+      currency: 'USD',
+      original_amount: 100,
+      original_currency: 'AED',
+      converted_amount: 27.23,
+      conversion_rate: 0.2723,
+      converted_at: '2025-06-01T00:00:00.000Z',
+      conversion_rate_source: 'cached',
+      conversion_rate_date: '2025-03-10',
+    });
+  });
+
+  it('restores the original amount when moving back to the entry currency', () => {
+    const converted = {
+      ...baseTransaction,
+      amount: 367.3,
+      original_amount: 100,
+      original_currency: 'USD',
+      converted_amount: 367.3,
+      conversion_rate: 3.673,
+    };
+
+    const update = buildRedenominationUpdate(converted, 'USD', null);
+
+    expect(update.amount).toBe(100);
+    expect(update.currency).toBe('USD');
+    expect(update.original_amount).toBeNull();
+    expect(update.converted_amount).toBeNull();
+    expect(update.conversion_rate_source).toBeNull();
+  });
+});
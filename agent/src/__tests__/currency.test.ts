@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { snapshots, upsert } = vi.hoisted(() => ({
+  snapshots: [] as { rate_date: string; rates: Record<string, number> }[],
+  upsert: vi.fn(),
+}));
+
+/**
+ * Minimal exchange_rates query builder: supports the lte/gt + order + limit + maybeSingle lookups
+ */
+vi.mock('../lib/supabase', () => ({
+  supabaseService: {
+    from: vi.fn(() => {
+      const filters: ((row: { rate_date: string }) => boolean)[] = [];
+      let ascending = true;
+      const builder = {
+        select: () => builder,
+        eq: () => builder,
+        lte: (_column: string, value: string) => {
+          filters.push((row) => row.rate_date <= value);
+          return builder;
+        },
+        gt: (_column: string, value: string) => {
+          filters.push((row) => row.rate_date > value);
+          return builder;
+        },
+        order: (_column: string, options: { ascending: boolean }) => {
+          ascending = options.ascending;
+          return builder;
+        },
+        limit: () => builder,
+        maybeSingle: async () => {
+          const rows = snapshots
+            .filter((row) => filters.every((filter) => filter(row)))
+            .sort((a, b) =>
+              ascending
+                ? a.rate_date.localeCompare(b.rate_date)
+                : b.rate_date.localeCompare(a.rate_date)
+            );
+          return { data: rows[0] ?? null, error: null };
+        },
+        upsert: async (row: unknown) => {
+          upsert(row);
+          return { error: null };
+        },
+      };
+      return builder;
+    }),
+  },
+}));
+
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { convertCurrency, setExchangeRateProvider } from '../lib/currency';
+import {
+  ApiExchangeRateProvider,
+  InMemoryExchangeRateProvider,
+  StaticExchangeRateProvider,
+  createExchangeRateProvider,
+  type ExchangeRateProviderName,
+} from '../lib/exchange-rate-providers';
+
+const fetchMock = vi.fn();
+
+describe('convertCurrency', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-11-20T10:00:00Z'));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    snapshots.length = 0;
+    upsert.mockReset();
+    fetchMock.mockReset();
+    setExchangeRateProvider(new ApiExchangeRateProvider());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("uses and stores today's API rates", async () => {
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({ rates: { USD: 1, AED: 3.6725, EUR: 0.9 } }),
+    });
+
+    const result = await convertCurrency(10, 'USD', 'AED');
+
+    expect(result).toEqual({
+      convertedAmount: 36.73,
+      rate: 3.6725,
+      source: 'api',
+      rateDate: '2025-11-20',
+    });
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ rate_date: '2025-11-20', base_currency: 'USD' })
+    );
+
+    const cached = await convertCurrency(10, 'USD', 'AED');
+    expect(cached.source).toBe('cached');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('converts past transactions at the stored rate of their date', async () => {
+    snapshots.push(
+      { rate_date: '2025-10-30', rates: { USD: 1, EUR: 0.8 } },
+      { rate_date: '2025-11-02', rates: { USD: 1, EUR: 0.85 } }
+    );
+
+    const result = await convertCurrency(100, 'USD', 'EUR', '2025-11-01');
+
+    expect(result).toEqual({
+      convertedAmount: 80,
+      rate: 0.8,
+      source: 'cached',
+      rateDate: '2025-10-30',
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('uses the next stored snapshot for dates before the first one', async () => {
+    snapshots.push({ rate_date: '2025-11-02', rates: { USD: 1, EUR: 0.85 } });
+
+    const result = await convertCurrency(100, 'USD', 'EUR', '2025-10-01');
+
+    expect(result.rate).toBe(0.85);
+    expect(result.rateDate).toBe('2025-11-02');
+  });
+
+  it('falls back to stored rates, then static rates, when the API fails', async () => {
+    fetchMock.mockRejectedValue(new Error('network down'));
+
+    const fallback = await convertCurrency(10, 'USD', 'AED');
+    expect(fallback.source).toBe('fallback');
+    expect(fallback.rate).toBe(3.6725);
+
+    snapshots.push({ rate_date: '2025-11-19', rates: { USD: 1, AED: 3.67 } });
+
+    const stored = await convertCurrency(10, 'USD', 'AED');
+    expect(stored).toEqual({
+      convertedAmount: 36.7,
+      rate: 3.67,
+      source: 'cached',
+      rateDate: '2025-11-19',
+    });
+  });
+});
+
+describe('exchange rate providers', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockReset();
+    upsert.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('converts deterministically with in-memory rates', async () => {
+    const provider = new InMemoryExchangeRateProvider({ USD: 1, AED: 4 }).setRates(
+      { USD: 1, AED: 3.5 },
+      '2025-01-01'
+    );
+    setExchangeRateProvider(provider);
+
+    const historical = await convertCurrency(10, 'USD', 'AED', '2025-02-15');
+    expect(historical).toEqual({
+      convertedAmount: 35,
+      rate: 3.5,
+      source: 'cached',
+      rateDate: '2025-01-01',
+    });
+
+    const beforeFirstSnapshot = await convertCurrency(10, 'USD', 'AED', '2024-12-31');
+    expect(beforeFirstSnapshot.rate).toBe(4);
+    expect(beforeFirstSnapshot.source).toBe('fallback');
+
+    expect(provider.requests).toEqual(['2025-02-15', '2024-12-31']);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(upsert).not.toHaveBeenCalled();
+  });
+
+  it('rejects an unknown provider name', () => {
+    expect(() =>
+      createExchangeRateProvider({ provider: 'apis' as ExchangeRateProviderName })
+    ).toThrow('Unknown exchange rate provider "apis". Use one of: api, static, memory');
+  });
+
+  it('rejects an unknown EXCHANGE_RATE_PROVIDER when config loads', async () => {
+    vi.stubEnv('EXCHANGE_RATE_PROVIDER', 'statc');
+    vi.resetModules();
+
+    await expect(import('../lib/config')).rejects.toThrow(
+      'Invalid EXCHANGE_RATE_PROVIDER "statc". Use one of: api, static, memory'
+    );
+    vi.unstubAllEnvs();
+  });
+
+  it('loads static rates from a file', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'rates-')), 'rates.json');
+    writeFileSync(file, JSON.stringify({ rates: { USD: 1, EUR: 0.5 } }));
+
+    setExchangeRateProvider(createExchangeRateProvider({ provider: 'static', ratesFile: file }));
+
+    const result = await convertCurrency(10, 'EUR', 'USD', '2025-03-01');
+    expect(result).toEqual({
+      convertedAmount: 20,
+      rate: 2,
+      source: 'fallback',
+      rateDate: '2025-03-01',
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects a rates file without USD-based rates', () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'rates-')), 'rates.json');
+    writeFileSync(file, JSON.stringify({ EUR: 0.5 }));
+
+    expect(() => StaticExchangeRateProvider.fromFile(file)).toThrow('USD-based rates');
+  });
+});
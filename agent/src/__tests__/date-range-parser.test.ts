@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { parseDateRange } from '../lib/date-range-parser';
+
+// Wednesday 2025-11-05, 10:00 UTC (14:00 in Dubai)
+const now = new Date('2025-11-05T10:00:00Z');
+
+const range = (phrase: string, timezone = 'Asia/Dubai') => {
+  const result = parseDateRange(phrase, { timezone, now });
+  return result && [result.dateFrom, result.dateTo];
+};
+
+describe('parseDateRange', () => {
+  it('resolves single days relative to today', () => {
+    expect(range('today')).toEqual(['2025-11-05', '2025-11-05']);
+    expect(range('Yesterday?')).toEqual(['2025-11-04', '2025-11-04']);
+    expect(range('the day before yesterday')).toEqual(['2025-11-03', '2025-11-03']);
+  });
+
+  it("uses the user's timezone to decide what today is", () => {
+    const lateEvening = new Date('2025-11-05T21:00:00Z');
+    expect(parseDateRange('today', { timezone: 'Asia/Dubai', now: lateEvening })?.dateFrom).toBe(
+      '2025-11-06'
+    );
+    expect(
+      parseDateRange('today', { timezone: 'America/New_York', now: lateEvening })?.dateFrom
+    ).toBe('2025-11-05');
+  });
+
+  it('resolves rolling weeks and day counts', () => {
+    expect(range('this week')).toEqual(['2025-10-30', '2025-11-05']);
+    expect(range('last week')).toEqual(['2025-10-29', '2025-11-04']);
+    expect(range('past 10 days')).toEqual(['2025-10-27', '2025-11-05']);
+    expect(range('last 3 months')).toEqual(['2025-08-06', '2025-11-05']);
+  });
+
+  it('resolves months, quarters and years, never past today', () => {
+    expect(range('this month')).toEqual(['2025-11-01', '2025-11-05']);
+    expect(range('last month')).toEqual(['2025-10-01', '2025-10-31']);
+    expect(range('this quarter')).toEqual(['2025-10-01', '2025-11-05']);
+    expect(range('last quarter')).toEqual(['2025-07-01', '2025-09-30']);
+    expect(range('this year')).toEqual(['2025-01-01', '2025-11-05']);
+    expect(range('last year')).toEqual(['2024-01-01', '2024-12-31']);
+    expect(range('2023')).toEqual(['2023-01-01', '2023-12-31']);
+  });
+
+  it('picks the latest quarter or month that has started', () => {
+    expect(range('Q3')).toEqual(['2025-07-01', '2025-09-30']);
+    expect(range('q4')).toEqual(['2025-10-01', '2025-11-05']);
+    expect(range('Q1 2024')).toEqual(['2024-01-01', '2024-03-31']);
+    expect(range('in October')).toEqual(['2025-10-01', '2025-10-31']);
+    expect(range('December')).toEqual(['2024-12-01', '2024-12-31']);
+    expect(range('feb 2024')).toEqual(['2024-02-01', '2024-02-29']);
+  });
+
+  it('resolves days of the month', () => {
+    expect(range('the 5th')).toEqual(['2025-11-05', '2025-11-05']);
+    expect(range('on the 20th')).toEqual(['2025-10-20', '2025-10-20']);
+    expect(range('March 5')).toEqual(['2025-03-05', '2025-03-05']);
+    expect(range('12th of December')).toEqual(['2024-12-12', '2024-12-12']);
+    expect(range('2025-06-30')).toEqual(['2025-06-30', '2025-06-30']);
+  });
+
+  it('resolves weekdays to their most recent occurrence', () => {
+    expect(range('wednesday')).toEqual(['2025-11-05', '2025-11-05']);
+    expect(range('last wednesday')).toEqual(['2025-10-29', '2025-10-29']);
+    expect(range('on Monday')).toEqual(['2025-11-03', '2025-11-03']);
+  });
+
+  it('resolves Ramadan and open-ended "since" ranges', () => {
+    expect(range('during Ramadan')).toEqual(['2025-03-01', '2025-03-29']);
+    expect(range('Ramadan 2024')).toEqual(['2024-03-11', '2024-04-09']);
+    expect(range('since Ramadan started')).toEqual(['2025-03-01', '2025-11-05']);
+    expect(range('since the 1st')).toEqual(['2025-11-01', '2025-11-05']);
+  });
+
+  it('combines two phrases into one range', () => {
+    expect(range('from August to October')).toEqual(['2025-08-01', '2025-10-31']);
+    expect(range('between March 5 and March 20')).toEqual(['2025-03-05', '2025-03-20']);
+  });
+
+  it('returns a readable label', () => {
+    expect(parseDateRange('last month', { now })?.label).toBe('1 Oct 2025 - 31 Oct 2025');
+    expect(parseDateRange('yesterday', { now })?.label).toBe('4 Nov 2025');
+  });
+
+  it('rejects unknown phrases and future-only ranges', () => {
+    expect(range('whenever')).toBeNull();
+    expect(range('the 32nd')).toBeNull();
+    expect(range('February 30')).toBeNull();
+    expect(range('Q1 2030')).toBeNull();
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({ supabaseService: { from: vi.fn(), rpc: vi.fn() } }));
+vi.mock('../lib/embeddings', () => ({ getMerchantEmbedding: vi.fn() }));
+
+const { aggregateTransactions, getMonthForecast, sendProactiveMessage } = vi.hoisted(() => ({
+  aggregateTransactions: vi.fn(),
+  getMonthForecast: vi.fn(),
+  sendProactiveMessage: vi.fn(),
+}));
+vi.mock('../services/notification.service', () => ({ sendProactiveMessage }));
+vi.mock('../services/transaction-aggregation.service', () => ({ aggregateTransactions }));
+vi.mock('../services/forecast.service', () => ({ getMonthForecast }));
+vi.mock('../services/user.service', () => ({ getUserTimezone: vi.fn(async () => 'Asia/Dubai') }));
+vi.mock('../lib/currency', () => ({ getUserDefaultCurrency: vi.fn(async () => 'AED') }));
+
+import { supabaseService } from '../lib/supabase';
+import {
+  buildSpendingDigest,
+  getDigestPeriod,
+  getDueDigests,
+  runDueDigests,
+} from '../services/digest.service';
+
+const neverSent = { weekly: null, monthly: null };
+
+describe('getDigestPeriod', () => {
+  it('covers the previous Monday-Sunday week and the week before', () => {
+    // 2025-03-12 is a Wednesday
+    expect(getDigestPeriod('weekly', '2025-03-12')).toEqual({
+      dateFrom: '2025-03-03',
+      dateTo: '2025-03-09',
+      previousFrom: '2025-02-24',
+      previousTo: '2025-03-02',
+    });
+  });
+
+  it('treats the digest Monday as part of the new week', () => {
+    expect(getDigestPeriod('weekly', '2025-03-10').dateFrom).toBe('2025-03-03');
+  });
+
+  it('covers the previous calendar month and the month before', () => {
+    expect(getDigestPeriod('monthly', '2025-03-01')).toEqual({
+      dateFrom: '2025-02-01',
+      dateTo: '2025-02-28',
+      previousFrom: '2025-01-01',
+      previousTo: '2025-01-31',
+    });
+  });
+
+  it('crosses year boundaries', () => {
+    expect(getDigestPeriod('monthly', '2025-01-15')).toMatchObject({
+      dateFrom: '2024-12-01',
+      dateTo: '2024-12-31',
+      previousFrom: '2024-11-01',
+    });
+  });
+});
+
+describe('getDueDigests', () => {
+  it('sends weekly digests on Monday from the preferred hour', () => {
+    expect(getDueDigests('weekly', '2025-03-10', 9, 9, neverSent)).toEqual(['weekly']);
+    expect(getDueDigests('weekly', '2025-03-10', 8, 9, neverSent)).toEqual([]);
+    expect(getDueDigests('weekly', '2025-03-11', 9, 9, neverSent)).toEqual([]);
+  });
+
+  it('sends monthly digests on the 1st', () => {
+    expect(getDueDigests('monthly', '2025-04-01', 10, 9, neverSent)).toEqual(['monthly']);
+    expect(getDueDigests('monthly', '2025-04-02', 10, 9, neverSent)).toEqual([]);
+  });
+
+  it('sends both when a Monday falls on the 1st', () => {
+    expect(getDueDigests('both', '2025-09-01', 9, 9, neverSent)).toEqual(['weekly', 'monthly']);
+  });
+
+  it('does not resend a digest already sent that day', () => {
+    expect(
+      getDueDigests('both', '2025-09-01', 12, 9, { weekly: '2025-09-01', monthly: null })
+    ).toEqual(['monthly']);
+  });
+
+  it('never sends when digests are off', () => {
+    expect(getDueDigests('off', '2025-09-01', 12, 9, neverSent)).toEqual([]);
+  });
+});
+
+describe('buildSpendingDigest', () => {
+  it('leaves the forecast out when it fails', async () => {
+    aggregateTransactions.mockResolvedValue([{ key: null, currency: 'AED', total: 420, count: 6 }]);
+    getMonthForecast.mockRejectedValue(new Error('forecast unavailable'));
+    const logger = { warn: vi.fn() };
+
+    const digest = await buildSpendingDigest(1, 'weekly', '2025-03-10', logger as never);
+
+    expect(digest.spent).toBe(420);
+    expect(digest.forecast).toBeNull();
+    expect(logger.warn).toHaveBeenCalledWith(
+      '[digest]',
+      expect.objectContaining({ event: 'forecast_failed', error: 'forecast unavailable' })
+    );
+  });
+});
+
+describe('runDueDigests', () => {
+  it('releases the claim when the digest cannot be delivered', async () => {
+    const user = {
+      id: 1,
+      timezone: 'UTC',
+      digest_frequency: 'weekly',
+      digest_hour: 9,
+      last_weekly_digest_on: '2025-03-03',
+      last_monthly_digest_on: null,
+    };
+    const updates: Record<string, unknown>[] = [];
+    vi.mocked(supabaseService.from).mockImplementation(() => {
+      const builder = {
+        select: () => builder,
+        neq: async () => ({ data: [user], error: null }),
+        update: (values: Record<string, unknown>) => {
+          updates.push(values);
+          return builder;
+        },
+        eq: () => builder,
+        or: () => builder,
+        then: (resolve: (value: unknown) => void) => resolve({ data: [{ id: 1 }], error: null }),
+      };
+      return builder as never;
+    });
+    aggregateTransactions.mockResolvedValue([{ key: null, currency: 'AED', total: 420, count: 6 }]);
+    sendProactiveMessage.mockResolvedValue(false);
+
+    // 2025-03-10 is a Monday
+    const sent = await runDueDigests(undefined, new Date('2025-03-10T10:00:00Z'));
+
+    expect(sent).toBe(0);
+    expect(updates).toEqual([
+      { last_weekly_digest_on: '2025-03-10' },
+      { last_weekly_digest_on: '2025-03-03' },
+    ]);
+  });
+});
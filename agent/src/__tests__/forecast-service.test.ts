@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({ supabaseService: { from: vi.fn(), rpc: vi.fn() } }));
+vi.mock('../lib/embeddings', () => ({ getMerchantEmbedding: vi.fn() }));
+
+import { buildMonthForecast, type ForecastExpense } from '../services/forecast.service';
+
+const expense = (
+  date: string,
+  amount: number,
+  category = 'Dining',
+  merchant = 'Talabat'
+): ForecastExpense => ({ date, amount, category, merchant });
+
+describe('buildMonthForecast', () => {
+  it('uses the run rate with a ±25% range when there is no history', () => {
+    // 10 of 30 days elapsed, 300 spent → 600 more at the same pace
+    const forecast = buildMonthForecast(
+      {
+        today: '2025-06-10',
+        monthToDate: [expense('2025-06-02', 100), expense('2025-06-08', 200)],
+        history: [],
+        upcomingRecurring: [],
+      },
+      'AED'
+    );
+
+    expect(forecast).toMatchObject({
+      month: '2025-06',
+      daysElapsed: 10,
+      daysInMonth: 30,
+      spentSoFar: 300,
+      projected: 900,
+      low: 750,
+      high: 1050,
+      typicalMonth: null,
+      historyMonths: 0,
+    });
+  });
+
+  it('blends past months remaining spend with the current run rate', () => {
+    const forecast = buildMonthForecast(
+      {
+        today: '2025-06-15',
+        monthToDate: [expense('2025-06-05', 150)],
+        history: [
+          // May: 400 after mid-month; April: 200 after mid-month
+          expense('2025-05-03', 100),
+          expense('2025-05-20', 400),
+          expense('2025-04-10', 50),
+          expense('2025-04-25', 200),
+        ],
+        upcomingRecurring: [],
+      },
+      'AED'
+    );
+
+    // Estimates: 400, 200 and the run rate 150 / 15 * 15 = 150
+    expect(forecast.projected).toBe(150 + 250);
+    expect(forecast.low).toBe(150 + 150);
+    expect(forecast.high).toBe(150 + 400);
+    expect(forecast.typicalMonth).toBe(375);
+    expect(forecast.historyMonths).toBe(2);
+  });
+
+  it('adds upcoming recurring items exactly and keeps them out of the curves', () => {
+    const forecast = buildMonthForecast(
+      {
+        today: '2025-06-15',
+        monthToDate: [],
+        history: [expense('2025-05-28', 5000, 'Housing', 'Landlord')],
+        upcomingRecurring: [{ date: '2025-06-28', category: 'Housing', amount: 5000 }],
+        recurringKeys: new Set(['landlord|housing']),
+        budgets: new Map([['housing', 6000]]),
+      },
+      'AED'
+    );
+
+    expect(forecast.categories).toEqual([
+      {
+        category: 'Housing',
+        spentSoFar: 0,
+        recurringRemaining: 5000,
+        projected: 5000,
+        low: 5000,
+        high: 5000,
+        budget: 6000,
+      },
+    ]);
+  });
+
+  it('reports each category separately, largest projection first', () => {
+    const forecast = buildMonthForecast(
+      {
+        today: '2025-06-10',
+        monthToDate: [
+          expense('2025-06-01', 30, 'Dining'),
+          expense('2025-06-02', 200, 'groceries', 'Carrefour'),
+        ],
+        history: [],
+        upcomingRecurring: [],
+      },
+      'AED'
+    );
+
+    expect(forecast.categories.map((category) => category.category)).toEqual([
+      'groceries',
+      'Dining',
+    ]);
+    expect(forecast.categories.every((category) => category.budget === null)).toBe(true);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({ supabaseService: { from: vi.fn(), rpc: vi.fn() } }));
+vi.mock('../lib/embeddings', () => ({
+  searchTransactionsHybrid: vi.fn(),
+  searchTransactionsSQL: vi.fn(),
+}));
+
+import { splitInlineQuery } from '../handlers/inline/inline-query.handler';
+
+const now = new Date('2025-11-15T12:00:00Z');
+
+describe('splitInlineQuery', () => {
+  it('splits a trailing date phrase from the search text', () => {
+    expect(splitInlineQuery('starbucks october', { now })).toEqual({
+      search: 'starbucks',
+      range: expect.objectContaining({ dateFrom: '2025-10-01', dateTo: '2025-10-31' }),
+    });
+  });
+
+  it('keeps multi-word date phrases whole', () => {
+    const { search, range } = splitInlineQuery('coffee shops last month', { now });
+    expect(search).toBe('coffee shops');
+    expect(range).toMatchObject({ dateFrom: '2025-10-01', dateTo: '2025-10-31' });
+  });
+
+  it('handles a date phrase on its own or no date at all', () => {
+    expect(splitInlineQuery('this month', { now })).toMatchObject({
+      search: '',
+      range: { dateFrom: '2025-11-01', dateTo: '2025-11-15' },
+    });
+    expect(splitInlineQuery('  uber  ', { now })).toEqual({ search: 'uber', range: null });
+    expect(splitInlineQuery('', { now })).toEqual({ search: '', range: null });
+  });
+
+  it('treats a trailing bare number as search text', () => {
+    expect(splitInlineQuery('gate 5', { now })).toEqual({ search: 'gate 5', range: null });
+  });
+});
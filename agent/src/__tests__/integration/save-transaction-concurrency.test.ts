@@ -18,6 +18,14 @@ vi.mock('../../lib/embeddings', () => ({
   getMerchantEmbedding: vi.fn(),
 }));
 
+vi.mock('../../lib/prompt-cache', () => ({
+  AgentResponseCache: { bumpDataVersion: vi.fn() },
+}));
+
+vi.mock('../../services/spending-alert.service', () => ({
+  checkSpendingAfterSave: vi.fn(),
+}));
+
 vi.mock('../../lib/currency', () => ({
   getUserDefaultCurrency: vi.fn(),
   convertCurrency: vi.fn(),
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest';
+
+const { create } = vi.hoisted(() => ({ create: vi.fn() }));
+vi.mock('../lib/openai', () => ({ openai: { chat: { completions: { create } } } }));
+
+import { classifyIntent, classifyIntentByRules } from '../lib/intent-router';
+
+describe('classifyIntentByRules', () => {
+  it.each([
+    ['coffee 15', 'logger'],
+    ['I spent 50$ at Amazon', 'logger'],
+    ['paid rent 4000 aed', 'logger'],
+    ['Carrefour total 230', 'logger'],
+    ['lunch total 120', 'logger'],
+    ['gym subscriptions 200', 'logger'],
+    ['How much did I spend on groceries?', 'query'],
+    ['total spending last month', 'query'],
+    ['top 5 expenses this month', 'query'],
+    ['what was my total in 2025?', 'query'],
+    ['average grocery bill', 'query'],
+    ['hello', 'chat'],
+    ['how do I set my currency?', 'chat'],
+  ])('routes "%s" to %s', (text, mode) => {
+    expect(classifyIntentByRules(text, 'text')?.mode).toBe(mode);
+  });
+
+  it('always logs photos', () => {
+    expect(classifyIntentByRules('', 'photo')).toEqual({
+      mode: 'logger',
+      method: 'rules',
+      reason: 'photo',
+    });
+  });
+
+  it('does not log questions that mention an amount', () => {
+    expect(classifyIntentByRules('did starbucks charge me 25 twice?', 'text')).toBeNull();
+  });
+
+  it('leaves ambiguous messages to the LLM', () => {
+    expect(classifyIntentByRules('groceries this month', 'text')).toBeNull();
+  });
+});
+
+describe('classifyIntent', () => {
+  it('uses the LLM for ambiguous messages', async () => {
+    create.mockResolvedValueOnce({ choices: [{ message: { content: '{"mode":"query"}' } }] });
+
+    expect(await classifyIntent('groceries this month', 'text')).toEqual({
+      mode: 'query',
+      method: 'llm',
+      reason: 'classified',
+    });
+  });
+
+  it('falls back to chat when the LLM fails', async () => {
+    create.mockRejectedValueOnce(new Error('timeout'));
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect((await classifyIntent('groceries this month', 'text')).mode).toBe('chat');
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+
+const { from } = vi.hoisted(() => ({ from: vi.fn() }));
+vi.mock('../lib/supabase', () => ({ supabaseService: { from } }));
+
+import { applyMerchantRules } from '../services/merchant-rule.service';
+
+function mockRules(rules: { merchant_key: string; category: string }[]) {
+  const query = {
+    select: vi.fn(() => query),
+    eq: vi.fn(() => query),
+    in: vi.fn(async () => ({ data: rules, error: null })),
+  };
+  from.mockReturnValue(query);
+  return query;
+}
+
+describe('applyMerchantRules', () => {
+  it("replaces the agent's category for merchants with a rule", async () => {
+    const query = mockRules([{ merchant_key: 'noon', category: 'Groceries' }]);
+
+    const result = await applyMerchantRules(1, [
+      { merchant: 'Noon', category: 'Shopping' },
+      { merchant: 'Careem', category: 'Transport' },
+    ]);
+
+    expect(query.in).toHaveBeenCalledWith('merchant_key', ['noon', 'careem']);
+    expect(result.applied).toBe(1);
+    expect(result.transactions.map((tx) => tx.category)).toEqual(['Groceries', 'Transport']);
+  });
+
+  it('leaves income and refunds alone', async () => {
+    const query = mockRules([]);
+
+    const result = await applyMerchantRules(1, [
+      { merchant: 'Noon', category: 'Refunds', transactionType: 'refund' },
+    ]);
+
+    expect(query.in).not.toHaveBeenCalled();
+    expect(result.applied).toBe(0);
+  });
+});
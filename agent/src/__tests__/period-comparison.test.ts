@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({ supabaseService: { from: vi.fn(), rpc: vi.fn() } }));
+
+import { supabaseService } from '../lib/supabase';
+import { buildPeriodComparison, comparePeriods } from '../services/period-comparison.service';
+import type { AggregationGroup } from '../services/transaction-aggregation.service';
+
+const group = (
+  key: string | null,
+  total: number,
+  count = 1,
+  currency = 'AED'
+): AggregationGroup => ({
+  key,
+  currency,
+  total,
+  count,
+  average: total / count,
+  min: 0,
+  max: total,
+  firstDate: '2025-09-01',
+  lastDate: '2025-09-30',
+});
+
+const periods = {
+  periodA: { dateFrom: '2025-09-01', dateTo: '2025-09-30' },
+  periodB: { dateFrom: '2025-10-01', dateTo: '2025-10-31' },
+};
+
+describe('buildPeriodComparison', () => {
+  it('returns totals with absolute and percent deltas', () => {
+    const comparison = buildPeriodComparison(
+      periods,
+      [group(null, 400, 8)],
+      [group(null, 520, 10)],
+      [],
+      []
+    );
+
+    expect(comparison.totals).toEqual([
+      {
+        currency: 'AED',
+        totalA: 400,
+        totalB: 520,
+        countA: 8,
+        countB: 10,
+        delta: 120,
+        percentChange: 30,
+      },
+    ]);
+  });
+
+  it('ranks merchants that moved with the overall change first', () => {
+    const comparison = buildPeriodComparison(
+      periods,
+      [group(null, 400)],
+      [group(null, 520)],
+      [group('Uber', 300), group('Careem', 100)],
+      [group('Uber', 200), group('Careem', 170), group('Metro', 150)]
+    );
+
+    expect(comparison.drivers.map((driver) => [driver.merchant, driver.delta])).toEqual([
+      ['Metro', 150],
+      ['Careem', 70],
+      ['Uber', -100],
+    ]);
+    expect(comparison.drivers[0].percentChange).toBeNull();
+  });
+
+  it('keeps currencies separate', () => {
+    const comparison = buildPeriodComparison(
+      periods,
+      [group(null, 100, 1, 'AED')],
+      [group(null, 100, 1, 'AED'), group(null, 50, 1, 'USD')],
+      [],
+      []
+    );
+
+    expect(comparison.totals).toHaveLength(2);
+    expect(comparison.totals.find((total) => total.currency === 'USD')).toMatchObject({
+      totalA: 0,
+      totalB: 50,
+      percentChange: null,
+    });
+    expect(comparison.totals.find((total) => total.currency === 'AED')?.delta).toBe(0);
+  });
+});
+
+describe('comparePeriods', () => {
+  it('aggregates each period with the same filters', async () => {
+    vi.mocked(supabaseService.rpc).mockResolvedValue({ data: [], error: null } as never);
+
+    await comparePeriods({ userId: 7, ...periods, category: 'Transport' });
+
+    const calls = vi.mocked(supabaseService.rpc).mock.calls.map(([, args]) => args);
+    expect(calls).toHaveLength(4);
+    expect(calls).toContainEqual(
+      expect.objectContaining({
+        p_user_id: 7,
+        p_category: 'Transport',
+        p_transaction_type: 'expense',
+        p_date_from: '2025-10-01',
+        p_date_to: '2025-10-31',
+        p_group_by: 'merchant',
+      })
+    );
+  });
+});
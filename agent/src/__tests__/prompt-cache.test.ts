@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createClient } from '@libsql/client';
+
+const client = createClient({ url: ':memory:' });
+vi.mock('../lib/database', () => ({ getLibsqlClient: () => client }));
+
+import { AgentResponseCache } from '../lib/prompt-cache';
+
+const response = { response: 'You spent 120 AED today', metadata: {} };
+
+describe('AgentResponseCache data version', () => {
+  it('starts at 0 and increments per user', async () => {
+    expect(await AgentResponseCache.getDataVersion(1)).toBe(0);
+
+    await AgentResponseCache.bumpDataVersion(1);
+    await AgentResponseCache.bumpDataVersion(1);
+
+    expect(await AgentResponseCache.getDataVersion(1)).toBe(2);
+    expect(await AgentResponseCache.getDataVersion(2)).toBe(0);
+  });
+
+  it('stops serving answers cached before the data changed', async () => {
+    const userId = 3;
+    const before = await AgentResponseCache.getDataVersion(userId);
+    await AgentResponseCache.set(userId, 'How much today?', response, { dataVersion: before });
+
+    expect(
+      await AgentResponseCache.get(userId, 'how much today?', { dataVersion: before })
+    ).toEqual(response);
+
+    await AgentResponseCache.bumpDataVersion(userId);
+    const after = await AgentResponseCache.getDataVersion(userId);
+
+    expect(await AgentResponseCache.get(userId, 'How much today?', { dataVersion: after })).toBe(
+      null
+    );
+  });
+});
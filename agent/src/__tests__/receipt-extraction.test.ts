@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { parseReceiptExtraction, formatReceiptForAgent } from '../lib/receipt-extraction';
+
+const receiptJson = JSON.stringify({
+  merchant: 'Carrefour',
+  date: '2025-11-04',
+  currency: 'AED',
+  category: 'Groceries',
+  subtotal: 21,
+  tax: 1.05,
+  discount: null,
+  total: 22.05,
+  items: [
+    { name: 'Milk 1L', quantity: 2, unitPrice: 6.5, totalPrice: 13, discount: 0, tax: 0 },
+    { name: 'Bread', totalPrice: 8 },
+  ],
+});
+
+describe('parseReceiptExtraction', () => {
+  it('parses structured receipts with line items', () => {
+    const receipt = parseReceiptExtraction(receiptJson);
+    expect(receipt?.merchant).toBe('Carrefour');
+    expect(receipt?.total).toBe(22.05);
+    expect(receipt?.items).toHaveLength(2);
+  });
+
+  it('fills item defaults for missing quantity, discount and tax', () => {
+    const receipt = parseReceiptExtraction(receiptJson);
+    expect(receipt?.items[1]).toEqual({
+      name: 'Bread',
+      quantity: 1,
+      unitPrice: null,
+      totalPrice: 8,
+      discount: 0,
+      tax: 0,
+    });
+  });
+
+  it('accepts JSON wrapped in a markdown code fence', () => {
+    const receipt = parseReceiptExtraction('```json\n' + receiptJson + '\n```');
+    expect(receipt?.merchant).toBe('Carrefour');
+  });
+
+  it('returns null for free text or a missing total', () => {
+    expect(parseReceiptExtraction('Merchant: 7-Eleven\nTotal: 96,900')).toBeNull();
+    expect(parseReceiptExtraction(JSON.stringify({ merchant: 'Shop', items: [] }))).toBeNull();
+  });
+});
+
+describe('formatReceiptForAgent', () => {
+  it('includes totals and items JSON for the logger agent', () => {
+    const receipt = parseReceiptExtraction(receiptJson)!;
+    const text = formatReceiptForAgent(receipt);
+
+    expect(text).toContain('**RECEIPT (SINGLE TRANSACTION)**');
+    expect(text).toContain('Total: 22.05 AED');
+    expect(text).toContain('Tax: 1.05');
+    expect(text).not.toContain('Discount:');
+    expect(text).toContain('Items: Milk 1L, Bread');
+    expect(text).toContain('Items JSON: [{"name":"Milk 1L"');
+  });
+
+  it('omits the items section when nothing was readable', () => {
+    const receipt = parseReceiptExtraction(
+      JSON.stringify({ merchant: 'Cafe', total: 18, currency: 'AED', items: [] })
+    )!;
+    expect(formatReceiptForAgent(receipt)).not.toContain('Items');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({ supabaseService: { from: vi.fn(), rpc: vi.fn() } }));
+vi.mock('../lib/embeddings', () => ({ searchTransactionsSQL: vi.fn() }));
+
+import { parseRecentFilters, formatRecentFilters } from '../handlers/commands/recent.handler';
+import {
+  buildRecentKeyboard,
+  buildRecentPageCallback,
+  MAX_RECENT_FILTER_BYTES,
+} from '../lib/transaction-format';
+
+describe('parseRecentFilters', () => {
+  it('returns no filters for an empty argument', () => {
+    expect(parseRecentFilters('')).toEqual({});
+    expect(parseRecentFilters('   ')).toEqual({});
+  });
+
+  it('parses search, period and amount bounds in any order', () => {
+    expect(parseRecentFilters('>100 fine dining 2W <=500')).toEqual({
+      search: 'fine dining',
+      period: { count: 2, unit: 'w' },
+      minAmount: 100,
+      maxAmount: 500,
+    });
+  });
+
+  it('rejects malformed amount and zero-length period tokens', () => {
+    expect(parseRecentFilters('dining >abc')).toEqual({ invalid: '>abc' });
+    expect(parseRecentFilters('0d')).toEqual({ invalid: '0d' });
+  });
+
+  it('round-trips through the callback arguments', () => {
+    const filters = { search: 'uber', period: { count: 30, unit: 'd' as const }, minAmount: 20 };
+    expect(parseRecentFilters(formatRecentFilters(filters))).toEqual(filters);
+  });
+});
+
+describe('buildRecentKeyboard', () => {
+  it('adds Prev/Next only where there is a page to go to', () => {
+    const first = buildRecentKeyboard([1, 2], 0, true, '30d');
+    expect(first.inline_keyboard.at(-1)).toEqual([
+      { text: 'Next ➡️', callback_data: 'recent_page_1_30d' },
+    ]);
+
+    const last = buildRecentKeyboard([3], 2, false, '');
+    expect(last.inline_keyboard.at(-1)).toEqual([
+      { text: '⬅️ Prev', callback_data: 'recent_page_1_' },
+    ]);
+
+    const only = buildRecentKeyboard([4], 0, false, '');
+    expect(only.inline_keyboard.flat().some((button) => button.text.includes('Next'))).toBe(false);
+  });
+
+  it('keeps callback data within 64 bytes', () => {
+    const data = buildRecentPageCallback(3, `30d >100 ${'café '.repeat(20)}`);
+    expect(Buffer.byteLength(data)).toBeLessThanOrEqual(64);
+    expect(data.startsWith('recent_page_3_30d >100 café')).toBe(true);
+  });
+
+  it('never cuts a character in half', () => {
+    const data = buildRecentPageCallback(3, '🍕'.repeat(20));
+    expect(Buffer.byteLength(data)).toBeLessThanOrEqual(64);
+    expect(data).toBe(`recent_page_3_${'🍕'.repeat(12)}`);
+  });
+
+  it('fits any filter /recent accepts unchanged, up to page 9999', () => {
+    const filterArgs = `30d >100 ${'x'.repeat(MAX_RECENT_FILTER_BYTES - 9)}`;
+    expect(buildRecentPageCallback(9999, filterArgs)).toBe(`recent_page_9999_${filterArgs}`);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({
+  supabaseService: {
+    from: vi.fn(),
+  },
+}));
+
+vi.mock('../lib/embeddings', () => ({
+  getMerchantEmbedding: vi.fn(),
+}));
+
+import { describeRecurrence, getNextRunDate } from '../services/recurring.service';
+
+describe('getNextRunDate', () => {
+  it('adds days and weeks', () => {
+    expect(getNextRunDate('2025-12-31', 'daily')).toBe('2026-01-01');
+    expect(getNextRunDate('2025-11-04', 'weekly')).toBe('2025-11-11');
+    expect(getNextRunDate('2025-11-04', 'weekly', 2)).toBe('2025-11-18');
+  });
+
+  it('keeps the monthly anchor day', () => {
+    expect(getNextRunDate('2025-11-01', 'monthly', 1, 1)).toBe('2025-12-01');
+    expect(getNextRunDate('2025-12-25', 'monthly', 1, 25)).toBe('2026-01-25');
+    expect(getNextRunDate('2025-11-10', 'monthly', 3, 10)).toBe('2026-02-10');
+  });
+
+  it('clamps to short months and returns to the anchor afterwards', () => {
+    expect(getNextRunDate('2026-01-31', 'monthly', 1, 31)).toBe('2026-02-28');
+    expect(getNextRunDate('2026-02-28', 'monthly', 1, 31)).toBe('2026-03-31');
+    expect(getNextRunDate('2024-01-30', 'monthly', 1, 30)).toBe('2024-02-29');
+  });
+
+  it('handles yearly schedules on leap days', () => {
+    expect(getNextRunDate('2024-02-29', 'yearly', 1, 29)).toBe('2025-02-28');
+    expect(getNextRunDate('2025-02-28', 'yearly', 3, 29)).toBe('2028-02-29');
+  });
+
+  it('falls back to the current day when no anchor is stored', () => {
+    expect(getNextRunDate('2025-11-15', 'monthly')).toBe('2025-12-15');
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('describes the cadence', () => {
+    expect(describeRecurrence('daily')).toBe('Every day');
+    expect(describeRecurrence('weekly', 2)).toBe('Every 2 weeks');
+    expect(describeRecurrence('yearly')).toBe('Every year');
+  });
+
+  it('adds the day for monthly schedules', () => {
+    expect(describeRecurrence('monthly', 1, 1)).toBe('Every month on the 1st');
+    expect(describeRecurrence('monthly', 1, 22)).toBe('Every month on the 22nd');
+    expect(describeRecurrence('monthly', 1, 13)).toBe('Every month on the 13th');
+    expect(describeRecurrence('monthly', 2, 31)).toBe('Every 2 months on the 31st');
+  });
+});
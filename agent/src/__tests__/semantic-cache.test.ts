@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createClient } from '@libsql/client';
+
+const client = createClient({ url: ':memory:' });
+vi.mock('../lib/database', () => ({ getLibsqlClient: () => client }));
+
+// Questions about the same topic share a direction; unrelated ones are orthogonal
+const vectors: Record<string, number[]> = {
+  'how much on groceries this month?': [1, 0.1, 0],
+  'grocery spending this month': [1, 0.12, 0],
+  'grocery spending last month': [1, 0.12, 0],
+  'how much on dining this month?': [0, 1, 0],
+};
+vi.mock('../lib/embeddings', () => ({
+  generateEmbedding: vi.fn(async (text: string) => vectors[text] ?? [0, 0, 1]),
+}));
+
+import {
+  SemanticResponseCache,
+  cosineSimilarity,
+  getQuestionSignature,
+} from '../lib/semantic-cache';
+
+const answer = { response: 'You spent 640 AED on groceries this month', metadata: {} };
+const scope = { dataVersion: 0, mode: 'query' };
+
+describe('getQuestionSignature', () => {
+  it('keeps dates and numbers, ignoring wording', () => {
+    expect(getQuestionSignature('How much on groceries this month?')).toBe('month this');
+    expect(getQuestionSignature('grocery spending this month')).toBe('month this');
+    expect(getQuestionSignature('Top 5 expenses in October')).toBe('5 october');
+    expect(getQuestionSignature('what can you do')).toBe('');
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('handles identical, orthogonal and degenerate vectors', () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([], [])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+describe('SemanticResponseCache', () => {
+  it('answers a paraphrase within the same scope only', async () => {
+    await SemanticResponseCache.set(1, 'How much on groceries this month?', answer, scope);
+
+    const hit = await SemanticResponseCache.get(1, 'Grocery spending this month', scope);
+    expect(hit).toMatchObject({
+      response: answer.response,
+      question: 'How much on groceries this month?',
+    });
+    expect(hit!.similarity).toBeGreaterThan(0.99);
+
+    expect(await SemanticResponseCache.get(2, 'Grocery spending this month', scope)).toBeNull();
+    expect(
+      await SemanticResponseCache.get(1, 'Grocery spending this month', {
+        ...scope,
+        dataVersion: 1,
+      })
+    ).toBeNull();
+    expect(
+      await SemanticResponseCache.get(1, 'Grocery spending this month', { ...scope, mode: 'chat' })
+    ).toBeNull();
+  });
+
+  it('rejects different periods and different topics', async () => {
+    expect(await SemanticResponseCache.get(1, 'Grocery spending last month', scope)).toBeNull();
+    expect(await SemanticResponseCache.get(1, 'How much on dining this month?', scope)).toBeNull();
+  });
+
+  it('clears a user', async () => {
+    expect(await SemanticResponseCache.clearUser(1)).toBe(1);
+    expect(await SemanticResponseCache.get(1, 'Grocery spending this month', scope)).toBeNull();
+  });
+});
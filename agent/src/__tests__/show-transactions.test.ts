@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildShowTransactionsCallback,
+  decodeDisplayIds,
+  encodeDisplayIds,
+} from '../lib/transaction-format';
+
+describe('encodeDisplayIds', () => {
+  it('uses base36 and collapses consecutive runs', () => {
+    expect(encodeDisplayIds([40, 3, 1, 2, 7, 2])).toBe('1-3.7.14');
+    expect(decodeDisplayIds('1-3.7.14')).toEqual([1, 2, 3, 7, 40]);
+  });
+
+  it('skips malformed parts when decoding', () => {
+    expect(decodeDisplayIds('5.!.9-2.a')).toEqual([5, 10]);
+  });
+
+  it('caps forged ranges', () => {
+    expect(decodeDisplayIds('1-zzzzz').length).toBe(500);
+  });
+});
+
+describe('buildShowTransactionsCallback', () => {
+  it('round-trips IDs that fit', () => {
+    const data = buildShowTransactionsCallback([18, 12, 13, 14, 250]);
+    expect(data).toBe('show_tx_5_c-e.i.6y');
+    expect(decodeDisplayIds(data.split('_')[3])).toEqual([12, 13, 14, 18, 250]);
+  });
+
+  it('keeps the newest IDs and the total when they do not fit', () => {
+    const displayIds = Array.from({ length: 50 }, (_, index) => 1000 + index * 3);
+    const data = buildShowTransactionsCallback(displayIds);
+    const [, , total, encoded] = data.split('_');
+    const kept = decodeDisplayIds(encoded);
+
+    expect(Buffer.byteLength(data)).toBeLessThanOrEqual(64);
+    expect(total).toBe('50');
+    expect(kept.length).toBeLessThan(50);
+    expect(kept).toContain(1147);
+    expect(kept).not.toContain(1000);
+  });
+
+  it('uses the count behind a total when only the newest IDs were looked up', () => {
+    expect(buildShowTransactionsCallback([5, 6, 7], 120)).toBe('show_tx_120_5-7');
+    expect(buildShowTransactionsCallback([5, 6, 7], 2)).toBe('show_tx_3_5-7');
+  });
+});
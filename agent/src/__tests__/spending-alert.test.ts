@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({ supabaseService: { from: vi.fn(), rpc: vi.fn() } }));
+
+import {
+  detectUnusualSpending,
+  raiseAlertThreshold,
+  MAX_ALERT_THRESHOLD,
+  type HistoricalExpense,
+} from '../services/spending-alert.service';
+
+const carrefour = (amount: number): HistoricalExpense => ({
+  amount,
+  merchant: 'Carrefour',
+  category: 'Groceries',
+});
+
+const history: HistoricalExpense[] = [
+  carrefour(100),
+  carrefour(120),
+  carrefour(90),
+  carrefour(110),
+  carrefour(95),
+  { amount: 30, merchant: 'Starbucks', category: 'Dining' },
+  { amount: 25, merchant: 'Starbucks', category: 'Dining' },
+  { amount: 60, merchant: 'Uber', category: 'Transport' },
+  { amount: 45, merchant: 'Uber', category: 'Transport' },
+  { amount: 80, merchant: 'Talabat', category: 'Dining' },
+];
+
+const expense = (amount: number, merchant = 'Carrefour', category = 'Groceries') => ({
+  amount,
+  currency: 'AED',
+  merchant,
+  category,
+});
+
+describe('detectUnusualSpending', () => {
+  it('flags an amount far above the usual merchant spend', () => {
+    const anomaly = detectUnusualSpending(expense(310), history);
+
+    expect(anomaly).toMatchObject({ kind: 'merchant', name: 'Carrefour', usual: 103 });
+    expect(anomaly?.ratio).toBeCloseTo(3.01, 2);
+  });
+
+  it('matches merchants case-insensitively', () => {
+    expect(detectUnusualSpending(expense(310, ' carrefour '), history)?.kind).toBe('merchant');
+  });
+
+  it('ignores amounts within the usual range', () => {
+    expect(detectUnusualSpending(expense(125), history)).toBeNull();
+  });
+
+  it('needs a bigger outlier when the user raised their threshold', () => {
+    expect(detectUnusualSpending(expense(200), history, 3)).not.toBeNull();
+    expect(detectUnusualSpending(expense(200), history, 8)).toBeNull();
+  });
+
+  it('flags a large first purchase at a new merchant', () => {
+    const anomaly = detectUnusualSpending(expense(900, 'Apple Store', 'Electronics'), history);
+
+    expect(anomaly).toMatchObject({ kind: 'new_merchant', name: 'Apple Store', usual: 85 });
+  });
+
+  it('does not flag a normal first purchase at a new merchant', () => {
+    expect(detectUnusualSpending(expense(70, 'Spinneys'), history)).toBeNull();
+  });
+
+  it('falls back to category history for merchants with few purchases', () => {
+    const groceries = [...history, { amount: 40, merchant: 'Spinneys', category: 'Groceries' }];
+
+    expect(detectUnusualSpending(expense(400, 'Spinneys'), groceries)).toMatchObject({
+      kind: 'category',
+      name: 'Groceries',
+    });
+  });
+
+  it('stays quiet without enough history', () => {
+    expect(detectUnusualSpending(expense(5000, 'Apple Store'), history.slice(0, 4))).toBeNull();
+  });
+});
+
+describe('raiseAlertThreshold', () => {
+  it('raises the threshold one step up to the maximum', () => {
+    expect(raiseAlertThreshold(3)).toBe(4);
+    expect(raiseAlertThreshold(3.5)).toBe(4);
+    expect(raiseAlertThreshold(MAX_ALERT_THRESHOLD)).toBe(MAX_ALERT_THRESHOLD);
+  });
+});
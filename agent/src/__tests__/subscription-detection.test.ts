@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({
+  supabaseService: {
+    from: vi.fn(),
+  },
+}));
+
+import {
+  detectSubscriptions,
+  normalizeMerchantKey,
+  type ChargeRecord,
+} from '../services/subscription-detection.service';
+
+function charges(merchant: string, dates: string[], amounts: number | number[]): ChargeRecord[] {
+  return dates.map((transactionDate, index) => ({
+    merchant,
+    amount: Array.isArray(amounts) ? amounts[index] : amounts,
+    currency: 'AED',
+    transactionDate,
+  }));
+}
+
+describe('normalizeMerchantKey', () => {
+  it('ignores case and punctuation', () => {
+    expect(normalizeMerchantKey('SPOTIFY AB')).toBe('spotify ab');
+    expect(normalizeMerchantKey('Spotify.')).toBe('spotify');
+    expect(normalizeMerchantKey('  Netflix.com ')).toBe('netflix com');
+    expect(normalizeMerchantKey("McDonald's")).toBe('mcdonald s');
+  });
+});
+
+describe('detectSubscriptions', () => {
+  it('detects a monthly subscription with yearly cost and next charge', () => {
+    const result = detectSubscriptions(
+      charges('Spotify', ['2025-08-03', '2025-09-03', '2025-10-03'], 21.99),
+      '2025-10-20'
+    );
+
+    expect(result).toEqual([
+      {
+        merchant: 'Spotify',
+        cadence: 'monthly',
+        currency: 'AED',
+        currentAmount: 21.99,
+        yearlyCost: 263.88,
+        chargeCount: 3,
+        firstChargeDate: '2025-08-03',
+        lastChargeDate: '2025-10-03',
+        nextExpectedDate: '2025-11-03',
+        priceChanges: [],
+      },
+    ]);
+  });
+
+  it('detects an annual renewal from two charges', () => {
+    const [domain] = detectSubscriptions(
+      charges('Namecheap', ['2024-03-10', '2025-03-12'], 55),
+      '2025-10-20'
+    );
+
+    expect(domain.cadence).toBe('yearly');
+    expect(domain.yearlyCost).toBe(55);
+    expect(domain.nextExpectedDate).toBe('2026-03-12');
+  });
+
+  it('reports price changes and uses the latest price', () => {
+    const [netflix] = detectSubscriptions(
+      charges(
+        'Netflix',
+        ['2025-07-15', '2025-08-15', '2025-09-15', '2025-10-15'],
+        [45, 45, 56, 56]
+      ),
+      '2025-10-20'
+    );
+
+    expect(netflix.currentAmount).toBe(56);
+    expect(netflix.yearlyCost).toBe(672);
+    expect(netflix.priceChanges).toEqual([{ date: '2025-09-15', from: 45, to: 56 }]);
+  });
+
+  it('tolerates short months and merchant name variations', () => {
+    const [gym] = detectSubscriptions(
+      [
+        ...charges('GYM NATION', ['2025-01-31'], 199),
+        ...charges('Gym Nation', ['2025-02-28', '2025-03-31'], 199),
+      ],
+      '2025-04-10'
+    );
+
+    expect(gym.cadence).toBe('monthly');
+    expect(gym.chargeCount).toBe(3);
+  });
+
+  it('ignores irregular merchants and varying amounts', () => {
+    const result = detectSubscriptions(
+      [
+        ...charges('Carrefour', ['2025-09-01', '2025-09-04', '2025-09-19', '2025-10-02'], 120),
+        ...charges('Careem', ['2025-08-05', '2025-09-05', '2025-10-05'], [18, 64, 31]),
+      ],
+      '2025-10-20'
+    );
+
+    expect(result).toEqual([]);
+  });
+
+  it('drops subscriptions that stopped charging', () => {
+    const result = detectSubscriptions(
+      charges('Disney+', ['2025-01-10', '2025-02-10', '2025-03-10'], 35),
+      '2025-10-20'
+    );
+
+    expect(result).toEqual([]);
+  });
+
+  it('sorts by yearly cost', () => {
+    const result = detectSubscriptions(
+      [
+        ...charges('Spotify', ['2025-08-03', '2025-09-03', '2025-10-03'], 21.99),
+        ...charges('iCloud', ['2025-08-20', '2025-09-20', '2025-10-20'], 3.99),
+        ...charges('Namecheap', ['2024-03-10', '2025-03-12'], 55),
+        ...charges(
+          'Fresh Box',
+          ['2025-09-22', '2025-09-29', '2025-10-06', '2025-10-13', '2025-10-20'],
+          60
+        ),
+      ],
+      '2025-10-20'
+    );
+
+    expect(result.map((subscription) => [subscription.merchant, subscription.cadence])).toEqual([
+      ['Fresh Box', 'weekly'],
+      ['Spotify', 'monthly'],
+      ['Namecheap', 'yearly'],
+      ['iCloud', 'monthly'],
+    ]);
+  });
+});
@@ -28,10 +28,30 @@ vi.mock('../../services/transaction.service', () => ({
   insertTransactionWithRetry: vi.fn(),
 }));
 
+vi.mock('../../services/budget.service', () => ({
+  checkBudgetAfterSave: vi.fn(),
+}));
+
+vi.mock('../../services/transaction-items.service', () => ({
+  saveTransactionItems: vi.fn(),
+}));
+
+vi.mock('../../services/transaction-draft.service', () => ({
+  createTransactionDraft: vi.fn(),
+}));
+
+vi.mock('../../services/merchant-rule.service', () => ({
+  applyMerchantRules: vi.fn(),
+}));
+
 import { supabaseService } from '../../lib/supabase';
 import { getMerchantEmbedding } from '../../lib/embeddings';
 import { getUserDefaultCurrency } from '../../lib/currency';
 import { insertTransactionWithRetry } from '../../services/transaction.service';
+import { checkBudgetAfterSave } from '../../services/budget.service';
+import { createTransactionDraft } from '../../services/transaction-draft.service';
+import { saveTransactionItems } from '../../services/transaction-items.service';
+import { applyMerchantRules } from '../../services/merchant-rule.service';
 import { saveTransactionTool } from '../../mastra/tools/save-transaction-tool';
 
 describe('Save Transaction Tool - Retry Logic', () => {
@@ -66,8 +86,13 @@ describe('Save Transaction Tool - Retry Logic', () => {
     // Default mock implementations
     vi.mocked(getMerchantEmbedding).mockResolvedValue(new Array(1536).fill(0.1));
     vi.mocked(getUserDefaultCurrency).mockResolvedValue('AED');
+    vi.mocked(applyMerchantRules).mockImplementation(async (_userId, transactions) => ({
+      transactions,
+      applied: 0,
+    }));
     vi.mocked(insertTransactionWithRetry).mockResolvedValue({
       transactionId: 'test-transaction-id',
+      displayId: 42,
       duration: 50,
     });
 
@@ -92,6 +117,7 @@ describe('Save Transaction Tool - Retry Logic', () => {
     it('should succeed when service returns transaction ID', async () => {
       vi.mocked(insertTransactionWithRetry).mockResolvedValue({
         transactionId: 'test-transaction-id',
+        displayId: 42,
         duration: 50,
       });
 
@@ -115,10 +141,194 @@ describe('Save Transaction Tool - Retry Logic', () => {
       );
     });
 
+    it('should default transaction type to expense', async () => {
+      await saveTransactionTool.execute({
+        context: baseContext,
+        mastra: mockMastra as any,
+        runtimeContext: mockRuntimeContext as any,
+      });
+
+      expect(insertTransactionWithRetry).toHaveBeenCalledWith(
+        expect.objectContaining({ transaction_type: 'expense' }),
+        mockLogger
+      );
+    });
+
+    it('should pass income transaction type through to the service', async () => {
+      const result = await saveTransactionTool.execute({
+        context: {
+          ...baseContext,
+          merchant: 'Acme Corp',
+          category: 'Salary',
+          transactionType: 'income',
+        },
+        mastra: mockMastra as any,
+        runtimeContext: mockRuntimeContext as any,
+      });
+
+      expect(result.success).toBe(true);
+      expect(insertTransactionWithRetry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          category: 'Salary',
+          transaction_type: 'income',
+        }),
+        mockLogger
+      );
+    });
+
+    it('should check the category budget after saving an expense', async () => {
+      await saveTransactionTool.execute({
+        context: baseContext,
+        mastra: mockMastra as any,
+        runtimeContext: mockRuntimeContext as any,
+      });
+
+      expect(checkBudgetAfterSave).toHaveBeenCalledWith(
+        baseContext.userId,
+        baseContext.category,
+        mockLogger
+      );
+    });
+
+    it('should not check budgets for income or failed saves', async () => {
+      await saveTransactionTool.execute({
+        context: { ...baseContext, category: 'Salary', transactionType: 'income' },
+        mastra: mockMastra as any,
+        runtimeContext: mockRuntimeContext as any,
+      });
+
+      vi.mocked(insertTransactionWithRetry).mockRejectedValue(new Error('Database connection failed'));
+      await saveTransactionTool.execute({
+        context: baseContext,
+        mastra: mockMastra as any,
+        runtimeContext: mockRuntimeContext as any,
+      });
+
+      expect(checkBudgetAfterSave).not.toHaveBeenCalled();
+    });
+
+    it("should use the user's merchant rule over the agent's category", async () => {
+      vi.mocked(applyMerchantRules).mockImplementation(async (_userId, transactions) => ({
+        transactions: transactions.map((tx) => ({ ...tx, category: 'Groceries' })),
+        applied: 1,
+      }));
+
+      const result = await saveTransactionTool.execute({
+        context: { ...baseContext, merchant: 'Noon' },
+        mastra: mockMastra as any,
+        runtimeContext: mockRuntimeContext as any,
+      });
+
+      expect(result.success).toBe(true);
+      expect(insertTransactionWithRetry).toHaveBeenCalledWith(
+        expect.objectContaining({ merchant: 'Noon', category: 'Groceries' }),
+        mockLogger
+      );
+      expect(checkBudgetAfterSave).toHaveBeenCalledWith(baseContext.userId, 'Groceries', mockLogger);
+    });
+
+    it("should keep the agent's category when the rule lookup fails", async () => {
+      vi.mocked(applyMerchantRules).mockRejectedValue(new Error('rules unavailable'));
+
+      const result = await saveTransactionTool.execute({
+        context: baseContext,
+        mastra: mockMastra as any,
+        runtimeContext: mockRuntimeContext as any,
+      });
+
+      expect(result.success).toBe(true);
+      expect(insertTransactionWithRetry).toHaveBeenCalledWith(
+        expect.objectContaining({ category: baseContext.category }),
+        mockLogger
+      );
+    });
+
+    it("should keep a confirmed draft's category instead of re-applying rules", async () => {
+      const confirmContext = {
+        get: vi.fn((key: string) => (key === 'confirmedDraft' ? true : undefined)),
+      };
+
+      const result = await saveTransactionTool.execute({
+        context: { ...baseContext, merchant: 'Noon', category: 'Dining' },
+        mastra: mockMastra as any,
+        runtimeContext: confirmContext as any,
+      });
+
+      expect(result.success).toBe(true);
+      expect(applyMerchantRules).not.toHaveBeenCalled();
+      expect(insertTransactionWithRetry).toHaveBeenCalledWith(
+        expect.objectContaining({ merchant: 'Noon', category: 'Dining' }),
+        mockLogger
+      );
+    });
+
+    it('should save receipt items in the receipt currency', async () => {
+      vi.mocked(saveTransactionItems).mockResolvedValue(2);
+      const items = [
+        { name: 'Milk 1L', quantity: 2, unitPrice: 6.5, totalPrice: 13 },
+        { name: 'Bread', totalPrice: 4 },
+      ];
+
+      const result = await saveTransactionTool.execute({
+        context: { ...baseContext, currency: 'usd', items },
+        mastra: mockMastra as any,
+        runtimeContext: mockRuntimeContext as any,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.itemsSaved).toBe(2);
+      expect(saveTransactionItems).toHaveBeenCalledWith(
+        'test-transaction-id',
+        baseContext.userId,
+        'USD',
+        items,
+        mockLogger
+      );
+    });
+
+    it('should keep the transaction when saving items fails', async () => {
+      vi.mocked(saveTransactionItems).mockRejectedValue(new Error('insert failed'));
+
+      const result = await saveTransactionTool.execute({
+        context: { ...baseContext, items: [{ name: 'Milk 1L', totalPrice: 13 }] },
+        mastra: mockMastra as any,
+        runtimeContext: mockRuntimeContext as any,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.itemsSaved).toBe(0);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[tool:save-transaction]',
+        expect.objectContaining({ event: 'items_save_failed' })
+      );
+    });
+
+    it('should create a draft instead of saving when review is on', async () => {
+      vi.mocked(createTransactionDraft).mockResolvedValue('draft-uuid');
+      const reviewContext = {
+        get: vi.fn((key: string) => (key === 'reviewBeforeSave' ? true : undefined)),
+      };
+
+      const result = await saveTransactionTool.execute({
+        context: baseContext,
+        mastra: mockMastra as any,
+        runtimeContext: reviewContext as any,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.draftId).toBe('draft-uuid');
+      expect(createTransactionDraft).toHaveBeenCalledWith(baseContext.userId, [
+        expect.objectContaining({ merchant: 'Test Merchant', amount: 100, transactionType: 'expense' }),
+      ]);
+      expect(insertTransactionWithRetry).not.toHaveBeenCalled();
+      expect(checkBudgetAfterSave).not.toHaveBeenCalled();
+    });
+
     it('should handle service retry logic correctly', async () => {
       // Service handles retries internally, so we just verify it's called and succeeds
       vi.mocked(insertTransactionWithRetry).mockResolvedValue({
         transactionId: 'test-transaction-id-after-retry',
+        displayId: 43,
         duration: 350,
       });
 
@@ -0,0 +1,257 @@
+/**
+ * Unit Tests for Save Transactions Batch Tool
+ *
+ * Verifies that multi-transaction messages are saved with a single
+ * batch insert and that every saved display_id is reported back.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Mock dependencies before importing the tool
+vi.mock('../../lib/supabase', () => ({
+  supabaseService: {
+    from: vi.fn(),
+  },
+}));
+
+vi.mock('../../lib/embeddings', () => ({
+  getMerchantEmbedding: vi.fn(),
+}));
+
+vi.mock('../../lib/currency', () => ({
+  getUserDefaultCurrency: vi.fn(),
+  convertCurrency: vi.fn(),
+  normalizeCurrency: vi.fn((currency: string) => currency.toUpperCase()),
+}));
+
+vi.mock('../../services/transaction.service', () => ({
+  insertTransactionWithRetry: vi.fn(),
+}));
+
+vi.mock('../../services/budget.service', () => ({
+  checkBudgetAfterSave: vi.fn(),
+}));
+
+vi.mock('../../services/spending-alert.service', () => ({
+  checkSpendingAfterSave: vi.fn(),
+}));
+
+vi.mock('../../services/transaction-draft.service', () => ({
+  createTransactionDraft: vi.fn(),
+}));
+
+import { supabaseService } from '../../lib/supabase';
+import { getMerchantEmbedding } from '../../lib/embeddings';
+import { getUserDefaultCurrency, convertCurrency } from '../../lib/currency';
+import { insertTransactionWithRetry } from '../../services/transaction.service';
+import { checkBudgetAfterSave } from '../../services/budget.service';
+import { checkSpendingAfterSave } from '../../services/spending-alert.service';
+import { createTransactionDraft } from '../../services/transaction-draft.service';
+import { saveTransactionsBatchTool } from '../../mastra/tools/save-transactions-batch-tool';
+
+describe('Save Transactions Batch Tool', () => {
+  const mockLogger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  };
+
+  const mockMastra = {
+    getLogger: () => mockLogger,
+  };
+
+  const mockRuntimeContext = {
+    get: vi.fn(),
+  };
+
+  const baseContext = {
+    userId: 123456,
+    transactions: [
+      {
+        amount: 15,
+        currency: 'AED',
+        merchant: 'Coffee',
+        category: 'Dining',
+        transactionDate: '2025-11-04',
+      },
+      {
+        amount: 40,
+        currency: 'AED',
+        merchant: 'Taxi',
+        category: 'Transport',
+        transactionDate: '2025-11-04',
+      },
+      {
+        amount: 65,
+        currency: 'AED',
+        merchant: 'Lunch',
+        category: 'Dining',
+        transactionDate: '2025-11-04',
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(getMerchantEmbedding).mockResolvedValue(new Array(1536).fill(0.1));
+    vi.mocked(getUserDefaultCurrency).mockResolvedValue('AED');
+    vi.mocked(insertTransactionWithRetry as any).mockResolvedValue({
+      transactions: [
+        { transactionId: 'tx-1', displayId: 21 },
+        { transactionId: 'tx-2', displayId: 22 },
+        { transactionId: 'tx-3', displayId: 23 },
+      ],
+      duration: 40,
+    });
+
+    const mockUsersTable = {
+      upsert: vi.fn().mockResolvedValue({ error: null }),
+    };
+    vi.mocked(supabaseService.from).mockImplementation((table: string) => {
+      if (table === 'users') {
+        return mockUsersTable as any;
+      }
+      return {} as any;
+    });
+  });
+
+  it('inserts all transactions with one service call', async () => {
+    const result = await saveTransactionsBatchTool.execute({
+      context: baseContext,
+      mastra: mockMastra as any,
+      runtimeContext: mockRuntimeContext as any,
+    });
+
+    expect(result.success).toBe(true);
+    expect(insertTransactionWithRetry).toHaveBeenCalledTimes(1);
+
+    const [payloads] = vi.mocked(insertTransactionWithRetry).mock.calls[0];
+    expect(Array.isArray(payloads)).toBe(true);
+    expect(payloads).toHaveLength(3);
+    expect(payloads).toEqual([
+      expect.objectContaining({ merchant: 'Coffee', amount: 15, transaction_type: 'expense' }),
+      expect.objectContaining({ merchant: 'Taxi', amount: 40, category: 'Transport' }),
+      expect.objectContaining({ merchant: 'Lunch', amount: 65, user_id: baseContext.userId }),
+    ]);
+  });
+
+  it('reports every saved display id in order', async () => {
+    const result = await saveTransactionsBatchTool.execute({
+      context: baseContext,
+      mastra: mockMastra as any,
+      runtimeContext: mockRuntimeContext as any,
+    });
+
+    expect(result.saved.map((tx) => tx.displayId)).toEqual([21, 22, 23]);
+    expect(result.saved.map((tx) => tx.merchant)).toEqual(['Coffee', 'Taxi', 'Lunch']);
+    expect(result.message).toContain('#21');
+    expect(result.message).toContain('#23');
+  });
+
+  it('converts foreign currency rows to the default currency', async () => {
+    vi.mocked(convertCurrency).mockResolvedValue({
+      convertedAmount: 36.73,
+      rate: 3.6725,
+      source: 'cached',
+      rateDate: '2025-11-04',
+    });
+
+    await saveTransactionsBatchTool.execute({
+      context: {
+        ...baseContext,
+        transactions: [{ ...baseContext.transactions[0], amount: 10, currency: 'usd' }],
+      },
+      mastra: mockMastra as any,
+      runtimeContext: mockRuntimeContext as any,
+    });
+
+    const [payloads] = vi.mocked(insertTransactionWithRetry).mock.calls[0];
+    expect(convertCurrency).toHaveBeenCalledWith(10, 'USD', 'AED', '2025-11-04');
+    expect(payloads).toEqual([
+      expect.objectContaining({
+        amount: 36.73,
+        currency: 'AED',
+        original_amount: 10,
+        original_currency: 'USD',
+        conversion_rate: 3.6725,
+        conversion_rate_source: 'cached',
+        conversion_rate_date: '2025-11-04',
+      }),
+    ]);
+  });
+
+  it('checks each expense category budget once', async () => {
+    await saveTransactionsBatchTool.execute({
+      context: baseContext,
+      mastra: mockMastra as any,
+      runtimeContext: mockRuntimeContext as any,
+    });
+
+    expect(checkBudgetAfterSave).toHaveBeenCalledTimes(2);
+    expect(checkBudgetAfterSave).toHaveBeenCalledWith(baseContext.userId, 'Dining', mockLogger);
+    expect(checkBudgetAfterSave).toHaveBeenCalledWith(baseContext.userId, 'Transport', mockLogger);
+  });
+
+  it('checks every saved expense for unusual spending', async () => {
+    await saveTransactionsBatchTool.execute({
+      context: baseContext,
+      mastra: mockMastra as any,
+      runtimeContext: mockRuntimeContext as any,
+    });
+
+    expect(checkSpendingAfterSave).toHaveBeenCalledTimes(3);
+    expect(checkSpendingAfterSave).toHaveBeenCalledWith(
+      baseContext.userId,
+      {
+        transactionId: 'tx-2',
+        amount: 40,
+        currency: 'AED',
+        merchant: 'Taxi',
+        category: 'Transport',
+      },
+      mockLogger
+    );
+  });
+
+  it('creates one draft for all transactions when review is on', async () => {
+    vi.mocked(createTransactionDraft).mockResolvedValue('draft-uuid');
+    const reviewContext = {
+      get: vi.fn((key: string) => (key === 'reviewBeforeSave' ? true : undefined)),
+    };
+
+    const result = await saveTransactionsBatchTool.execute({
+      context: baseContext,
+      mastra: mockMastra as any,
+      runtimeContext: reviewContext as any,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.draftId).toBe('draft-uuid');
+    expect(result.saved).toEqual([]);
+    expect(createTransactionDraft).toHaveBeenCalledWith(
+      baseContext.userId,
+      baseContext.transactions
+    );
+    expect(insertTransactionWithRetry).not.toHaveBeenCalled();
+  });
+
+  it('returns a failure message when the insert fails', async () => {
+    vi.mocked(insertTransactionWithRetry).mockRejectedValue(
+      new Error('Database connection failed')
+    );
+
+    const result = await saveTransactionsBatchTool.execute({
+      context: baseContext,
+      mastra: mockMastra as any,
+      runtimeContext: mockRuntimeContext as any,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.saved).toEqual([]);
+    expect(result.message).toContain('Database connection failed');
+    expect(checkBudgetAfterSave).not.toHaveBeenCalled();
+    expect(checkSpendingAfterSave).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { rpc } = vi.hoisted(() => ({ rpc: vi.fn() }));
+
+vi.mock('../lib/supabase', () => ({ supabaseService: { rpc } }));
+
+import { aggregateTransactions } from '../services/transaction-aggregation.service';
+import { aggregateTransactionsTool } from '../mastra/tools/aggregate-transactions-tool';
+
+describe('aggregateTransactions', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+  });
+
+  it('passes filters to the RPC and maps numeric columns', async () => {
+    rpc.mockResolvedValue({
+      data: [
+        {
+          group_key: 'Dining',
+          currency: 'AED',
+          total: '1250.50',
+          transaction_count: '61',
+          average: '20.50',
+          min_amount: '4.00',
+          max_amount: '310.00',
+          first_date: '2025-01-02',
+          last_date: '2025-11-20',
+        },
+      ],
+      error: null,
+    });
+
+    const groups = await aggregateTransactions({
+      userId: 42,
+      groupBy: 'category',
+      dateFrom: '2025-01-01',
+      transactionType: 'expense',
+    });
+
+    expect(rpc).toHaveBeenCalledWith('aggregate_transactions', {
+      p_user_id: 42,
+      p_group_by: 'category',
+      p_date_from: '2025-01-01',
+      p_date_to: null,
+      p_category: null,
+      p_merchant: null,
+      p_transaction_type: 'expense',
+      p_min_amount: null,
+      p_max_amount: null,
+      p_limit: 100,
+    });
+    expect(groups).toEqual([
+      {
+        key: 'Dining',
+        currency: 'AED',
+        total: 1250.5,
+        count: 61,
+        average: 20.5,
+        min: 4,
+        max: 310,
+        firstDate: '2025-01-02',
+        lastDate: '2025-11-20',
+      },
+    ]);
+  });
+
+  it('throws when the RPC fails', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'function does not exist' } });
+
+    await expect(aggregateTransactions({ userId: 42 })).rejects.toThrow(
+      'Failed to aggregate transactions: function does not exist'
+    );
+  });
+});
+
+describe('aggregateTransactionsTool', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+    rpc.mockResolvedValue({ data: [], error: null });
+  });
+
+  it('totals expenses only when no transaction type is given', async () => {
+    await aggregateTransactionsTool.execute({
+      context: { userId: 42, dateFrom: '2025-11-01' },
+    } as any);
+
+    expect(rpc).toHaveBeenCalledWith(
+      'aggregate_transactions',
+      expect.objectContaining({ p_transaction_type: 'expense' })
+    );
+  });
+
+  it('keeps an explicit income filter', async () => {
+    await aggregateTransactionsTool.execute({
+      context: { userId: 42, transactionType: 'income' },
+    } as any);
+
+    expect(rpc).toHaveBeenCalledWith(
+      'aggregate_transactions',
+      expect.objectContaining({ p_transaction_type: 'income' })
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({ supabaseService: { from: vi.fn() } }));
+
+import {
+  buildResumedMessage,
+  isClarificationAnswer,
+  type PendingClarification,
+} from '../services/transaction-clarification.service';
+import { messages } from '../lib/messages';
+
+const pending: PendingClarification = {
+  id: 'c1',
+  userId: 1,
+  sourceText: 'Carrefour yesterday',
+  knownFields: { merchant: 'Carrefour', category: 'Groceries', transactionDate: '2025-11-03' },
+  missingFields: ['amount'],
+};
+
+describe('isClarificationAnswer', () => {
+  it.each(['45', '45 aed', 'AED 45', 'it was 120.50 usd', '$12'])(
+    'accepts "%s" as a missing amount',
+    (reply) => {
+      expect(isClarificationAnswer(reply, ['amount'], 'logger')).toBe(true);
+    }
+  );
+
+  it.each([
+    'how much did I spend this week?',
+    'never mind',
+    '',
+    'Starbucks 25',
+    'spending in march 2025',
+  ])('treats "%s" as a new message when the amount is missing', (reply) => {
+    expect(isClarificationAnswer(reply, ['amount'], 'logger')).toBe(false);
+  });
+
+  it('accepts a short merchant answer', () => {
+    expect(isClarificationAnswer('Starbucks', ['merchant'], 'auto')).toBe(true);
+    expect(isClarificationAnswer('Starbucks 25', ['merchant'], 'auto')).toBe(false);
+    expect(isClarificationAnswer('spending this month', ['merchant'], 'auto')).toBe(false);
+    expect(
+      isClarificationAnswer('what are my top categories this month?', ['merchant'], 'auto')
+    ).toBe(false);
+  });
+
+  it('accepts a name and an amount when both are missing', () => {
+    expect(isClarificationAnswer('Starbucks 25', ['amount', 'merchant'], 'logger')).toBe(true);
+  });
+
+  it('never takes over messages in query or chat mode', () => {
+    expect(isClarificationAnswer('45', ['amount'], 'query')).toBe(false);
+    expect(isClarificationAnswer('Starbucks', ['merchant'], 'chat')).toBe(false);
+  });
+});
+
+describe('buildResumedMessage', () => {
+  it('keeps the extracted fields and appends the answer', () => {
+    const message = buildResumedMessage(pending, ' 45 ');
+
+    expect(message).toContain('Previous message: Carrefour yesterday');
+    expect(message).toContain('"transactionDate":"2025-11-03"');
+    expect(message).toContain('Missing: amount');
+    expect(message.endsWith("User's answer: 45")).toBe(true);
+  });
+});
+
+describe('messages.clarification.question', () => {
+  it('asks only for what is missing', () => {
+    expect(messages.clarification.question(['amount'], 'Carrefour')).toBe(
+      '🤔 How much was it at Carrefour?'
+    );
+    expect(messages.clarification.question(['merchant'])).toBe(
+      '🤔 Where was it, or what was it for?'
+    );
+    expect(messages.clarification.question(['amount', 'merchant'])).toBe(
+      '🤔 How much was it, and where?'
+    );
+  });
+});
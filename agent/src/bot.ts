@@ -1,9 +1,10 @@
 import { Bot } from 'grammy';
 import type { Mastra } from '@mastra/core/mastra';
 import type { Context as HonoContext } from 'hono';
-import { initializeTelegramApi } from './services/subscription.service';
+import { initializeTelegramApi } from './services/notification.service';
 import { registerAllHandlers } from './handlers';
 import { registerBotHealth } from './services/health.service';
+import { registerScheduledJobs } from './services/scheduler.service';
 import { config } from './lib/config';
 
 const token = process.env.TELEGRAM_BOT_TOKEN;
@@ -30,7 +31,7 @@ export function createBot(mastra: Mastra, options?: BotOptions): Bot {
   const bot = new Bot(token!);
   const logger = mastra.getLogger();
 
-  // Initialize Telegram API for subscription messages
+  // Initialize Telegram API for proactive messages (subscription confirmations, budget alerts)
   initializeTelegramApi(bot.api);
 
   // Set up bot commands menu (appears in toolbar)
@@ -50,12 +51,40 @@ export function createBot(mastra: Mastra, options?: BotOptions): Bot {
       },
       {
         command: 'mode',
-        description: '🎯 Switch mode (logger/chat/query)',
+        description: '🎯 Switch mode (auto/logger/chat/query)',
       },
       {
         command: 'recent',
         description: '📋 View recent transactions',
       },
+      {
+        command: 'budget',
+        description: '🎯 Set monthly category budgets',
+      },
+      {
+        command: 'recurring',
+        description: '🔁 Manage recurring transactions',
+      },
+      {
+        command: 'rules',
+        description: '🏷️ Merchant category rules',
+      },
+      {
+        command: 'subscriptions',
+        description: '🔍 Find recurring subscriptions',
+      },
+      {
+        command: 'chart',
+        description: '📊 Spending charts',
+      },
+      {
+        command: 'digest',
+        description: '📬 Weekly/monthly spending digests',
+      },
+      {
+        command: 'review',
+        description: '📝 Review transactions before saving',
+      },
       {
         command: 'currency',
         description: '💱 Set default currency',
@@ -89,6 +118,9 @@ export function createBot(mastra: Mastra, options?: BotOptions): Bot {
   // Register lifecycle telemetry hooks
   registerBotHealth(bot, logger);
 
+  // Background jobs (recurring transactions)
+  registerScheduledJobs(logger);
+
   // Error handler for bot-level errors
   bot.catch((err) => {
     logger.error('bot:error', {
@@ -0,0 +1,236 @@
+import type { Bot, Context } from 'grammy';
+import type { Mastra } from '@mastra/core/mastra';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { messages } from '../../lib/messages';
+import {
+  DRAFT_CATEGORIES,
+  buildDraftKeyboard,
+  buildDraftCategoryKeyboard,
+  buildDraftDateKeyboard,
+  buildTransactionActionsKeyboard,
+} from '../../lib/transaction-format';
+import { getUserTimezone } from '../../services/user.service';
+import { learnMerchantCategory } from '../../services/merchant-rule.service';
+import {
+  getPendingDraft,
+  updateDraftTransactions,
+  claimDraft,
+  cancelDraft,
+  releaseDraft,
+  type TransactionDraft,
+} from '../../services/transaction-draft.service';
+import { saveTransactionTool } from '../../mastra/tools/save-transaction-tool';
+import { saveTransactionsBatchTool } from '../../mastra/tools/save-transactions-batch-tool';
+
+/**
+ * Show the draft preview again with its main buttons
+ */
+async function showDraftPreview(ctx: Context, draft: TransactionDraft): Promise<void> {
+  await ctx.editMessageText(messages.draft.preview(draft.transactions), {
+    parse_mode: 'Markdown',
+    reply_markup: buildDraftKeyboard(draft.id, draft.transactions.length === 1),
+  });
+}
+
+/**
+ * Save a claimed draft through the same tools the logger agent uses
+ * (currency conversion, embeddings, receipt items and budget alerts all apply)
+ * @returns Confirmation lines and display IDs, or null if the save failed
+ */
+async function saveDraft(
+  ctx: Context,
+  mastra: Mastra,
+  draft: TransactionDraft
+): Promise<{ lines: string[]; displayIds: number[] } | null> {
+  const userMetadata = {
+    userId: draft.userId,
+    telegramChatId: draft.userId,
+    telegramUsername: ctx.from?.username,
+    firstName: ctx.from?.first_name,
+    lastName: ctx.from?.last_name ?? null,
+  };
+  // Fresh runtime context: no reviewBeforeSave flag, so the tools insert for real.
+  // Merchant rules already ran when the draft was created; running them again would undo
+  // a category the user picked with the Change category button.
+  const runtimeContext = new RuntimeContext();
+  runtimeContext.set('confirmedDraft', true);
+
+  if (draft.transactions.length === 1) {
+    const [tx] = draft.transactions;
+    const result = await saveTransactionTool.execute({
+      context: { ...userMetadata, ...tx },
+      mastra,
+      runtimeContext,
+    });
+    if (!result.success || result.displayId === undefined) {
+      return null;
+    }
+    return {
+      lines: [`#${result.displayId} ${tx.merchant} - ${tx.amount} ${tx.currency} (${tx.category})`],
+      displayIds: [result.displayId],
+    };
+  }
+
+  const result = await saveTransactionsBatchTool.execute({
+    context: { ...userMetadata, transactions: draft.transactions },
+    mastra,
+    runtimeContext,
+  });
+  if (!result.success) {
+    return null;
+  }
+  return {
+    lines: result.saved.map(
+      (tx) => `#${tx.displayId} ${tx.merchant} - ${tx.amount} ${tx.currency} (${tx.category})`
+    ),
+    displayIds: result.saved.map((tx) => tx.displayId),
+  };
+}
+
+/**
+ * Register confirm-before-save draft callback handlers
+ * Handles: draft_ok_*, draft_no_*, draft_cat_*, draft_setcat_*, draft_date_*, draft_setdate_*, draft_back_*
+ */
+export function registerDraftCallbacks(bot: Bot, mastra: Mastra): void {
+  const logger = mastra.getLogger();
+
+  bot.callbackQuery(/^draft_/, async (ctx) => {
+    const userId = ctx.from?.id;
+    const callbackData = ctx.callbackQuery.data;
+
+    if (!userId) {
+      await ctx.answerCallbackQuery(messages.callbacks.noUser());
+      return;
+    }
+
+    logger.info('callback:draft', { userId, callbackData });
+
+    // draft_<action>_<uuid>[_<value>] - UUIDs contain dashes, never underscores
+    const [, action, draftId, value] = callbackData.split('_');
+
+    try {
+      await ctx.answerCallbackQuery();
+
+      switch (action) {
+        case 'ok': {
+          const draft = await claimDraft(userId, draftId);
+          if (!draft) {
+            await ctx.editMessageText(messages.draft.expired());
+            return;
+          }
+
+          const saved = await saveDraft(ctx, mastra, draft);
+          if (!saved) {
+            await releaseDraft(userId, draftId);
+            await ctx.editMessageText(messages.draft.saveFailed(), {
+              reply_markup: buildDraftKeyboard(draft.id, draft.transactions.length === 1),
+            });
+            logger.warn('callback:draft:save_failed', { userId, draftId });
+            return;
+          }
+
+          await ctx.editMessageText(messages.draft.saved(saved.lines), {
+            parse_mode: 'Markdown',
+            reply_markup: buildTransactionActionsKeyboard(saved.displayIds),
+          });
+          logger.info('callback:draft:confirmed', {
+            userId,
+            draftId,
+            displayIds: saved.displayIds,
+          });
+          return;
+        }
+
+        case 'no': {
+          const cancelled = await cancelDraft(userId, draftId);
+          await ctx.editMessageText(
+            cancelled ? messages.draft.cancelled() : messages.draft.expired()
+          );
+          logger.info('callback:draft:cancelled', { userId, draftId, cancelled });
+          return;
+        }
+
+        case 'cat':
+        case 'date': {
+          const draft = await getPendingDraft(userId, draftId);
+          if (!draft) {
+            await ctx.editMessageText(messages.draft.expired());
+            return;
+          }
+
+          if (action === 'cat') {
+            await ctx.editMessageText(messages.draft.chooseCategory(), {
+              parse_mode: 'Markdown',
+              reply_markup: buildDraftCategoryKeyboard(draftId),
+            });
+          } else {
+            const timezone = await getUserTimezone(userId);
+            await ctx.editMessageText(messages.draft.chooseDate(), {
+              parse_mode: 'Markdown',
+              reply_markup: buildDraftDateKeyboard(draftId, timezone),
+            });
+          }
+          return;
+        }
+
+        case 'setcat':
+        case 'setdate': {
+          const category = action === 'setcat' ? DRAFT_CATEGORIES[Number(value)] : undefined;
+          const transactionDate =
+            action === 'setdate' && /^\d{4}-\d{2}-\d{2}$/.test(value ?? '') ? value : undefined;
+
+          if (!category && !transactionDate) {
+            throw new Error(`Invalid draft change: ${callbackData}`);
+          }
+
+          const draft = await updateDraftTransactions(
+            userId,
+            draftId,
+            category ? { category } : { transactionDate }
+          );
+          if (!draft) {
+            await ctx.editMessageText(messages.draft.expired());
+            return;
+          }
+
+          // A category correction teaches a rule, same as editing a saved transaction
+          const [tx] = draft.transactions;
+          const isExpense = (tx.transactionType ?? 'expense') === 'expense';
+          if (category && draft.transactions.length === 1 && isExpense) {
+            await learnMerchantCategory(userId, tx.merchant, category).catch((error) =>
+              logger.warn('callback:draft:rule_learn_failed', {
+                userId,
+                draftId,
+                error: error instanceof Error ? error.message : String(error),
+              })
+            );
+          }
+
+          await showDraftPreview(ctx, draft);
+          logger.info('callback:draft:updated', { userId, draftId, category, transactionDate });
+          return;
+        }
+
+        case 'back': {
+          const draft = await getPendingDraft(userId, draftId);
+          if (!draft) {
+            await ctx.editMessageText(messages.draft.expired());
+            return;
+          }
+          await showDraftPreview(ctx, draft);
+          return;
+        }
+
+        default:
+          throw new Error(`Unknown draft action: ${action}`);
+      }
+    } catch (error) {
+      logger.error('callback:draft:error', {
+        userId,
+        callbackData,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await ctx.reply(messages.callbacks.genericError(), { parse_mode: 'Markdown' });
+    }
+  });
+}
@@ -10,7 +10,7 @@ import { messages } from '../../lib/messages';
 
 /**
  * Register mode switch callback query handlers
- * Handles: set_mode_logger, set_mode_chat, set_mode_query
+ * Handles: set_mode_auto, set_mode_logger, set_mode_chat, set_mode_query
  */
 export function registerModeCallbacks(bot: Bot, mastra: Mastra): void {
   const logger = mastra.getLogger();
@@ -85,6 +85,7 @@ export function registerProfileSetupCallbacks(bot: Bot, mastra: Mastra): void {
 
       const keyboard = {
         inline_keyboard: [
+          [{ text: '✨ Auto Mode', callback_data: 'set_mode_auto' }],
           [{ text: '💰 Logger Mode', callback_data: 'set_mode_logger' }],
           [{ text: '💬 Chat Mode', callback_data: 'set_mode_chat' }],
           [{ text: '📊 Query Mode', callback_data: 'set_mode_query' }],
@@ -0,0 +1,56 @@
+import type { Bot } from 'grammy';
+import type { Mastra } from '@mastra/core/mastra';
+import { messages } from '../../lib/messages';
+import { buildRecentReply, parseRecentFilters } from '../commands/recent.handler';
+
+/**
+ * Register /recent paging button handlers
+ * Handles: recent_page_<page>_<filter args>
+ */
+export function registerRecentCallbacks(bot: Bot, mastra: Mastra): void {
+  const logger = mastra.getLogger();
+
+  bot.callbackQuery(/^recent_page_(\d+)_?(.*)$/, async (ctx) => {
+    const userId = ctx.from?.id;
+    const callbackData = ctx.callbackQuery.data;
+
+    if (!userId) {
+      await ctx.answerCallbackQuery(messages.callbacks.noUser());
+      return;
+    }
+
+    const page = Number(ctx.match[1]);
+    const filters = parseRecentFilters(ctx.match[2]);
+
+    logger.info('callback:recent', { userId, page, filters });
+
+    try {
+      const { text, reply_markup, count } = await buildRecentReply(
+        userId,
+        'invalid' in filters ? {} : filters,
+        page
+      );
+
+      // Transactions deleted since the list was shown can leave a page empty
+      await ctx.editMessageText(text, { parse_mode: 'Markdown', reply_markup });
+      await ctx.answerCallbackQuery();
+
+      logger.info('callback:recent:completed', { userId, page, count });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      // Double taps re-render the same page
+      if (errorMessage.includes('message is not modified')) {
+        await ctx.answerCallbackQuery().catch(() => undefined);
+        return;
+      }
+
+      logger.error('callback:recent:error', {
+        userId,
+        callbackData,
+        error: errorMessage,
+      });
+      await ctx.answerCallbackQuery(messages.callbacks.error()).catch(() => undefined);
+    }
+  });
+}
@@ -0,0 +1,68 @@
+import type { Bot } from 'grammy';
+import type { Mastra } from '@mastra/core/mastra';
+import { messages } from '../../lib/messages';
+import {
+  getRecurringTransactions,
+  setRecurringStatus,
+  deleteRecurringTransaction,
+} from '../../services/recurring.service';
+import { buildRecurringReply } from '../commands/recurring.handler';
+
+/**
+ * Register /recurring button handlers
+ * Handles: recurring_pause_*, recurring_resume_*, recurring_delete_*
+ */
+export function registerRecurringCallbacks(bot: Bot, mastra: Mastra): void {
+  const logger = mastra.getLogger();
+
+  bot.callbackQuery(/^recurring_(pause|resume|delete)_/, async (ctx) => {
+    const userId = ctx.from?.id;
+    const callbackData = ctx.callbackQuery.data;
+
+    if (!userId) {
+      await ctx.answerCallbackQuery(messages.callbacks.noUser());
+      return;
+    }
+
+    logger.info('callback:recurring', { userId, callbackData });
+
+    // recurring_<action>_<uuid>
+    const [, action, recurringId] = callbackData.split('_');
+
+    try {
+      let toast: string;
+
+      if (action === 'delete') {
+        const schedule = await deleteRecurringTransaction(userId, recurringId);
+        toast = schedule
+          ? messages.recurring.deleted(schedule.merchant)
+          : messages.recurring.notFound();
+      } else {
+        const schedule = await setRecurringStatus(
+          userId,
+          recurringId,
+          action === 'pause' ? 'paused' : 'active'
+        );
+        toast = !schedule
+          ? messages.recurring.notFound()
+          : action === 'pause'
+            ? messages.recurring.paused(schedule.merchant)
+            : messages.recurring.resumed(schedule.merchant, schedule.next_run_date);
+      }
+
+      // Re-render the list so buttons reflect the new state
+      const { text, reply_markup } = buildRecurringReply(await getRecurringTransactions(userId));
+      await ctx.editMessageText(text, { parse_mode: 'Markdown', reply_markup });
+      await ctx.answerCallbackQuery(toast);
+
+      logger.info('callback:recurring:completed', { userId, action, recurringId });
+    } catch (error) {
+      logger.error('callback:recurring:error', {
+        userId,
+        callbackData,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await ctx.answerCallbackQuery(messages.callbacks.error()).catch(() => undefined);
+    }
+  });
+}
@@ -0,0 +1,48 @@
+import type { Bot } from 'grammy';
+import type { Mastra } from '@mastra/core/mastra';
+import { messages } from '../../lib/messages';
+import { getMerchantRules, deleteMerchantRule } from '../../services/merchant-rule.service';
+import { buildRulesReply } from '../commands/rules.handler';
+
+/**
+ * Register /rules button handlers
+ * Handles: rules_delete_*
+ */
+export function registerRulesCallbacks(bot: Bot, mastra: Mastra): void {
+  const logger = mastra.getLogger();
+
+  bot.callbackQuery(/^rules_delete_/, async (ctx) => {
+    const userId = ctx.from?.id;
+    const callbackData = ctx.callbackQuery.data;
+
+    if (!userId) {
+      await ctx.answerCallbackQuery(messages.callbacks.noUser());
+      return;
+    }
+
+    logger.info('callback:rules', { userId, callbackData });
+
+    // rules_delete_<uuid>
+    const ruleId = callbackData.slice('rules_delete_'.length);
+
+    try {
+      const rule = await deleteMerchantRule(userId, ruleId);
+
+      // Re-render the list so numbering and buttons stay in sync
+      const { text, reply_markup } = buildRulesReply(await getMerchantRules(userId));
+      await ctx.editMessageText(text, { parse_mode: 'Markdown', reply_markup });
+      await ctx.answerCallbackQuery(
+        rule ? messages.rules.deleted(rule.merchant) : messages.rules.notFound()
+      );
+
+      logger.info('callback:rules:completed', { userId, ruleId, deleted: !!rule });
+    } catch (error) {
+      logger.error('callback:rules:error', {
+        userId,
+        callbackData,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await ctx.answerCallbackQuery(messages.callbacks.error()).catch(() => undefined);
+    }
+  });
+}
@@ -0,0 +1,62 @@
+import type { Bot } from 'grammy';
+import type { Mastra } from '@mastra/core/mastra';
+import { searchTransactionsSQL } from '../../lib/embeddings';
+import { messages } from '../../lib/messages';
+import { decodeDisplayIds, formatTransactionLine } from '../../lib/transaction-format';
+
+const MAX_SHOWN = 30; // Keeps the list well under Telegram's message length limit
+
+/**
+ * Register "Show transactions" button handler (under query answers)
+ * Handles: show_tx_<total>_<encoded display ids>
+ */
+export function registerShowTransactionsCallbacks(bot: Bot, mastra: Mastra): void {
+  const logger = mastra.getLogger();
+
+  bot.callbackQuery(/^show_tx_(\d+)_(.+)$/, async (ctx) => {
+    const userId = ctx.from?.id;
+    const callbackData = ctx.callbackQuery.data;
+
+    if (!userId) {
+      await ctx.answerCallbackQuery(messages.callbacks.noUser());
+      return;
+    }
+
+    const displayIds = decodeDisplayIds(ctx.match[2]);
+    const total = Math.max(Number(ctx.match[1]), displayIds.length);
+
+    logger.info('callback:show_transactions', { userId, count: displayIds.length, total });
+
+    try {
+      await ctx.answerCallbackQuery();
+
+      // Only the user's own rows: display IDs are per user
+      const transactions = await searchTransactionsSQL({
+        userId,
+        displayIds,
+        limit: MAX_SHOWN,
+      });
+
+      if (transactions.length === 0) {
+        await ctx.reply(messages.recent.sourcesGone());
+        return;
+      }
+
+      const lines = transactions.map((tx, index) => formatTransactionLine(tx, index));
+
+      await ctx.reply(
+        messages.recent.sources(transactions.length, total) + '\n\n' + lines.join('\n'),
+        { parse_mode: 'Markdown' }
+      );
+
+      logger.info('callback:show_transactions:completed', { userId, shown: transactions.length });
+    } catch (error) {
+      logger.error('callback:show_transactions:error', {
+        userId,
+        callbackData,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await ctx.answerCallbackQuery(messages.callbacks.error()).catch(() => undefined);
+    }
+  });
+}
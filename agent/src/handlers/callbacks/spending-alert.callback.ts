@@ -0,0 +1,71 @@
+import type { Bot } from 'grammy';
+import type { Mastra } from '@mastra/core/mastra';
+import { messages } from '../../lib/messages';
+import {
+  buildSpendingAlertKeyboard,
+  raiseAlertThreshold,
+  MAX_ALERT_THRESHOLD,
+} from '../../services/spending-alert.service';
+import { getSpendingAlertSettings, updateSpendingAlertSettings } from '../../services/user.service';
+
+/**
+ * Register unusual spending alert button handlers
+ * Handles: spending_alert_fewer, spending_alert_mute, spending_alert_unmute
+ */
+export function registerSpendingAlertCallbacks(bot: Bot, mastra: Mastra): void {
+  const logger = mastra.getLogger();
+
+  bot.callbackQuery(/^spending_alert_(fewer|mute|unmute)$/, async (ctx) => {
+    const userId = ctx.from?.id;
+    const callbackData = ctx.callbackQuery.data;
+
+    if (!userId) {
+      await ctx.answerCallbackQuery(messages.callbacks.noUser());
+      return;
+    }
+
+    logger.info('callback:spending_alert', { userId, callbackData });
+
+    const action = ctx.match?.[1];
+
+    try {
+      if (action === 'fewer') {
+        const { threshold } = await getSpendingAlertSettings(userId);
+        if (threshold >= MAX_ALERT_THRESHOLD) {
+          await ctx.answerCallbackQuery(messages.spendingAlerts.fewerAtMax());
+          return;
+        }
+
+        const raised = raiseAlertThreshold(threshold);
+        const success = await updateSpendingAlertSettings(userId, { threshold: raised });
+        await ctx.answerCallbackQuery(
+          success ? messages.spendingAlerts.fewer() : messages.spendingAlerts.failed()
+        );
+        logger.info('callback:spending_alert:threshold_raised', { userId, threshold: raised });
+        return;
+      }
+
+      const muted = action === 'mute';
+      const success = await updateSpendingAlertSettings(userId, { enabled: !muted });
+      if (!success) {
+        await ctx.answerCallbackQuery(messages.spendingAlerts.failed());
+        return;
+      }
+
+      // Swap the buttons so the alert itself can undo the mute
+      await ctx.editMessageReplyMarkup({ reply_markup: buildSpendingAlertKeyboard(muted) });
+      await ctx.answerCallbackQuery(
+        muted ? messages.spendingAlerts.muted() : messages.spendingAlerts.unmuted()
+      );
+
+      logger.info('callback:spending_alert:completed', { userId, muted });
+    } catch (error) {
+      logger.error('callback:spending_alert:error', {
+        userId,
+        callbackData,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await ctx.answerCallbackQuery(messages.callbacks.error()).catch(() => undefined);
+    }
+  });
+}
@@ -2,6 +2,7 @@ import type { Bot } from 'grammy';
 import type { Mastra } from '@mastra/core/mastra';
 import { messages } from '../../lib/messages';
 import { supabaseService } from '../../lib/supabase';
+import { AgentResponseCache } from '../../lib/prompt-cache';
 
 /**
  * Register transaction callback query handlers
@@ -51,6 +52,8 @@ export function registerTransactionCallbacks(bot: Bot, mastra: Mastra): void {
             throw deleteError;
           }
 
+          await AgentResponseCache.bumpDataVersion(userId);
+
           // Show confirmation message
           const confirmationMessage = `✅ *Transaction #${displayId} deleted successfully*`;
 
@@ -0,0 +1,87 @@
+import type { Bot } from 'grammy';
+import type { Mastra } from '@mastra/core/mastra';
+import { getUserDefaultCurrency } from '../../lib/currency';
+import { messages } from '../../lib/messages';
+import {
+  setBudget,
+  deleteBudget,
+  getBudgetStatuses,
+  normalizeBudgetCategory,
+} from '../../services/budget.service';
+
+/**
+ * Register /budget command handler
+ * View budgets (/budget), set one (/budget Dining 1500) or remove one (/budget Dining 0)
+ */
+export function registerBudgetCommand(bot: Bot, mastra: Mastra): void {
+  const logger = mastra.getLogger();
+
+  bot.command('budget', async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) {
+      await ctx.reply(messages.errors.noUser());
+      return;
+    }
+
+    logger.info('command:budget', { userId });
+
+    const args = ctx.message?.text?.split(/\s+/).slice(1).filter(Boolean) || [];
+
+    // No arguments: show this month's budget usage
+    if (args.length === 0) {
+      try {
+        const { period, statuses } = await getBudgetStatuses(userId);
+        if (statuses.length === 0) {
+          await ctx.reply(messages.budget.usage(), { parse_mode: 'Markdown' });
+          return;
+        }
+        await ctx.reply(messages.budget.list(period.label, statuses), { parse_mode: 'Markdown' });
+      } catch (error) {
+        logger.error('command:budget:fetch_error', {
+          userId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await ctx.reply(messages.budget.failed());
+      }
+      return;
+    }
+
+    // Last argument is the amount; everything before it is the category ("Personal Care 300")
+    const amount = Number(args[args.length - 1].replace(/,/g, ''));
+    const categoryInput = args.slice(0, -1).join(' ');
+
+    if (!categoryInput || Number.isNaN(amount) || amount < 0) {
+      await ctx.reply(messages.budget.invalidUsage(), { parse_mode: 'Markdown' });
+      return;
+    }
+
+    const category = normalizeBudgetCategory(categoryInput);
+
+    try {
+      if (amount === 0) {
+        const removed = await deleteBudget(userId, category);
+        logger.info('command:budget:removed', { userId, category, removed });
+        await ctx.reply(
+          removed ? messages.budget.removed(category) : messages.budget.notFound(category),
+          { parse_mode: 'Markdown' }
+        );
+        return;
+      }
+
+      const currency = await getUserDefaultCurrency(userId);
+      await setBudget(userId, category, amount, currency);
+
+      logger.info('command:budget:updated', { userId, category, amount, currency });
+      await ctx.reply(messages.budget.setSuccess(category, amount, currency), {
+        parse_mode: 'Markdown',
+      });
+    } catch (error) {
+      logger.error('command:budget:update_error', {
+        userId,
+        category,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await ctx.reply(messages.budget.failed());
+    }
+  });
+}
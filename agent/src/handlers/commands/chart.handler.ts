@@ -0,0 +1,56 @@
+import { InputFile, type Bot } from 'grammy';
+import type { Mastra } from '@mastra/core/mastra';
+import { messages } from '../../lib/messages';
+import { createSpendingChart, type ChartType } from '../../services/chart.service';
+
+const CHART_TYPES: ChartType[] = ['category', 'monthly', 'daily'];
+
+/**
+ * Register /chart command handler
+ * /chart [category|monthly|daily] - sends a spending chart as a photo (default: category)
+ */
+export function registerChartCommand(bot: Bot, mastra: Mastra): void {
+  const logger = mastra.getLogger();
+
+  bot.command('chart', async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) {
+      await ctx.reply(messages.errors.noUser());
+      return;
+    }
+
+    const arg = ctx.match?.toString().trim().toLowerCase() || 'category';
+    const type = CHART_TYPES.find((candidate) => candidate === arg);
+
+    logger.info('command:chart', { userId, type: arg });
+
+    if (!type) {
+      await ctx.reply(messages.charts.usage(), { parse_mode: 'Markdown' });
+      return;
+    }
+
+    try {
+      await ctx.replyWithChatAction('upload_photo');
+      const chart = await createSpendingChart(userId, type);
+
+      if (!chart) {
+        await ctx.reply(messages.charts.empty());
+        return;
+      }
+
+      await ctx.replyWithPhoto(new InputFile(chart.png, 'chart.png'), {
+        caption: messages.charts.caption(type, chart.total, chart.spec.currency, chart.spec.points),
+        parse_mode: 'Markdown',
+      });
+
+      logger.info('command:chart:sent', { userId, type, points: chart.spec.points.length });
+    } catch (error) {
+      logger.error('command:chart:error', {
+        userId,
+        type,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await ctx.reply(messages.charts.failed());
+    }
+  });
+}
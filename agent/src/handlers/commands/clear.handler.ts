@@ -1,6 +1,7 @@
 import type { Bot } from 'grammy';
 import type { Mastra } from '@mastra/core/mastra';
 import { AgentResponseCache } from '../../lib/prompt-cache';
+import { SemanticResponseCache } from '../../lib/semantic-cache';
 import { messages } from '../../lib/messages';
 
 /**
@@ -13,7 +14,9 @@ export function registerClearCommand(bot: Bot, mastra: Mastra): void {
   bot.command('clear', async (ctx) => {
     const userId = ctx.from?.id;
     if (userId) {
-      const deleted = await AgentResponseCache.clearUser(userId);
+      const deleted =
+        (await AgentResponseCache.clearUser(userId)) +
+        (await SemanticResponseCache.clearUser(userId));
       logger.info('command:clear', { userId, deleted });
       await ctx.reply(messages.success.cacheCleared(deleted));
     }
@@ -7,6 +7,10 @@ import {
   normalizeCurrency,
 } from '../../lib/currency';
 import { messages } from '../../lib/messages';
+import {
+  startCurrencyMigration,
+  runCurrencyMigration,
+} from '../../services/currency-migration.service';
 
 /**
  * Register /currency command handler
@@ -51,7 +55,9 @@ export function registerCurrencyCommand(bot: Bot, mastra: Mastra): void {
     }
 
     // Update user's default currency
+    let previousCurrency: string;
     try {
+      previousCurrency = await getUserDefaultCurrency(userId);
       const success = await updateUserDefaultCurrency(userId, normalized);
 
       if (success) {
@@ -67,6 +73,65 @@ export function registerCurrencyCommand(bot: Bot, mastra: Mastra): void {
         error: error instanceof Error ? error.message : String(error),
       });
       await ctx.reply(messages.currency.updateFailed(), { parse_mode: 'Markdown' });
+      return;
+    }
+
+    // Re-denominate history in the background; the progress message is edited per batch
+    try {
+      const migration = await startCurrencyMigration(userId, previousCurrency, normalized);
+      const progressMessage =
+        migration.total_count > 0
+          ? await ctx.reply(
+              messages.currency.migrationStarted(
+                migration.total_count,
+                previousCurrency,
+                normalized
+              ),
+              { parse_mode: 'Markdown' }
+            )
+          : null;
+
+      const editProgress = async (text: string) => {
+        if (!progressMessage) return;
+        try {
+          await ctx.api.editMessageText(progressMessage.chat.id, progressMessage.message_id, text, {
+            parse_mode: 'Markdown',
+          });
+        } catch {
+          // Unchanged text or deleted message - progress is cosmetic
+        }
+      };
+
+      void runCurrencyMigration(migration.id, logger, ({ processed, total }) =>
+        editProgress(messages.currency.migrationProgress(processed, total, normalized))
+      )
+        .then(async (result) => {
+          if (result.status === 'completed') {
+            await editProgress(
+              messages.currency.migrationCompleted(
+                result.processed_count,
+                result.failed_count,
+                normalized
+              )
+            );
+          } else if (result.status === 'failed') {
+            await editProgress(messages.currency.migrationFailed(normalized));
+          }
+        })
+        .catch((error) => {
+          logger.error('command:currency:migration_error', {
+            userId,
+            migrationId: migration.id,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+    } catch (error) {
+      logger.error('command:currency:migration_start_error', {
+        userId,
+        currency: normalized,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await ctx.reply(messages.currency.migrationFailed(normalized), { parse_mode: 'Markdown' });
     }
   });
 }
@@ -0,0 +1,82 @@
+import type { Bot } from 'grammy';
+import type { Mastra } from '@mastra/core/mastra';
+import { messages } from '../../lib/messages';
+import { buildSpendingDigest } from '../../services/digest.service';
+import {
+  getDigestSettings,
+  updateDigestSettings,
+  type DigestFrequency,
+} from '../../services/user.service';
+
+const FREQUENCIES: DigestFrequency[] = ['off', 'weekly', 'monthly', 'both'];
+
+/**
+ * Register /digest command handler
+ * /digest - settings and a preview of the last period's digest
+ * /digest weekly|monthly|both|off - opt in or out
+ * /digest at <hour> - local hour digests are sent
+ */
+export function registerDigestCommand(bot: Bot, mastra: Mastra): void {
+  const logger = mastra.getLogger();
+
+  bot.command('digest', async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) {
+      await ctx.reply(messages.errors.noUser());
+      return;
+    }
+
+    const args = ctx.message?.text?.split(/\s+/).slice(1) ?? [];
+    const arg = args[0]?.toLowerCase();
+
+    logger.info('command:digest', { userId, arg });
+
+    if (arg) {
+      const frequency = FREQUENCIES.find((candidate) => candidate === arg);
+      const hour = arg === 'at' ? Number.parseInt(args[1] ?? '', 10) : undefined;
+
+      if (!frequency && (hour === undefined || Number.isNaN(hour) || hour < 0 || hour > 23)) {
+        await ctx.reply(messages.digest.invalidUsage());
+        return;
+      }
+
+      const success = await updateDigestSettings(userId, frequency ? { frequency } : { hour });
+      if (!success) {
+        await ctx.reply(messages.digest.failed());
+        return;
+      }
+
+      const settings = await getDigestSettings(userId);
+      logger.info('command:digest:updated', { userId, ...settings });
+      await ctx.reply(messages.digest.updated(settings.frequency, settings.hour));
+      return;
+    }
+
+    try {
+      const settings = await getDigestSettings(userId);
+      await ctx.reply(messages.digest.status(settings.frequency, settings.hour), {
+        parse_mode: 'Markdown',
+      });
+
+      const digest = await buildSpendingDigest(
+        userId,
+        settings.frequency === 'monthly' ? 'monthly' : 'weekly',
+        undefined,
+        logger
+      );
+
+      await ctx.reply(
+        digest.spent === 0 && digest.income === 0
+          ? messages.digest.empty()
+          : messages.digest.summary(digest),
+        { parse_mode: 'Markdown' }
+      );
+    } catch (error) {
+      logger.error('command:digest:error', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await ctx.reply(messages.digest.failed());
+    }
+  });
+}
@@ -10,6 +10,7 @@ import { messages } from '../../lib/messages';
 /**
  * Register mode-related command handlers
  * /mode - Show mode selection
+ * /mode_auto - Quick switch to auto mode (routes each message)
  * /mode_logger - Quick switch to logger mode
  * /mode_chat - Quick switch to chat mode
  * /mode_query - Quick switch to query mode
@@ -32,6 +33,7 @@ export function registerModeCommands(bot: Bot, mastra: Mastra): void {
 
       const keyboard = {
         inline_keyboard: [
+          [{ text: '✨ Auto Mode', callback_data: 'set_mode_auto' }],
           [{ text: '💰 Logger Mode', callback_data: 'set_mode_logger' }],
           [{ text: '💬 Chat Mode', callback_data: 'set_mode_chat' }],
           [{ text: '📊 Query Mode', callback_data: 'set_mode_query' }],
@@ -53,6 +55,31 @@ export function registerModeCommands(bot: Bot, mastra: Mastra): void {
     }
   });
 
+  // Handle /mode_auto command (quick switch to auto mode)
+  bot.command('mode_auto', async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) {
+      await ctx.reply(messages.errors.noUser());
+      return;
+    }
+
+    logger.info('command:mode_auto', { userId });
+
+    try {
+      await setUserMode(userId, 'auto');
+      const autoMsg = messages.mode.instructions.auto();
+      await ctx.reply(autoMsg.text, {
+        entities: autoMsg.entities,
+      });
+    } catch (error) {
+      logger.error('command:mode_auto:error', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await ctx.reply(messages.errors.modeSwitchFailed());
+    }
+  });
+
   // Handle /mode_logger command (quick switch to logger mode)
   bot.command('mode_logger', async (ctx) => {
     const userId = ctx.from?.id;
@@ -2,26 +2,140 @@ import type { Bot } from 'grammy';
 import type { Mastra } from '@mastra/core/mastra';
 import { searchTransactionsSQL } from '../../lib/embeddings';
 import { messages } from '../../lib/messages';
+import { parseDateRange } from '../../lib/date-range-parser';
+import {
+  formatTransactionLine,
+  buildRecentKeyboard,
+  MAX_RECENT_FILTER_BYTES,
+} from '../../lib/transaction-format';
+import { getUserTimezone } from '../../services/user.service';
+
+const PAGE_SIZE = 10;
+const PERIOD_UNITS = { d: 'days', w: 'weeks', m: 'months' } as const;
+
+export interface RecentFilters {
+  search?: string; // Category (exact, any case) or part of a merchant name
+  period?: { count: number; unit: keyof typeof PERIOD_UNITS };
+  minAmount?: number;
+  maxAmount?: number;
+}
+
+/**
+ * Parse /recent arguments, e.g. "dining 30d >100"
+ * Words that aren't a period or an amount form the search term.
+ *
+ * @returns Filters, or the first token that looks like a filter but isn't valid
+ */
+export function parseRecentFilters(input: string): RecentFilters | { invalid: string } {
+  const filters: RecentFilters = {};
+  const words: string[] = [];
+
+  for (const token of input.trim().split(/\s+/).filter(Boolean)) {
+    const period = token.match(/^(\d+)([dwm])$/i);
+    const amount = token.match(/^([<>])=?(\d+(?:\.\d+)?)$/);
+
+    if (period) {
+      const count = Number(period[1]);
+      if (count < 1) {
+        return { invalid: token };
+      }
+      filters.period = { count, unit: period[2].toLowerCase() as keyof typeof PERIOD_UNITS };
+    } else if (amount) {
+      filters[amount[1] === '>' ? 'minAmount' : 'maxAmount'] = Number(amount[2]);
+    } else if (/^[<>]/.test(token)) {
+      return { invalid: token };
+    } else {
+      words.push(token);
+    }
+  }
+
+  if (words.length > 0) {
+    filters.search = words.join(' ');
+  }
+  return filters;
+}
+
+/**
+ * Serialize filters back to /recent arguments (carried in the paging buttons)
+ */
+export function formatRecentFilters(filters: RecentFilters): string {
+  return [
+    filters.period && `${filters.period.count}${filters.period.unit}`,
+    filters.minAmount !== undefined && `>${filters.minAmount}`,
+    filters.maxAmount !== undefined && `<${filters.maxAmount}`,
+    filters.search,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+function describeRecentFilters(filters: RecentFilters): string {
+  return [
+    filters.search && `"${filters.search}"`,
+    filters.period && `last ${filters.period.count} ${PERIOD_UNITS[filters.period.unit]}`,
+    filters.minAmount !== undefined && `over ${filters.minAmount}`,
+    filters.maxAmount !== undefined && `under ${filters.maxAmount}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
 
 /**
- * Helper function to get emoji for category
+ * Build one page of the /recent list and its Edit/Delete + Prev/Next buttons
+ * Shared with the paging callbacks, which edit the same message in place
  */
-function getCategoryEmoji(category: string): string {
-  const categoryLower = category.toLowerCase();
-  if (categoryLower.includes('grocer')) return '🛒';
-  if (categoryLower.includes('dining') || categoryLower.includes('food')) return '🍽️';
-  if (categoryLower.includes('transport')) return '🚗';
-  if (categoryLower.includes('entertainment')) return '🎬';
-  if (categoryLower.includes('shopping')) return '🛍️';
-  if (categoryLower.includes('bills')) return '💳';
-  if (categoryLower.includes('health')) return '🏥';
-  if (categoryLower.includes('education')) return '📚';
-  return '💰';
+export async function buildRecentReply(userId: number, filters: RecentFilters, page: number) {
+  const range = filters.period
+    ? parseDateRange(`past ${filters.period.count} ${PERIOD_UNITS[filters.period.unit]}`, {
+        timezone: await getUserTimezone(userId),
+      })
+    : null;
+
+  // One extra row tells us whether there is a next page
+  const rows = await searchTransactionsSQL({
+    userId,
+    search: filters.search,
+    dateFrom: range?.dateFrom,
+    dateTo: range?.dateTo,
+    minAmount: filters.minAmount,
+    maxAmount: filters.maxAmount,
+    limit: PAGE_SIZE + 1,
+    offset: page * PAGE_SIZE,
+  });
+  const transactions = rows.slice(0, PAGE_SIZE);
+  const description = describeRecentFilters(filters);
+
+  if (transactions.length === 0) {
+    return {
+      text:
+        page === 0 && description
+          ? messages.recent.noMatches(description)
+          : messages.recent.empty(),
+      reply_markup: undefined,
+      count: 0,
+    };
+  }
+
+  const lines = transactions.map((tx, index) =>
+    formatTransactionLine(tx, page * PAGE_SIZE + index)
+  );
+
+  return {
+    text: messages.recent.header(description, page) + '\n\n' + lines.join('\n'),
+    reply_markup: buildRecentKeyboard(
+      transactions.map((tx) => tx.display_id),
+      page,
+      rows.length > PAGE_SIZE,
+      formatRecentFilters(filters)
+    ),
+    count: transactions.length,
+  };
 }
 
 /**
  * Register /recent command handler
- * View recent transactions with edit/delete buttons
+ * View recent transactions with edit/delete buttons and Prev/Next paging
+ * /recent [search] [30d|2w|3m] [>100] [<50]
  */
 export function registerRecentCommand(bot: Bot, mastra: Mastra): void {
   const logger = mastra.getLogger();
@@ -33,42 +147,30 @@ export function registerRecentCommand(bot: Bot, mastra: Mastra): void {
       return;
     }
 
-    logger.info('command:recent', { userId });
+    const filters = parseRecentFilters(ctx.match?.toString() ?? '');
 
-    try {
-      await ctx.replyWithChatAction('typing');
-
-      // Fetch recent transactions
-      const transactions = await searchTransactionsSQL({
-        userId,
-        limit: 10,
-      });
+    logger.info('command:recent', { userId, filters });
 
-      if (transactions.length === 0) {
-        await ctx.reply(messages.recent.empty(), { parse_mode: 'Markdown' });
-        return;
-      }
+    if ('invalid' in filters) {
+      const invalidMsg = messages.recent.invalidFilter(filters.invalid);
+      await ctx.reply(invalidMsg.text, { entities: invalidMsg.entities });
+      return;
+    }
 
-      // Format transactions with display IDs
-      const transactionLines = transactions.map((tx, index) => {
-        const emoji = getCategoryEmoji(tx.category);
-        return `${index + 1}. ${emoji} ${tx.merchant} - ${tx.amount} ${tx.currency} (${tx.transaction_date}) [#${tx.display_id}]`;
-      });
+    // Paging buttons carry the filters, so they must fit unchanged
+    if (Buffer.byteLength(formatRecentFilters(filters)) > MAX_RECENT_FILTER_BYTES) {
+      await ctx.reply(messages.recent.filterTooLong());
+      return;
+    }
 
-      const messageText = messages.recent.header() + '\n\n' + transactionLines.join('\n');
+    try {
+      await ctx.replyWithChatAction('typing');
 
-      // Generate inline keyboards for each transaction
-      // Use display_id (sequential number) in callback data, not UUID
-      const keyboard = {
-        inline_keyboard: transactions.map((tx) => [
-          { text: 'Edit', callback_data: `edit_${tx.display_id}` },
-          { text: 'Delete', callback_data: `delete_${tx.display_id}` },
-        ]),
-      };
+      const { text, reply_markup } = await buildRecentReply(userId, filters, 0);
 
-      await ctx.reply(messageText, {
+      await ctx.reply(text, {
         parse_mode: 'Markdown',
-        reply_markup: keyboard,
+        reply_markup,
       });
     } catch (error) {
       logger.error('command:recent:error', {
@@ -0,0 +1,68 @@
+import type { Bot } from 'grammy';
+import type { Mastra } from '@mastra/core/mastra';
+import { messages } from '../../lib/messages';
+import { buildRecurringKeyboard } from '../../lib/transaction-format';
+import {
+  getRecurringTransactions,
+  describeRecurrence,
+  type RecurringTransaction,
+} from '../../services/recurring.service';
+
+/**
+ * Build the /recurring list text and its Pause/Resume/Delete buttons
+ * Shared with the recurring callbacks, which re-render the list after each action
+ */
+export function buildRecurringReply(schedules: RecurringTransaction[]) {
+  if (schedules.length === 0) {
+    return { text: messages.recurring.empty(), reply_markup: undefined };
+  }
+
+  return {
+    text: messages.recurring.list(
+      schedules.map((schedule) => ({
+        merchant: schedule.merchant,
+        amount: Number(schedule.amount),
+        currency: schedule.currency,
+        transactionType: schedule.transaction_type,
+        recurrence: describeRecurrence(
+          schedule.frequency,
+          schedule.interval_count,
+          schedule.day_of_month
+        ),
+        nextRunDate: schedule.next_run_date,
+        paused: schedule.status === 'paused',
+      }))
+    ),
+    reply_markup: buildRecurringKeyboard(schedules),
+  };
+}
+
+/**
+ * Register /recurring command handler
+ * Lists recurring transactions with buttons to pause, resume or delete each one
+ */
+export function registerRecurringCommand(bot: Bot, mastra: Mastra): void {
+  const logger = mastra.getLogger();
+
+  bot.command('recurring', async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) {
+      await ctx.reply(messages.errors.noUser());
+      return;
+    }
+
+    logger.info('command:recurring', { userId });
+
+    try {
+      const schedules = await getRecurringTransactions(userId);
+      const { text, reply_markup } = buildRecurringReply(schedules);
+      await ctx.reply(text, { parse_mode: 'Markdown', reply_markup });
+    } catch (error) {
+      logger.error('command:recurring:error', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await ctx.reply(messages.recurring.failed());
+    }
+  });
+}
@@ -0,0 +1,45 @@
+import type { Bot } from 'grammy';
+import type { Mastra } from '@mastra/core/mastra';
+import { messages } from '../../lib/messages';
+import { getReviewBeforeSave, updateReviewBeforeSave } from '../../services/user.service';
+
+/**
+ * Register /review command handler
+ * Show (/review) or toggle (/review on, /review off) the confirm-before-save preview
+ */
+export function registerReviewCommand(bot: Bot, mastra: Mastra): void {
+  const logger = mastra.getLogger();
+
+  bot.command('review', async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) {
+      await ctx.reply(messages.errors.noUser());
+      return;
+    }
+
+    const arg = ctx.message?.text?.split(/\s+/)[1]?.toLowerCase();
+
+    logger.info('command:review', { userId, arg });
+
+    if (!arg) {
+      const enabled = await getReviewBeforeSave(userId);
+      await ctx.reply(messages.review.status(enabled), { parse_mode: 'Markdown' });
+      return;
+    }
+
+    if (arg !== 'on' && arg !== 'off') {
+      await ctx.reply(messages.review.invalidUsage(), { parse_mode: 'Markdown' });
+      return;
+    }
+
+    const enabled = arg === 'on';
+    const success = await updateReviewBeforeSave(userId, enabled);
+    if (!success) {
+      await ctx.reply(messages.review.failed());
+      return;
+    }
+
+    logger.info('command:review:updated', { userId, enabled });
+    await ctx.reply(messages.review.updated(enabled), { parse_mode: 'Markdown' });
+  });
+}
@@ -0,0 +1,50 @@
+import type { Bot } from 'grammy';
+import type { Mastra } from '@mastra/core/mastra';
+import { messages } from '../../lib/messages';
+import { buildRulesKeyboard } from '../../lib/transaction-format';
+import { getMerchantRules, type MerchantRule } from '../../services/merchant-rule.service';
+
+/**
+ * Build the /rules list text and its Delete buttons
+ * Shared with the rules callbacks, which re-render the list after each delete
+ */
+export function buildRulesReply(rules: MerchantRule[]) {
+  if (rules.length === 0) {
+    return { text: messages.rules.empty(), reply_markup: undefined };
+  }
+
+  return {
+    text: messages.rules.list(rules),
+    reply_markup: buildRulesKeyboard(rules),
+  };
+}
+
+/**
+ * Register /rules command handler
+ * Lists the merchant → category rules learned from category edits, with a Delete button each
+ */
+export function registerRulesCommand(bot: Bot, mastra: Mastra): void {
+  const logger = mastra.getLogger();
+
+  bot.command('rules', async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) {
+      await ctx.reply(messages.errors.noUser());
+      return;
+    }
+
+    logger.info('command:rules', { userId });
+
+    try {
+      const rules = await getMerchantRules(userId);
+      const { text, reply_markup } = buildRulesReply(rules);
+      await ctx.reply(text, { parse_mode: 'Markdown', reply_markup });
+    } catch (error) {
+      logger.error('command:rules:error', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await ctx.reply(messages.rules.failed());
+    }
+  });
+}
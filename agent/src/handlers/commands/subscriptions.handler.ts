@@ -0,0 +1,41 @@
+import type { Bot } from 'grammy';
+import type { Mastra } from '@mastra/core/mastra';
+import { messages } from '../../lib/messages';
+import { findUserSubscriptions } from '../../services/subscription-detection.service';
+
+/**
+ * Register /subscriptions command handler
+ * Lists subscriptions detected from transaction history (not HilmAI billing - see /billing)
+ */
+export function registerSubscriptionsCommand(bot: Bot, mastra: Mastra): void {
+  const logger = mastra.getLogger();
+
+  bot.command('subscriptions', async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) {
+      await ctx.reply(messages.errors.noUser());
+      return;
+    }
+
+    logger.info('command:subscriptions', { userId });
+
+    try {
+      const subscriptions = await findUserSubscriptions(userId);
+
+      logger.info('command:subscriptions:detected', { userId, count: subscriptions.length });
+
+      await ctx.reply(
+        subscriptions.length === 0
+          ? messages.detectedSubscriptions.none()
+          : messages.detectedSubscriptions.list(subscriptions),
+        { parse_mode: 'Markdown' }
+      );
+    } catch (error) {
+      logger.error('command:subscriptions:error', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await ctx.reply(messages.detectedSubscriptions.failed());
+    }
+  });
+}
@@ -13,18 +13,34 @@ import { registerSubscribeCommand } from './commands/subscribe.handler';
 import { registerBillingCommand } from './commands/billing.handler';
 import { registerEditCommand } from './commands/edit.handler';
 import { registerClearCommand } from './commands/clear.handler';
+import { registerBudgetCommand } from './commands/budget.handler';
+import { registerReviewCommand } from './commands/review.handler';
+import { registerRecurringCommand } from './commands/recurring.handler';
+import { registerSubscriptionsCommand } from './commands/subscriptions.handler';
+import { registerChartCommand } from './commands/chart.handler';
+import { registerDigestCommand } from './commands/digest.handler';
+import { registerRulesCommand } from './commands/rules.handler';
 
 // Callback handlers
 import { registerModeCallbacks } from './callbacks/mode.callback';
 import { registerTransactionCallbacks } from './callbacks/transaction.callback';
 import { registerSubscriptionCallbacks } from './callbacks/subscription.callback';
 import { registerProfileSetupCallbacks } from './callbacks/profile-setup.callback';
+import { registerDraftCallbacks } from './callbacks/draft.callback';
+import { registerRecurringCallbacks } from './callbacks/recurring.callback';
+import { registerSpendingAlertCallbacks } from './callbacks/spending-alert.callback';
+import { registerRecentCallbacks } from './callbacks/recent.callback';
+import { registerShowTransactionsCallbacks } from './callbacks/show-transactions.callback';
+import { registerRulesCallbacks } from './callbacks/rules.callback';
+
+// Inline query handler
+import { registerInlineQueryHandler } from './inline/inline-query.handler';
 
 // Message handler
 import { registerMessageHandler } from './messages/message.handler';
 
 /**
- * Register all bot handlers (commands, callbacks, messages)
+ * Register all bot handlers (commands, callbacks, inline queries, messages)
  * This is the central point for handler registration
  */
 export function registerAllHandlers(bot: Bot, mastra: Mastra): void {
@@ -36,20 +52,36 @@ export function registerAllHandlers(bot: Bot, mastra: Mastra): void {
   registerStartCommand(bot, mastra);
   registerHelpCommand(bot, mastra);
   registerPrivacyCommand(bot, mastra);
-  registerModeCommands(bot, mastra); // /mode, /mode_logger, /mode_chat, /mode_query
+  registerModeCommands(bot, mastra); // /mode, /mode_auto, /mode_logger, /mode_chat, /mode_query
   registerCurrencyCommand(bot, mastra);
   registerTimezoneCommand(bot, mastra);
-  registerRecentCommand(bot, mastra);
+  registerRecentCommand(bot, mastra); // /recent [search] [30d] [>100]
   registerSubscribeCommand(bot, mastra);
   registerBillingCommand(bot, mastra);
   registerEditCommand(bot, mastra); // /edit <transaction_id> <changes>
   registerClearCommand(bot, mastra);
+  registerBudgetCommand(bot, mastra); // /budget [category amount]
+  registerReviewCommand(bot, mastra); // /review [on|off]
+  registerRecurringCommand(bot, mastra); // /recurring
+  registerSubscriptionsCommand(bot, mastra); // /subscriptions (detected from history)
+  registerChartCommand(bot, mastra); // /chart [category|monthly|daily]
+  registerDigestCommand(bot, mastra); // /digest [weekly|monthly|both|off|at <hour>]
+  registerRulesCommand(bot, mastra); // /rules (merchant categories learned from edits)
 
   // Register callback query handlers
   registerModeCallbacks(bot, mastra);
   registerTransactionCallbacks(bot, mastra);
   registerSubscriptionCallbacks(bot, mastra);
   registerProfileSetupCallbacks(bot, mastra);
+  registerDraftCallbacks(bot, mastra); // Confirm-before-save drafts
+  registerRecurringCallbacks(bot, mastra); // Pause/resume/delete schedules
+  registerSpendingAlertCallbacks(bot, mastra); // Fewer/mute/unmute unusual spending alerts
+  registerRecentCallbacks(bot, mastra); // /recent Prev/Next paging
+  registerShowTransactionsCallbacks(bot, mastra); // Transactions behind a query answer
+  registerRulesCallbacks(bot, mastra); // Delete merchant category rules
+
+  // Register inline query handler (@hilmaibot <search>)
+  registerInlineQueryHandler(bot, mastra);
 
   // Register main message handler (must be last to avoid capturing commands)
   registerMessageHandler(bot, mastra);
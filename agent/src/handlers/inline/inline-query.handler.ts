@@ -0,0 +1,158 @@
+import type { Bot } from 'grammy';
+import type { InlineQueryResultArticle } from 'grammy/types';
+import type { Mastra } from '@mastra/core/mastra';
+import {
+  searchTransactionsHybrid,
+  searchTransactionsSQL,
+  type TransactionResult,
+} from '../../lib/embeddings';
+import { parseDateRange, type ParsedDateRange } from '../../lib/date-range-parser';
+import { formatCurrency } from '../../lib/currency';
+import { getTransactionEmoji } from '../../lib/transaction-format';
+import { messages } from '../../lib/messages';
+import { hasActiveAccess, getUserTimezone } from '../../services/user.service';
+
+const MAX_RESULTS = 20;
+const MAX_TOTALED = 200; // Matches summed into the Total result, beyond the ones listed
+const CACHE_SECONDS = 10; // Results are personal and change as the user logs
+
+/**
+ * Split an inline query into search text and a trailing date phrase
+ * e.g. "starbucks october" -> search "starbucks", range October
+ * The longest trailing phrase that parses wins, so "coffee last month" keeps "last month" whole.
+ */
+export function splitInlineQuery(
+  query: string,
+  options: { timezone?: string; now?: Date } = {}
+): { search: string; range: ParsedDateRange | null } {
+  const words = query.trim().split(/\s+/).filter(Boolean);
+
+  for (let start = 0; start < words.length; start++) {
+    const phrase = words.slice(start).join(' ');
+    // A bare number is more likely part of the search than "the 5th"
+    const range = /^\d{1,2}$/.test(phrase) ? null : parseDateRange(phrase, options);
+    if (range) {
+      return { search: words.slice(0, start).join(' '), range };
+    }
+  }
+
+  return { search: words.join(' '), range: null };
+}
+
+function toArticle(tx: TransactionResult): InlineQueryResultArticle {
+  const details = {
+    emoji: getTransactionEmoji(tx),
+    merchant: tx.merchant,
+    amount: formatCurrency(tx.amount, tx.currency),
+    sign: tx.transaction_type === 'expense' ? '' : '+',
+    category: tx.category,
+    date: tx.transaction_date,
+    description: tx.description,
+  };
+
+  return {
+    type: 'article',
+    id: tx.id,
+    title: messages.inline.transactionTitle(details),
+    description: messages.inline.transactionDescription(details),
+    input_message_content: { message_text: messages.inline.transactionMessage(details) },
+  };
+}
+
+/**
+ * Total of the matching expenses per currency, offered first so it can be shared
+ * (e.g. into a group splitting a trip)
+ */
+function toTotalArticle(
+  transactions: TransactionResult[],
+  label: string
+): InlineQueryResultArticle | null {
+  const expenses = transactions.filter((tx) => tx.transaction_type === 'expense');
+  if (expenses.length < 2) {
+    return null;
+  }
+
+  const byCurrency = new Map<string, number>();
+  for (const tx of expenses) {
+    byCurrency.set(tx.currency, (byCurrency.get(tx.currency) ?? 0) + tx.amount);
+  }
+  const totals = [...byCurrency].map(([currency, total]) => formatCurrency(total, currency));
+
+  return {
+    type: 'article',
+    id: 'total',
+    title: messages.inline.totalTitle(totals),
+    description: messages.inline.totalDescription(expenses.length, label),
+    input_message_content: {
+      message_text: messages.inline.totalMessage(totals, expenses.length, label),
+    },
+  };
+}
+
+/**
+ * Register inline query handler (@hilmaibot <search> [date phrase])
+ * Searches the user's transactions so a transaction or total can be shared into any chat.
+ * Requires inline mode to be enabled for the bot in BotFather (/setinline).
+ */
+export function registerInlineQueryHandler(bot: Bot, mastra: Mastra): void {
+  const logger = mastra.getLogger();
+
+  bot.on('inline_query', async (ctx) => {
+    const userId = ctx.from.id;
+    const query = ctx.inlineQuery.query;
+
+    // Same gate as regular messages (paid subscribers and trial users)
+    const hasAccess = await hasActiveAccess(userId);
+    if (!hasAccess) {
+      logger.info('inline:access_denied', { userId, event: 'access_denied' });
+      await ctx
+        .answerInlineQuery([], {
+          cache_time: 0,
+          is_personal: true,
+          button: { text: messages.inline.subscribeButton(), start_parameter: 'subscribe' },
+        })
+        .catch(() => undefined);
+      return;
+    }
+
+    try {
+      const timezone = await getUserTimezone(userId);
+      const { search, range } = splitInlineQuery(query, { timezone });
+      const filters = {
+        userId,
+        dateFrom: range?.dateFrom,
+        dateTo: range?.dateTo,
+        limit: MAX_TOTALED,
+      };
+
+      // Fuzzy search needs an embedding, so only pay for it when there is text to match
+      const transactions = search
+        ? await searchTransactionsHybrid({ ...filters, query: search })
+        : await searchTransactionsSQL(filters);
+
+      const label = [search, range?.label].filter(Boolean).join(' · ');
+      const total = toTotalArticle(transactions, label);
+      const results = [...(total ? [total] : []), ...transactions.map(toArticle)];
+
+      await ctx.answerInlineQuery(results.slice(0, MAX_RESULTS), {
+        cache_time: CACHE_SECONDS,
+        is_personal: true,
+      });
+
+      logger.info('inline:completed', {
+        userId,
+        search,
+        dateFrom: range?.dateFrom,
+        dateTo: range?.dateTo,
+        count: transactions.length,
+      });
+    } catch (error) {
+      logger.error('inline:error', {
+        userId,
+        query,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await ctx.answerInlineQuery([], { cache_time: 0, is_personal: true }).catch(() => undefined);
+    }
+  });
+}
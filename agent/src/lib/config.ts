@@ -6,6 +6,26 @@
 
 import { LangfuseExporter } from '@mastra/langfuse';
 
+/** Exchange rate sources (see exchange-rate-providers.ts) */
+export const EXCHANGE_RATE_PROVIDERS = ['api', 'static', 'memory'] as const;
+
+export type ExchangeRateProviderName = (typeof EXCHANGE_RATE_PROVIDERS)[number];
+
+/**
+ * Check EXCHANGE_RATE_PROVIDER when config loads
+ * A typo must stop startup: the provider is built lazily and save tools swallow conversion
+ * errors, so it would otherwise leave foreign amounts unconverted.
+ */
+function parseExchangeRateProvider(value: string): ExchangeRateProviderName {
+  const provider = EXCHANGE_RATE_PROVIDERS.find((name) => name === value);
+  if (!provider) {
+    throw new Error(
+      `Invalid EXCHANGE_RATE_PROVIDER "${value}". Use one of: ${EXCHANGE_RATE_PROVIDERS.join(', ')}`
+    );
+  }
+  return provider;
+}
+
 export const config = {
   // Telegram
   telegram: {
@@ -44,6 +64,13 @@ export const config = {
     mastraPort: parseInt(process.env.MASTRA_PORT || '4111', 10),
   },
 
+  // Exchange rates (api | static | memory)
+  exchangeRates: {
+    provider: parseExchangeRateProvider(process.env.EXCHANGE_RATE_PROVIDER || 'api'),
+    apiUrl: process.env.EXCHANGE_RATE_API_URL,
+    ratesFile: process.env.EXCHANGE_RATES_FILE,
+  },
+
   // Optional Telemetry
   telemetry: {
     serviceName: process.env.OTEL_SERVICE_NAME || 'hilm-agent-v2',
@@ -2,16 +2,23 @@
  * Currency Conversion Utilities for HilmAI Agent V2
  *
  * Provides functions for:
- * - Fetching real-time exchange rates
- * - Converting amounts between currencies
+ * - Converting amounts between currencies at the rate of a given date
  * - Normalizing currency codes and names
- * - Caching exchange rates for performance
+ * - Reading and updating the user's default currency
  *
- * Uses exchangerate-api.io free tier (1,500 requests/month)
- * Falls back to static rates if API unavailable
+ * Rates come from the ExchangeRateProvider selected in config (see
+ * exchange-rate-providers.ts): the live API with stored daily snapshots by default,
+ * or static/in-memory rates for offline development and tests.
  */
 
 import { supabaseService } from './supabase';
+import { config } from './config';
+import {
+  createExchangeRateProvider,
+  getUtcDate,
+  type ExchangeRateProvider,
+  type RateSource,
+} from './exchange-rate-providers';
 
 /**
  * Common currency code normalizations
@@ -137,84 +144,24 @@ const VALID_CURRENCIES = new Set([
   'RUB',
 ]);
 
-/**
- * Fallback exchange rates (relative to USD)
- * Used when API is unavailable
- * Updated: November 2024
- */
-const FALLBACK_RATES: Record<string, number> = {
-  // Major global currencies
-  USD: 1.0,
-  EUR: 0.93, // Euro
-  GBP: 0.79, // British Pound
-  JPY: 149.5, // Japanese Yen
-  CNY: 7.24, // Chinese Yuan
-  CAD: 1.39, // Canadian Dollar
-  AUD: 1.54, // Australian Dollar
-  CHF: 0.88, // Swiss Franc
-  SEK: 10.85, // Swedish Krona
-  NOK: 11.05, // Norwegian Krone
-  DKK: 6.93, // Danish Krone
-  PLN: 4.05, // Polish Zloty
-  CZK: 23.5, // Czech Koruna
-  HUF: 365, // Hungarian Forint
-  RON: 4.62, // Romanian Leu
-  TRY: 34.2, // Turkish Lira
-  RUB: 95.5, // Russian Ruble
+export type { RateSource } from './exchange-rate-providers';
 
-  // MENA region currencies
-  AED: 3.6725, // UAE Dirham
-  SAR: 3.75, // Saudi Riyal
-  KWT: 0.31, // Kuwaiti Dinar
-  BHD: 0.377, // Bahraini Dinar
-  OMR: 0.385, // Omani Rial
-  QAR: 3.64, // Qatari Riyal
-  EGP: 49.2, // Egyptian Pound
-  JOD: 0.71, // Jordanian Dinar
-  LBP: 89500, // Lebanese Pound
-  MAD: 10.1, // Moroccan Dirham
-  TND: 3.15, // Tunisian Dinar
-  DZD: 135, // Algerian Dinar
-  LYD: 4.85, // Libyan Dinar
-  IQD: 1310, // Iraqi Dinar
-  SYP: 13000, // Syrian Pound
-
-  // Asia-Pacific
-  VND: 24500, // Vietnamese Dong
-  THB: 35.5, // Thai Baht
-  PHP: 56.5, // Philippine Peso
-  IDR: 15750, // Indonesian Rupiah
-  MYR: 4.48, // Malaysian Ringgit
-  SGD: 1.35, // Singapore Dollar
-  HKD: 7.82, // Hong Kong Dollar
-  KRW: 1320, // South Korean Won
-  INR: 83.2, // Indian Rupee
-  PKR: 278, // Pakistani Rupee
-  BDT: 110, // Bangladeshi Taka
-
-  // Americas
-  MXN: 17.2, // Mexican Peso
-  BRL: 4.98, // Brazilian Real
-
-  // Africa
-  ZAR: 18.5, // South African Rand
-
-  // Oceania
-  NZD: 1.68, // New Zealand Dollar
-};
+let provider: ExchangeRateProvider | null = null;
 
 /**
- * In-memory cache for exchange rates
- * TTL: 24 hours
+ * Provider used for all conversions (created from config on first use)
  */
-interface ExchangeRateCache {
-  rates: Record<string, number>;
-  timestamp: number;
-  baseCurrency: string;
+export function getExchangeRateProvider(): ExchangeRateProvider {
+  provider ??= createExchangeRateProvider(config.exchangeRates);
+  return provider;
 }
 
-let rateCache: ExchangeRateCache | null = null;
-const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+/**
+ * Replace the exchange rate provider (e.g. an InMemoryExchangeRateProvider in tests)
+ */
+export function setExchangeRateProvider(next: ExchangeRateProvider): void {
+  provider = next;
+}
 
 /**
  * Normalize currency code to ISO 4217 standard
@@ -256,73 +203,17 @@ export function isValidCurrency(currency: string): boolean {
 }
 
 /**
- * Fetch exchange rates from API or fallback
- *
- * Uses exchangerate-api.io free tier (no API key required for basic usage)
- * Falls back to static rates if API fails
- *
- * @param baseCurrency - Base currency for rates (default: 'USD')
- * @returns Exchange rates relative to base currency
- */
-async function fetchExchangeRates(baseCurrency = 'USD'): Promise<Record<string, number>> {
-  // Check cache first
-  if (
-    rateCache &&
-    rateCache.baseCurrency === baseCurrency &&
-    Date.now() - rateCache.timestamp < CACHE_TTL
-  ) {
-    console.log('[currency] Using cached exchange rates');
-    return rateCache.rates;
-  }
-
-  try {
-    // Try exchangerate-api.io (free tier, no key needed)
-    const apiUrl = `https://open.exchangerate-api.com/v6/latest/${baseCurrency}`;
-    const response = await fetch(apiUrl, {
-      headers: {
-        Accept: 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`API returned ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    if (data && data.rates) {
-      console.log('[currency] Fetched exchange rates from API');
-
-      // Cache the rates
-      rateCache = {
-        rates: data.rates,
-        timestamp: Date.now(),
-        baseCurrency,
-      };
-
-      return data.rates;
-    }
-
-    throw new Error('Invalid API response format');
-  } catch (error) {
-    console.warn('[currency] API fetch failed, using fallback rates:', error);
-
-    // Use fallback rates
-    return FALLBACK_RATES;
-  }
-}
-
-/**
- * Get exchange rate between two currencies
+ * Get exchange rate between two currencies, with where it came from
  *
  * @param fromCurrency - Source currency code
  * @param toCurrency - Target currency code
- * @returns Exchange rate (multiply amount by this to convert)
- *
- * @example
- * await getExchangeRate('VND', 'AED') // 0.00015 (1 VND = 0.00015 AED)
+ * @param date - Date the rate should apply to (YYYY-MM-DD, default today)
  */
-export async function getExchangeRate(fromCurrency: string, toCurrency: string): Promise<number> {
+async function getExchangeRateQuote(
+  fromCurrency: string,
+  toCurrency: string,
+  date?: string
+): Promise<{ rate: number; source: RateSource; rateDate: string }> {
   // Normalize currencies
   const from = normalizeCurrency(fromCurrency);
   const to = normalizeCurrency(toCurrency);
@@ -333,11 +224,11 @@ export async function getExchangeRate(fromCurrency: string, toCurrency: string):
 
   // Same currency = 1:1
   if (from === to) {
-    return 1.0;
+    return { rate: 1.0, source: 'cached', rateDate: date ?? getUtcDate() };
   }
 
   // Fetch rates (USD-based)
-  const rates = await fetchExchangeRates('USD');
+  const { rates, source, rateDate } = await getExchangeRateProvider().getRates(date);
 
   // Convert: FROM -> USD -> TO
   // Rate = (1 / FROM_to_USD) * TO_to_USD
@@ -351,9 +242,27 @@ export async function getExchangeRate(fromCurrency: string, toCurrency: string):
   // Calculate cross rate
   const exchangeRate = toRate / fromRate;
 
-  console.log(`[currency] Exchange rate: 1 ${from} = ${exchangeRate.toFixed(6)} ${to}`);
+  return { rate: exchangeRate, source, rateDate };
+}
 
-  return exchangeRate;
+/**
+ * Get exchange rate between two currencies
+ *
+ * @param fromCurrency - Source currency code
+ * @param toCurrency - Target currency code
+ * @param date - Date the rate should apply to (YYYY-MM-DD, default today)
+ * @returns Exchange rate (multiply amount by this to convert)
+ *
+ * @example
+ * await getExchangeRate('VND', 'AED') // 0.00015 (1 VND = 0.00015 AED)
+ */
+export async function getExchangeRate(
+  fromCurrency: string,
+  toCurrency: string,
+  date?: string
+): Promise<number> {
+  const { rate } = await getExchangeRateQuote(fromCurrency, toCurrency, date);
+  return rate;
 }
 
 /**
@@ -362,37 +271,46 @@ export async function getExchangeRate(fromCurrency: string, toCurrency: string):
  * @param amount - Amount to convert
  * @param fromCurrency - Source currency code
  * @param toCurrency - Target currency code
- * @returns Converted amount and exchange rate used
+ * @param date - Transaction date (YYYY-MM-DD); past dates use that day's stored rates
+ * @returns Converted amount, exchange rate used, and the rate's source and date
  *
  * @example
- * await convertCurrency(125, 'VND', 'AED')
- * // { convertedAmount: 0.02, rate: 0.00015 }
+ * await convertCurrency(125, 'VND', 'AED', '2025-11-08')
+ * // { convertedAmount: 0.02, rate: 0.00015, source: 'cached', rateDate: '2025-11-08' }
  */
 export async function convertCurrency(
   amount: number,
   fromCurrency: string,
-  toCurrency: string
-): Promise<{ convertedAmount: number; rate: number }> {
+  toCurrency: string,
+  date?: string
+): Promise<{ convertedAmount: number; rate: number; source: RateSource; rateDate: string }> {
   if (amount < 0) {
     throw new Error('Amount cannot be negative');
   }
 
-  const rate = await getExchangeRate(fromCurrency, toCurrency);
+  const { rate, source, rateDate } = await getExchangeRateQuote(fromCurrency, toCurrency, date);
   const convertedAmount = amount * rate;
 
   // Round to 2 decimal places
   const roundedAmount = Math.round(convertedAmount * 100) / 100;
 
-  console.log(
-    `[currency] Converted ${amount} ${fromCurrency} to ${roundedAmount} ${toCurrency} (rate: ${rate.toFixed(6)})`
-  );
-
   return {
     convertedAmount: roundedAmount,
     rate,
+    source,
+    rateDate,
   };
 }
 
+/**
+ * Make sure today's rates are fetched and stored (scheduler job)
+ * Gives every day a snapshot even when nobody converts anything.
+ */
+export async function recordDailyExchangeRates(): Promise<RateSource> {
+  const { source } = await getExchangeRateProvider().getRates();
+  return source;
+}
+
 /**
  * Get user's default currency from database
  *
@@ -472,6 +390,5 @@ export function formatCurrency(amount: number, currency: string): string {
  * Useful for testing or forcing fresh rates
  */
 export function clearRateCache(): void {
-  rateCache = null;
-  console.log('[currency] Exchange rate cache cleared');
+  provider?.clearCache();
 }
@@ -14,11 +14,14 @@ export type Database = {
           category: string;
           description: string | null;
           transaction_date: string;
+          transaction_type: 'expense' | 'income' | 'refund';
           original_amount: number | null;
           original_currency: string | null;
           converted_amount: number | null;
           conversion_rate: number | null;
           converted_at: string | null;
+          conversion_rate_source: 'api' | 'cached' | 'fallback' | null;
+          conversion_rate_date: string | null;
           merchant_embedding: number[] | null;
           description_embedding: number[] | null;
           created_at: string;
@@ -34,11 +37,14 @@ export type Database = {
           category: string;
           description?: string | null;
           transaction_date: string;
+          transaction_type?: 'expense' | 'income' | 'refund';
           original_amount?: number | null;
           original_currency?: string | null;
           converted_amount?: number | null;
           conversion_rate?: number | null;
           converted_at?: string | null;
+          conversion_rate_source?: 'api' | 'cached' | 'fallback' | null;
+          conversion_rate_date?: string | null;
           merchant_embedding?: number[] | null;
           description_embedding?: number[] | null;
           created_at?: string;
@@ -54,11 +60,14 @@ export type Database = {
           category?: string;
           description?: string | null;
           transaction_date?: string;
+          transaction_type?: 'expense' | 'income' | 'refund';
           original_amount?: number | null;
           original_currency?: string | null;
           converted_amount?: number | null;
           conversion_rate?: number | null;
           converted_at?: string | null;
+          conversion_rate_source?: 'api' | 'cached' | 'fallback' | null;
+          conversion_rate_date?: string | null;
           merchant_embedding?: number[] | null;
           description_embedding?: number[] | null;
           created_at?: string;
@@ -139,8 +148,15 @@ export type Database = {
           last_name: string | null;
           email: string | null;
           default_currency: string;
-          current_mode: 'logger' | 'chat' | 'query';
+          current_mode: 'logger' | 'chat' | 'query' | 'auto';
           timezone: string | null;
+          review_before_save: boolean;
+          digest_frequency: 'off' | 'weekly' | 'monthly' | 'both';
+          digest_hour: number;
+          last_weekly_digest_on: string | null;
+          last_monthly_digest_on: string | null;
+          spending_alerts_enabled: boolean;
+          spending_alert_threshold: number;
           metadata: Json | null;
           stripe_customer_id: string | null;
           stripe_subscription_id: string | null;
@@ -170,8 +186,15 @@ export type Database = {
           last_name?: string | null;
           email?: string | null;
           default_currency?: string;
-          current_mode?: 'logger' | 'chat' | 'query';
+          current_mode?: 'logger' | 'chat' | 'query' | 'auto';
           timezone?: string | null;
+          review_before_save?: boolean;
+          digest_frequency?: 'off' | 'weekly' | 'monthly' | 'both';
+          digest_hour?: number;
+          last_weekly_digest_on?: string | null;
+          last_monthly_digest_on?: string | null;
+          spending_alerts_enabled?: boolean;
+          spending_alert_threshold?: number;
           metadata?: Json | null;
           stripe_customer_id?: string | null;
           stripe_subscription_id?: string | null;
@@ -201,8 +224,15 @@ export type Database = {
           last_name?: string | null;
           email?: string | null;
           default_currency?: string;
-          current_mode?: 'logger' | 'chat' | 'query';
+          current_mode?: 'logger' | 'chat' | 'query' | 'auto';
           timezone?: string | null;
+          review_before_save?: boolean;
+          digest_frequency?: 'off' | 'weekly' | 'monthly' | 'both';
+          digest_hour?: number;
+          last_weekly_digest_on?: string | null;
+          last_monthly_digest_on?: string | null;
+          spending_alerts_enabled?: boolean;
+          spending_alert_threshold?: number;
           metadata?: Json | null;
           stripe_customer_id?: string | null;
           stripe_subscription_id?: string | null;
@@ -295,6 +325,431 @@ export type Database = {
         };
         Relationships: [];
       };
+      budgets: {
+        Row: {
+          id: string; // UUID
+          user_id: number;
+          category: string;
+          amount: number;
+          currency: string;
+          last_alert_threshold: number | null; // 50, 80, or 100
+          last_alert_period: string | null; // First day of alerted month (YYYY-MM-DD)
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string; // UUID, auto-generated
+          user_id: number;
+          category: string;
+          amount: number;
+          currency?: string;
+          last_alert_threshold?: number | null;
+          last_alert_period?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: number;
+          category?: string;
+          amount?: number;
+          currency?: string;
+          last_alert_threshold?: number | null;
+          last_alert_period?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'budgets_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      transaction_items: {
+        Row: {
+          id: string; // UUID
+          transaction_id: string; // UUID of the parent transaction
+          user_id: number;
+          name: string;
+          quantity: number;
+          unit_price: number | null;
+          total_price: number; // Line total after item discount
+          discount: number;
+          tax: number;
+          currency: string; // Currency printed on the receipt
+          created_at: string;
+        };
+        Insert: {
+          id?: string; // UUID, auto-generated
+          transaction_id: string;
+          user_id: number;
+          name: string;
+          quantity?: number;
+          unit_price?: number | null;
+          total_price: number;
+          discount?: number;
+          tax?: number;
+          currency: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          transaction_id?: string;
+          user_id?: number;
+          name?: string;
+          quantity?: number;
+          unit_price?: number | null;
+          total_price?: number;
+          discount?: number;
+          tax?: number;
+          currency?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'transaction_items_transaction_id_fkey';
+            columns: ['transaction_id'];
+            referencedRelation: 'transactions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'transaction_items_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      transaction_drafts: {
+        Row: {
+          id: string; // UUID
+          user_id: number;
+          transactions: Json; // Array of save-transaction inputs awaiting confirmation
+          status: 'pending' | 'confirmed' | 'cancelled';
+          expires_at: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string; // UUID, auto-generated
+          user_id: number;
+          transactions: Json;
+          status?: 'pending' | 'confirmed' | 'cancelled';
+          expires_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: number;
+          transactions?: Json;
+          status?: 'pending' | 'confirmed' | 'cancelled';
+          expires_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'transaction_drafts_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      recurring_transactions: {
+        Row: {
+          id: string; // UUID
+          user_id: number;
+          amount: number;
+          currency: string;
+          merchant: string;
+          category: string;
+          transaction_type: 'expense' | 'income' | 'refund';
+          description: string | null;
+          frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
+          interval_count: number;
+          day_of_month: number | null; // Monthly/yearly anchor day (1-31)
+          next_run_date: string; // YYYY-MM-DD in the user's timezone
+          end_date: string | null;
+          last_run_date: string | null;
+          status: 'active' | 'paused';
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string; // UUID, auto-generated
+          user_id: number;
+          amount: number;
+          currency: string;
+          merchant: string;
+          category: string;
+          transaction_type?: 'expense' | 'income' | 'refund';
+          description?: string | null;
+          frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
+          interval_count?: number;
+          day_of_month?: number | null;
+          next_run_date: string;
+          end_date?: string | null;
+          last_run_date?: string | null;
+          status?: 'active' | 'paused';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: number;
+          amount?: number;
+          currency?: string;
+          merchant?: string;
+          category?: string;
+          transaction_type?: 'expense' | 'income' | 'refund';
+          description?: string | null;
+          frequency?: 'daily' | 'weekly' | 'monthly' | 'yearly';
+          interval_count?: number;
+          day_of_month?: number | null;
+          next_run_date?: string;
+          end_date?: string | null;
+          last_run_date?: string | null;
+          status?: 'active' | 'paused';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'recurring_transactions_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      exchange_rates: {
+        Row: {
+          rate_date: string; // DATE
+          base_currency: string;
+          rates: Json; // { [currency]: rate } relative to base_currency
+          source: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          rate_date: string;
+          base_currency?: string;
+          rates: Json;
+          source?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          rate_date?: string;
+          base_currency?: string;
+          rates?: Json;
+          source?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      currency_migrations: {
+        Row: {
+          id: string; // UUID
+          user_id: number;
+          from_currency: string;
+          to_currency: string;
+          status: 'running' | 'completed' | 'failed' | 'superseded';
+          total_count: number;
+          processed_count: number;
+          failed_count: number;
+          error: string | null;
+          completed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: number;
+          from_currency: string;
+          to_currency: string;
+          status?: 'running' | 'completed' | 'failed' | 'superseded';
+          total_count?: number;
+          processed_count?: number;
+          failed_count?: number;
+          error?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: number;
+          from_currency?: string;
+          to_currency?: string;
+          status?: 'running' | 'completed' | 'failed' | 'superseded';
+          total_count?: number;
+          processed_count?: number;
+          failed_count?: number;
+          error?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'currency_migrations_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      transaction_currency_audit: {
+        Row: {
+          id: number;
+          migration_id: string; // UUID
+          transaction_id: string; // UUID
+          user_id: number;
+          old_amount: number;
+          old_currency: string;
+          old_converted_amount: number | null;
+          old_conversion_rate: number | null;
+          new_amount: number;
+          new_currency: string;
+          new_conversion_rate: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          migration_id: string;
+          transaction_id: string;
+          user_id: number;
+          old_amount: number;
+          old_currency: string;
+          old_converted_amount?: number | null;
+          old_conversion_rate?: number | null;
+          new_amount: number;
+          new_currency: string;
+          new_conversion_rate?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          migration_id?: string;
+          transaction_id?: string;
+          user_id?: number;
+          old_amount?: number;
+          old_currency?: string;
+          old_converted_amount?: number | null;
+          old_conversion_rate?: number | null;
+          new_amount?: number;
+          new_currency?: string;
+          new_conversion_rate?: number | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'transaction_currency_audit_migration_id_fkey';
+            columns: ['migration_id'];
+            referencedRelation: 'currency_migrations';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'transaction_currency_audit_transaction_id_fkey';
+            columns: ['transaction_id'];
+            referencedRelation: 'transactions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'transaction_currency_audit_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      transaction_clarifications: {
+        Row: {
+          id: string; // UUID
+          user_id: number;
+          source_text: string; // Message that was missing details
+          known_fields: Json; // Details already extracted (merchant, date, category, ...)
+          missing_fields: string[]; // 'amount' and/or 'merchant'
+          status: 'pending' | 'answered' | 'cancelled';
+          expires_at: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string; // UUID, auto-generated
+          user_id: number;
+          source_text: string;
+          known_fields?: Json;
+          missing_fields: string[];
+          status?: 'pending' | 'answered' | 'cancelled';
+          expires_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: number;
+          source_text?: string;
+          known_fields?: Json;
+          missing_fields?: string[];
+          status?: 'pending' | 'answered' | 'cancelled';
+          expires_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'transaction_clarifications_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      merchant_category_rules: {
+        Row: {
+          id: string; // UUID
+          user_id: number;
+          merchant_key: string; // Normalized merchant name used for matching
+          merchant: string; // Merchant as last written by the user
+          category: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string; // UUID, auto-generated
+          user_id: number;
+          merchant_key: string;
+          merchant: string;
+          category: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: number;
+          merchant_key?: string;
+          merchant?: string;
+          category?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'merchant_category_rules_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
     };
     Views: {
       [_ in never]: never;
@@ -387,6 +842,7 @@ export type Database = {
           p_min_amount?: number | null;
           p_max_amount?: number | null;
           p_limit?: number;
+          p_transaction_type?: 'expense' | 'income' | 'refund' | null;
         };
         Returns: {
           id: string; // UUID
@@ -397,6 +853,7 @@ export type Database = {
           category: string;
           description: string | null;
           transaction_date: string;
+          transaction_type: 'expense' | 'income' | 'refund';
           original_amount: number | null;
           original_currency: string | null;
           converted_amount: number | null;
@@ -405,6 +862,31 @@ export type Database = {
           similarity: number;
         }[];
       };
+      aggregate_transactions: {
+        Args: {
+          p_user_id: number;
+          p_group_by?: 'category' | 'merchant' | 'day' | 'week' | 'month' | null;
+          p_date_from?: string | null;
+          p_date_to?: string | null;
+          p_category?: string | null;
+          p_merchant?: string | null;
+          p_transaction_type?: 'expense' | 'income' | 'refund' | null;
+          p_min_amount?: number | null;
+          p_max_amount?: number | null;
+          p_limit?: number;
+        };
+        Returns: {
+          group_key: string | null;
+          currency: string;
+          total: number;
+          transaction_count: number;
+          average: number;
+          min_amount: number;
+          max_amount: number;
+          first_date: string;
+          last_date: string;
+        }[];
+      };
     };
     Enums: {
       [_ in never]: never;
@@ -0,0 +1,324 @@
+/**
+ * Date Range Parser Module
+ *
+ * Resolves natural-language date phrases to concrete YYYY-MM-DD ranges in the
+ * user's timezone, so agents don't do date math in the prompt.
+ * Supports: today/yesterday, this/last week|month|quarter|year, "past 10 days",
+ * month names ("October", "Oct 2024"), quarters ("Q3"), days ("the 5th", "March 5",
+ * "last Monday"), ISO dates, Ramadan, "since <phrase>" and "from <phrase> to <phrase>".
+ */
+
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  addDays,
+  endOfMonth,
+  endOfQuarter,
+  endOfYear,
+  format,
+  getDaysInMonth,
+  isValid,
+  parseISO,
+  setQuarter,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+  subDays,
+  subMonths,
+  subQuarters,
+  subYears,
+} from 'date-fns';
+
+export interface ParsedDateRange {
+  dateFrom: string; // YYYY-MM-DD
+  dateTo: string; // YYYY-MM-DD, never after today
+  label: string; // e.g. "1 Oct 2025 - 31 Oct 2025"
+}
+
+type Range = [Date, Date];
+
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * First and last day of Ramadan (Umm al-Qura calendar; 2027 on are projections)
+ * Local moon sighting can shift these by a day.
+ */
+const RAMADAN: Record<number, [string, string]> = {
+  2023: ['2023-03-23', '2023-04-20'],
+  2024: ['2024-03-11', '2024-04-09'],
+  2025: ['2025-03-01', '2025-03-29'],
+  2026: ['2026-02-18', '2026-03-19'],
+  2027: ['2027-02-08', '2027-03-09'],
+  2028: ['2028-01-28', '2028-02-26'],
+  2029: ['2029-01-16', '2029-02-14'],
+  2030: ['2030-01-06', '2030-02-04'],
+};
+
+const MONTH_PATTERN =
+  '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const ORDINAL_PATTERN = '(\\d{1,2})(?:st|nd|rd|th)?';
+
+function toMonthIndex(name: string): number {
+  return MONTHS.findIndex((month) => month.startsWith(name.slice(0, 3)));
+}
+
+function day(date: Date): Range {
+  return [date, date];
+}
+
+function month(year: number, monthIndex: number): Range {
+  const start = new Date(year, monthIndex, 1);
+  return [start, endOfMonth(start)];
+}
+
+/** Most recent occurrence of a month/quarter that has started: "October" in March means last October */
+function latestStarted(range: (year: number) => Range, today: Date, year?: string): Range {
+  if (year) {
+    return range(Number(year));
+  }
+  const current = range(today.getFullYear());
+  return current[0] > today ? range(today.getFullYear() - 1) : current;
+}
+
+/** A day of the month without a month: this month if it has passed, otherwise last month */
+function dayOfMonth(dayNumber: number, today: Date): Range | null {
+  if (dayNumber < 1 || dayNumber > 31) {
+    return null;
+  }
+  let monthStart = startOfMonth(today);
+  if (dayNumber > today.getDate()) {
+    monthStart = subMonths(monthStart, 1);
+  }
+  const date = new Date(
+    monthStart.getFullYear(),
+    monthStart.getMonth(),
+    Math.min(dayNumber, getDaysInMonth(monthStart))
+  );
+  return day(date);
+}
+
+/** A specific month and day; without a year, the latest one that isn't in the future */
+function monthDay(monthIndex: number, dayNumber: number, today: Date, year?: string): Range | null {
+  const build = (y: number) => new Date(y, monthIndex, dayNumber);
+  let date = build(year ? Number(year) : today.getFullYear());
+  if (date.getMonth() !== monthIndex) {
+    return null; // e.g. February 30
+  }
+  if (!year && date > today) {
+    date = build(today.getFullYear() - 1);
+  }
+  return day(date);
+}
+
+function ramadan(today: Date, year?: string): Range | null {
+  const pick = (y: number): Range | null =>
+    RAMADAN[y] ? [parseISO(RAMADAN[y][0]), parseISO(RAMADAN[y][1])] : null;
+  if (year) {
+    return pick(Number(year));
+  }
+  const current = pick(today.getFullYear());
+  return current && current[0] <= today ? current : pick(today.getFullYear() - 1);
+}
+
+/** Most recent weekday on or before today ("monday"), or strictly before ("last monday") */
+function weekday(weekdayIndex: number, today: Date, strictlyBefore: boolean): Range {
+  let offset = (today.getDay() - weekdayIndex + 7) % 7;
+  if (offset === 0 && strictlyBefore) {
+    offset = 7;
+  }
+  return day(subDays(today, offset));
+}
+
+const RESOLVERS: Array<{
+  pattern: RegExp;
+  resolve: (m: RegExpMatchArray, today: Date) => Range | null;
+}> = [
+  { pattern: /^today$/, resolve: (_, today) => day(today) },
+  { pattern: /^yesterday$/, resolve: (_, today) => day(subDays(today, 1)) },
+  { pattern: /^(?:the )?day before yesterday$/, resolve: (_, today) => day(subDays(today, 2)) },
+  // Weeks are rolling 7-day windows: this week = last 7 days incl. today, last week = the 7 before
+  { pattern: /^this week$/, resolve: (_, today) => [subDays(today, 6), today] },
+  { pattern: /^last week$/, resolve: (_, today) => [subDays(today, 7), subDays(today, 1)] },
+  {
+    pattern: /^(?:past|last) (\d+) (day|week|month)s?$/,
+    resolve: (m, today) => {
+      const count = Number(m[1]);
+      if (count < 1) {
+        return null;
+      }
+      if (m[2] === 'month') {
+        return [addDays(subMonths(today, count), 1), today];
+      }
+      return [subDays(today, count * (m[2] === 'week' ? 7 : 1) - 1), today];
+    },
+  },
+  {
+    pattern: /^this month$|^month to date$|^mtd$/,
+    resolve: (_, today) => [startOfMonth(today), today],
+  },
+  {
+    pattern: /^last month$|^previous month$/,
+    resolve: (_, today) => month(subMonths(today, 1).getFullYear(), subMonths(today, 1).getMonth()),
+  },
+  { pattern: /^this quarter$/, resolve: (_, today) => [startOfQuarter(today), today] },
+  {
+    pattern: /^last quarter$|^previous quarter$/,
+    resolve: (_, today) => {
+      const start = startOfQuarter(subQuarters(today, 1));
+      return [start, endOfQuarter(start)];
+    },
+  },
+  {
+    pattern: /^this year$|^year to date$|^ytd$/,
+    resolve: (_, today) => [startOfYear(today), today],
+  },
+  {
+    pattern: /^last year$|^previous year$/,
+    resolve: (_, today) => {
+      const start = startOfYear(subYears(today, 1));
+      return [start, endOfYear(start)];
+    },
+  },
+  {
+    pattern: /^q([1-4])(?: (\d{4}))?$/,
+    resolve: (m, today) =>
+      latestStarted(
+        (year) => {
+          const start = startOfQuarter(setQuarter(new Date(year, 0, 1), Number(m[1])));
+          return [start, endOfQuarter(start)];
+        },
+        today,
+        m[2]
+      ),
+  },
+  {
+    pattern: /^(\d{4})$/,
+    resolve: (m) => [new Date(Number(m[1]), 0, 1), new Date(Number(m[1]), 11, 31)],
+  },
+  {
+    pattern: new RegExp(`^${MONTH_PATTERN}(?:,? (\\d{4}))?$`),
+    resolve: (m, today) => latestStarted((year) => month(year, toMonthIndex(m[1])), today, m[2]),
+  },
+  {
+    pattern: new RegExp(`^${MONTH_PATTERN} ${ORDINAL_PATTERN}(?:,? (\\d{4}))?$`),
+    resolve: (m, today) => monthDay(toMonthIndex(m[1]), Number(m[2]), today, m[3]),
+  },
+  {
+    pattern: new RegExp(`^(?:the )?${ORDINAL_PATTERN} (?:of )?${MONTH_PATTERN}(?:,? (\\d{4}))?$`),
+    resolve: (m, today) => monthDay(toMonthIndex(m[2]), Number(m[1]), today, m[3]),
+  },
+  {
+    pattern: new RegExp(`^(?:the )?${ORDINAL_PATTERN}$`),
+    resolve: (m, today) => dayOfMonth(Number(m[1]), today),
+  },
+  {
+    pattern: /^(\d{4}-\d{2}-\d{2})$/,
+    resolve: (m) => {
+      const date = parseISO(m[1]);
+      return isValid(date) ? day(date) : null;
+    },
+  },
+  {
+    pattern: /^(last )?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)$/,
+    resolve: (m, today) => weekday(WEEKDAYS.indexOf(m[2]), today, Boolean(m[1])),
+  },
+  {
+    pattern: /^ramadan(?: (\d{4}))?$/,
+    resolve: (m, today) => ramadan(today, m[1]),
+  },
+];
+
+function normalizePhrase(phrase: string): string {
+  return phrase
+    .toLowerCase()
+    .replace(/[?!.]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(?:in|on|during|for|over|from) /, '')
+    .replace(/ (?:started|began|start|begun)$/, '');
+}
+
+function resolvePhrase(phrase: string, today: Date): Range | null {
+  const normalized = normalizePhrase(phrase);
+
+  const since = normalized.match(/^since (.+)$/);
+  if (since) {
+    const start = resolvePhrase(since[1], today);
+    return start ? [start[0], today] : null;
+  }
+
+  const between = normalized.match(/^(?:between )?(.+?) (?:to|and|until|till|through|-) (.+)$/);
+  if (between) {
+    const start = resolvePhrase(between[1], today);
+    const end = resolvePhrase(between[2], today);
+    if (start && end) {
+      return [start[0], end[1]];
+    }
+  }
+
+  for (const { pattern, resolve } of RESOLVERS) {
+    const match = normalized.match(pattern);
+    if (match) {
+      return resolve(match, today);
+    }
+  }
+
+  return null;
+}
+
+function formatLabelDate(date: Date): string {
+  return format(date, 'd MMM yyyy');
+}
+
+/**
+ * Resolve a natural-language date phrase to a date range
+ *
+ * @param phrase - e.g. "last month", "since Ramadan started", "Q3", "the 5th"
+ * @param options.timezone - IANA timezone used to determine "today" (default UTC)
+ * @param options.now - Reference instant (default now)
+ * @returns Range with inclusive YYYY-MM-DD bounds, or null if the phrase isn't recognized
+ *          or lies entirely in the future
+ */
+export function parseDateRange(
+  phrase: string,
+  options: { timezone?: string; now?: Date } = {}
+): ParsedDateRange | null {
+  const today = parseISO(
+    formatInTimeZone(options.now ?? new Date(), options.timezone || 'UTC', 'yyyy-MM-dd')
+  );
+  const range = resolvePhrase(phrase, today);
+  if (!range) {
+    return null;
+  }
+
+  const [start, rawEnd] = range;
+  const end = rawEnd > today ? today : rawEnd;
+  if (start > end) {
+    return null;
+  }
+
+  const dateFrom = format(start, 'yyyy-MM-dd');
+  const dateTo = format(end, 'yyyy-MM-dd');
+  return {
+    dateFrom,
+    dateTo,
+    label:
+      dateFrom === dateTo
+        ? formatLabelDate(start)
+        : `${formatLabelDate(start)} - ${formatLabelDate(end)}`,
+  };
+}
@@ -14,6 +14,7 @@
 
 import { openai } from './openai';
 import { supabaseService } from './supabase';
+import type { TransactionType } from '../services/transaction.service';
 
 /**
  * Generate embedding vector using OpenAI API
@@ -133,6 +134,8 @@ export interface HybridSearchParams {
   minAmount?: number;
   /** Maximum amount filter (optional) */
   maxAmount?: number;
+  /** Transaction direction filter (optional) */
+  transactionType?: TransactionType;
   /** Similarity threshold (0.0 to 1.0, default 0.6) */
   similarityThreshold?: number;
   /** Maximum number of results (default 50) */
@@ -151,6 +154,7 @@ export interface TransactionResult {
   category: string;
   description: string | null;
   transaction_date: string;
+  transaction_type: TransactionType;
   similarity: number;
   original_amount?: number | null;
   original_currency?: string | null;
@@ -181,6 +185,7 @@ export async function searchTransactionsHybrid(
     dateTo,
     minAmount,
     maxAmount,
+    transactionType,
     similarityThreshold = 0.6,
     limit = 50,
   } = params;
@@ -201,6 +206,7 @@ export async function searchTransactionsHybrid(
       p_min_amount: minAmount || null,
       p_max_amount: maxAmount || null,
       p_limit: limit,
+      p_transaction_type: transactionType || null,
     });
 
     if (error) {
@@ -233,15 +239,32 @@ export async function searchTransactionsSQL(params: {
   dateTo?: string;
   minAmount?: number;
   maxAmount?: number;
+  transactionType?: TransactionType;
+  search?: string; // Case-insensitive match on category, or partial match on merchant
+  displayIds?: number[];
   limit?: number;
+  offset?: number;
 }): Promise<TransactionResult[]> {
-  const { userId, merchant, category, dateFrom, dateTo, minAmount, maxAmount, limit = 50 } = params;
+  const {
+    userId,
+    merchant,
+    category,
+    dateFrom,
+    dateTo,
+    minAmount,
+    maxAmount,
+    transactionType,
+    search,
+    displayIds,
+    limit = 50,
+    offset = 0,
+  } = params;
 
   try {
     let query = supabaseService
       .from('transactions')
       .select(
-        'id, display_id, amount, currency, merchant, category, description, transaction_date, original_amount, original_currency, converted_amount, conversion_rate, converted_at'
+        'id, display_id, amount, currency, merchant, category, description, transaction_date, transaction_type, original_amount, original_currency, converted_amount, conversion_rate, converted_at'
       )
       .eq('user_id', userId);
 
@@ -250,7 +273,8 @@ export async function searchTransactionsSQL(params: {
       query = query.ilike('merchant', `%${merchant}%`);
     }
     if (category) {
-      query = query.eq('category', category);
+      // Case-insensitive, like aggregate_transactions: "dining" finds Dining
+      query = query.ilike('category', category);
     }
     if (dateFrom) {
       query = query.gte('transaction_date', dateFrom);
@@ -264,10 +288,23 @@ export async function searchTransactionsSQL(params: {
     if (maxAmount !== undefined) {
       query = query.lte('amount', maxAmount);
     }
+    if (transactionType) {
+      query = query.eq('transaction_type', transactionType);
+    }
+    if (search) {
+      // Strip characters that would break the PostgREST or() syntax
+      const term = search.replace(/[",()\\%*]/g, '').trim();
+      if (term) {
+        query = query.or(`category.ilike."${term}",merchant.ilike."%${term}%"`);
+      }
+    }
+    if (displayIds) {
+      query = query.in('display_id', displayIds);
+    }
 
     // Order by created_at DESC to show most recently logged transactions first
     // This ensures if user logs multiple transactions from same date, they appear in logging order
-    query = query.order('created_at', { ascending: false }).limit(limit);
+    query = query.order('created_at', { ascending: false }).range(offset, offset + limit - 1);
 
     const { data, error } = await query;
 
@@ -288,6 +325,7 @@ export async function searchTransactionsSQL(params: {
       category: tx.category,
       description: tx.description,
       transaction_date: tx.transaction_date,
+      transaction_type: tx.transaction_type,
       similarity: 1.0,
       original_amount: tx.original_amount,
       original_currency: tx.original_currency,
@@ -0,0 +1,397 @@
+/**
+ * Exchange Rate Providers for HilmAI Agent V2
+ *
+ * Where currency conversion gets its USD-based rates from:
+ * - api: open.exchangerate-api.com, with daily snapshots persisted to `exchange_rates`
+ * - static: a fixed table (a JSON file, or the built-in fallback rates)
+ * - memory: in-memory rates set by tests
+ *
+ * Chosen via `config.exchangeRates.provider` (EXCHANGE_RATE_PROVIDER). The static
+ * and memory providers never touch the network or the database, so conversions
+ * are deterministic in tests and local development.
+ */
+
+import { readFileSync } from 'node:fs';
+import { supabaseService } from './supabase';
+import type { Json } from './database.types';
+import { EXCHANGE_RATE_PROVIDERS, type ExchangeRateProviderName } from './config';
+
+/**
+ * Where a rate came from:
+ * - api: fetched live from the exchange rate API
+ * - cached: in-memory cache or a stored daily snapshot
+ * - fallback: static rates
+ */
+export type RateSource = 'api' | 'cached' | 'fallback';
+
+export interface RateSnapshot {
+  rates: Record<string, number>;
+  source: RateSource;
+  rateDate: string; // YYYY-MM-DD the rates apply to
+}
+
+/**
+ * Source of USD-based exchange rates
+ */
+export interface ExchangeRateProvider {
+  readonly name: string;
+
+  /**
+   * Rates for a date (YYYY-MM-DD); today when omitted
+   * Must always resolve - providers fall back rather than throw.
+   */
+  getRates(date?: string): Promise<RateSnapshot>;
+
+  /**
+   * Drop any cached rates
+   */
+  clearCache(): void;
+}
+
+export { EXCHANGE_RATE_PROVIDERS, type ExchangeRateProviderName };
+
+/**
+ * Where providers report cache misses and failures (console by default)
+ */
+export type RateLogger = Pick<Console, 'debug' | 'warn'>;
+
+/**
+ * Fallback exchange rates (relative to USD)
+ * Used when API is unavailable
+ * Updated: November 2024
+ */
+export const FALLBACK_RATES: Record<string, number> = {
+  // Major global currencies
+  USD: 1.0,
+  EUR: 0.93, // Euro
+  GBP: 0.79, // British Pound
+  JPY: 149.5, // Japanese Yen
+  CNY: 7.24, // Chinese Yuan
+  CAD: 1.39, // Canadian Dollar
+  AUD: 1.54, // Australian Dollar
+  CHF: 0.88, // Swiss Franc
+  SEK: 10.85, // Swedish Krona
+  NOK: 11.05, // Norwegian Krone
+  DKK: 6.93, // Danish Krone
+  PLN: 4.05, // Polish Zloty
+  CZK: 23.5, // Czech Koruna
+  HUF: 365, // Hungarian Forint
+  RON: 4.62, // Romanian Leu
+  TRY: 34.2, // Turkish Lira
+  RUB: 95.5, // Russian Ruble
+
+  // MENA region currencies
+  AED: 3.6725, // UAE Dirham
+  SAR: 3.75, // Saudi Riyal
+  KWT: 0.31, // Kuwaiti Dinar
+  BHD: 0.377, // Bahraini Dinar
+  OMR: 0.385, // Omani Rial
+  QAR: 3.64, // Qatari Riyal
+  EGP: 49.2, // Egyptian Pound
+  JOD: 0.71, // Jordanian Dinar
+  LBP: 89500, // Lebanese Pound
+  MAD: 10.1, // Moroccan Dirham
+  TND: 3.15, // Tunisian Dinar
+  DZD: 135, // Algerian Dinar
+  LYD: 4.85, // Libyan Dinar
+  IQD: 1310, // Iraqi Dinar
+  SYP: 13000, // Syrian Pound
+
+  // Asia-Pacific
+  VND: 24500, // Vietnamese Dong
+  THB: 35.5, // Thai Baht
+  PHP: 56.5, // Philippine Peso
+  IDR: 15750, // Indonesian Rupiah
+  MYR: 4.48, // Malaysian Ringgit
+  SGD: 1.35, // Singapore Dollar
+  HKD: 7.82, // Hong Kong Dollar
+  KRW: 1320, // South Korean Won
+  INR: 83.2, // Indian Rupee
+  PKR: 278, // Pakistani Rupee
+  BDT: 110, // Bangladeshi Taka
+
+  // Americas
+  MXN: 17.2, // Mexican Peso
+  BRL: 4.98, // Brazilian Real
+
+  // Africa
+  ZAR: 18.5, // South African Rand
+
+  // Oceania
+  NZD: 1.68, // New Zealand Dollar
+};
+
+export function getUtcDate(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+const DEFAULT_API_URL = 'https://open.exchangerate-api.com/v6/latest';
+const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+const HISTORICAL_CACHE_MAX_ENTRIES = 400;
+
+/**
+ * Live rates from exchangerate-api.io (free tier, no key needed)
+ *
+ * Today's rates are cached in memory for up to 24 hours and persisted as the
+ * day's snapshot. Past dates use the stored snapshot closest to that date. If the
+ * API fails, the most recent stored snapshot is used, then FALLBACK_RATES.
+ */
+export class ApiExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'api';
+
+  private todayCache: {
+    rates: Record<string, number>;
+    timestamp: number;
+    rateDate: string;
+  } | null = null;
+
+  // Stored historical snapshots (immutable once the day is over)
+  private historicalCache = new Map<string, RateSnapshot>();
+
+  constructor(
+    private readonly apiUrl: string = DEFAULT_API_URL,
+    private readonly logger: RateLogger = console
+  ) {}
+
+  async getRates(date?: string): Promise<RateSnapshot> {
+    if (!date || date >= getUtcDate()) {
+      return this.getTodayRates();
+    }
+
+    const cached = this.historicalCache.get(date);
+    if (cached) {
+      return cached;
+    }
+
+    const stored = await this.loadSnapshot(date);
+    if (!stored) {
+      this.logger.warn(`[currency] No stored rates near ${date}, using current rates`);
+      return this.getTodayRates();
+    }
+
+    // Only cache exact matches; a nearby snapshot may be replaced by the real day later
+    if (stored.rateDate === date) {
+      if (this.historicalCache.size >= HISTORICAL_CACHE_MAX_ENTRIES) {
+        const oldestKey = this.historicalCache.keys().next().value;
+        if (oldestKey) this.historicalCache.delete(oldestKey);
+      }
+      this.historicalCache.set(date, stored);
+    }
+
+    return stored;
+  }
+
+  clearCache(): void {
+    this.todayCache = null;
+    this.historicalCache.clear();
+  }
+
+  private async getTodayRates(): Promise<RateSnapshot> {
+    const today = getUtcDate();
+
+    if (
+      this.todayCache &&
+      this.todayCache.rateDate === today &&
+      Date.now() - this.todayCache.timestamp < CACHE_TTL
+    ) {
+      return { rates: this.todayCache.rates, source: 'cached', rateDate: today };
+    }
+
+    try {
+      const response = await fetch(`${this.apiUrl}/USD`, {
+        headers: {
+          Accept: 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`API returned ${response.status}`);
+      }
+
+      const data = await response.json();
+      if (!data?.rates) {
+        throw new Error('Invalid API response format');
+      }
+
+      this.logger.debug('[currency] Fetched exchange rates from API');
+      this.todayCache = { rates: data.rates, timestamp: Date.now(), rateDate: today };
+      await this.saveSnapshot(today, data.rates);
+
+      return { rates: data.rates, source: 'api', rateDate: today };
+    } catch (error) {
+      this.logger.warn('[currency] API fetch failed, trying stored rates:', error);
+
+      const stored = await this.loadSnapshot(today);
+      if (stored) {
+        return stored;
+      }
+
+      this.logger.warn('[currency] No stored rates, using fallback rates');
+      return { rates: FALLBACK_RATES, source: 'fallback', rateDate: today };
+    }
+  }
+
+  /**
+   * Persist a day's rates (best effort - conversion must not fail because of it)
+   */
+  private async saveSnapshot(rateDate: string, rates: Record<string, number>): Promise<void> {
+    const { error } = await supabaseService.from('exchange_rates').upsert(
+      {
+        rate_date: rateDate,
+        base_currency: 'USD',
+        rates: rates as unknown as Json,
+        source: 'api',
+      },
+      { onConflict: 'rate_date,base_currency' }
+    );
+
+    if (error) {
+      this.logger.warn('[currency] Failed to persist exchange rates:', error.message);
+    }
+  }
+
+  /**
+   * Load the stored snapshot closest to a date: the latest one on or before it,
+   * otherwise the earliest one after it
+   */
+  private async loadSnapshot(date: string): Promise<RateSnapshot | null> {
+    try {
+      const { data: before } = await supabaseService
+        .from('exchange_rates')
+        .select('rate_date, rates')
+        .eq('base_currency', 'USD')
+        .lte('rate_date', date)
+        .order('rate_date', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const row =
+        before ??
+        (
+          await supabaseService
+            .from('exchange_rates')
+            .select('rate_date, rates')
+            .eq('base_currency', 'USD')
+            .gt('rate_date', date)
+            .order('rate_date', { ascending: true })
+            .limit(1)
+            .maybeSingle()
+        ).data;
+
+      if (!row) {
+        return null;
+      }
+
+      return {
+        rates: row.rates as unknown as Record<string, number>,
+        source: 'cached',
+        rateDate: row.rate_date,
+      };
+    } catch (error) {
+      this.logger.warn('[currency] Failed to load stored exchange rates:', error);
+      return null;
+    }
+  }
+}
+
+/**
+ * The same rates for every date, e.g. for local development without network access
+ */
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'static';
+
+  constructor(private readonly rates: Record<string, number> = FALLBACK_RATES) {}
+
+  /**
+   * Load rates from a JSON file: either `{ "rates": { "USD": 1, ... } }` or the rates object itself
+   */
+  static fromFile(path: string): StaticExchangeRateProvider {
+    const parsed = JSON.parse(readFileSync(path, 'utf8'));
+    const rates = parsed?.rates ?? parsed;
+
+    if (!rates || typeof rates !== 'object' || typeof rates.USD !== 'number') {
+      throw new Error(`Exchange rates file ${path} must contain USD-based rates`);
+    }
+
+    return new StaticExchangeRateProvider(rates);
+  }
+
+  async getRates(date?: string): Promise<RateSnapshot> {
+    return { rates: this.rates, source: 'fallback', rateDate: date ?? getUtcDate() };
+  }
+
+  clearCache(): void {}
+}
+
+/**
+ * In-memory rates per date for tests
+ * A date without its own rates uses the closest earlier date (like stored snapshots),
+ * then the default rates. Every requested date is recorded in `requests`.
+ */
+export class InMemoryExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'memory';
+  readonly requests: (string | undefined)[] = [];
+
+  private ratesByDate = new Map<string, Record<string, number>>();
+
+  constructor(private defaultRates: Record<string, number> = FALLBACK_RATES) {}
+
+  /**
+   * Set the rates for one date, or the default rates when no date is given
+   */
+  setRates(rates: Record<string, number>, date?: string): this {
+    if (date) {
+      this.ratesByDate.set(date, rates);
+    } else {
+      this.defaultRates = rates;
+    }
+    return this;
+  }
+
+  async getRates(date?: string): Promise<RateSnapshot> {
+    this.requests.push(date);
+    const rateDate = date ?? getUtcDate();
+
+    const closest = [...this.ratesByDate.keys()]
+      .filter((snapshotDate) => snapshotDate <= rateDate)
+      .sort()
+      .pop();
+
+    const rates = closest ? this.ratesByDate.get(closest) : undefined;
+    if (closest && rates) {
+      return { rates, source: 'cached', rateDate: closest };
+    }
+
+    return { rates: this.defaultRates, source: 'fallback', rateDate };
+  }
+
+  clearCache(): void {
+    this.requests.length = 0;
+  }
+}
+
+/**
+ * Build the provider selected in config
+ */
+export function createExchangeRateProvider(options: {
+  provider: ExchangeRateProviderName;
+  apiUrl?: string;
+  ratesFile?: string;
+}): ExchangeRateProvider {
+  switch (options.provider) {
+    case 'static':
+      return options.ratesFile
+        ? StaticExchangeRateProvider.fromFile(options.ratesFile)
+        : new StaticExchangeRateProvider();
+    case 'memory':
+      return new InMemoryExchangeRateProvider();
+    case 'api':
+      return new ApiExchangeRateProvider(options.apiUrl);
+    default:
+      // config already rejects bad EXCHANGE_RATE_PROVIDER values; this guards direct callers
+      throw new Error(
+        `Unknown exchange rate provider "${options.provider}". ` +
+          `Use one of: ${EXCHANGE_RATE_PROVIDERS.join(', ')}`
+      );
+  }
+}
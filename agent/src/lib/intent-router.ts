@@ -0,0 +1,113 @@
+/**
+ * Intent Router for HilmAI Auto Mode
+ *
+ * Decides which agent (logger, query or chat) handles a message when the user is in
+ * auto mode. Obvious messages are routed by rules ("coffee 15", "how much did I spend?");
+ * only ambiguous ones cost a small LLM call. Every decision is logged by the workflow
+ * (event "intent_routed") so the rules can be tuned.
+ */
+
+import { openai } from './openai';
+import type { AgentMode } from './user-mode';
+
+export interface IntentClassification {
+  mode: AgentMode;
+  method: 'rules' | 'llm' | 'fallback';
+  reason: string;
+}
+
+const LOG_STATEMENT =
+  /^(?:i\s+)?(?:just\s+)?(?:spent|paid|bought|purchased|received|earned|got paid|refunded)\b/;
+
+// Always a question about past data, even with a number in it ("top 5 expenses")
+const QUERY_PHRASES =
+  /\b(?:how much|how many|did i (?:spend|pay|buy)|have i (?:spent|paid)|my (?:spending|expenses|income|transactions)|breakdown|compare|vs\.?|versus|biggest|largest|most expensive|top \d+|left to spend|forecast|on track)\b/;
+
+// Also words of a log ("lunch total 120", "gym subscriptions 200"): a query only without an amount
+const AMBIGUOUS_QUERY_WORDS = /\b(?:total|average|budget|subscriptions|recurring charges|trend)\b/;
+
+const CHAT_PATTERNS = [
+  /^(?:hi|hello|hey|salam|salaam|good (?:morning|evening)|thanks|thank you|ok|okay|cool)\b/,
+  /\b(?:help|how do i|how does|how to|what can you|who are you|what are you|explain)\b/,
+];
+
+const LLM_PROMPT = [
+  'Classify a message sent to a personal finance Telegram bot.',
+  '- logger: records a new expense or income (e.g. "coffee 15", "paid rent 4000", "uber to work 32 aed")',
+  '- query: asks about past transactions, totals, budgets, trends or forecasts (e.g. "groceries this month?")',
+  '- chat: greetings, help, how the bot works, general money advice',
+  'Reply with JSON only: {"mode": "logger" | "query" | "chat"}',
+].join('\n');
+
+/**
+ * Route a message by rules alone
+ *
+ * @returns Classification, or null when the message is ambiguous
+ */
+export function classifyIntentByRules(
+  text: string,
+  inputType: 'text' | 'voice' | 'photo'
+): IntentClassification | null {
+  if (inputType === 'photo') {
+    return { mode: 'logger', method: 'rules', reason: 'photo' };
+  }
+
+  const normalized = text.trim().toLowerCase();
+  const hasAmount = /\d/.test(normalized);
+  const isQuestion = normalized.endsWith('?');
+
+  if (LOG_STATEMENT.test(normalized) && hasAmount && !isQuestion) {
+    return { mode: 'logger', method: 'rules', reason: 'log_statement' };
+  }
+  if (QUERY_PHRASES.test(normalized)) {
+    return { mode: 'query', method: 'rules', reason: 'query_phrase' };
+  }
+  if (CHAT_PATTERNS.some((pattern) => pattern.test(normalized))) {
+    return { mode: 'chat', method: 'rules', reason: 'chat_phrase' };
+  }
+  if (hasAmount && !isQuestion) {
+    return { mode: 'logger', method: 'rules', reason: 'amount' };
+  }
+  if (AMBIGUOUS_QUERY_WORDS.test(normalized)) {
+    return { mode: 'query', method: 'rules', reason: 'query_phrase' };
+  }
+
+  return null;
+}
+
+/**
+ * Route a message: rules first, then a small LLM call for ambiguous messages
+ * Falls back to chat (which can point the user to the right command) if the LLM fails.
+ */
+export async function classifyIntent(
+  text: string,
+  inputType: 'text' | 'voice' | 'photo'
+): Promise<IntentClassification> {
+  const byRules = classifyIntentByRules(text, inputType);
+  if (byRules) {
+    return byRules;
+  }
+
+  try {
+    const response = await openai.chat.completions.create({
+      model: 'gpt-4o-mini',
+      messages: [
+        { role: 'system', content: LLM_PROMPT },
+        { role: 'user', content: text.slice(0, 500) },
+      ],
+      response_format: { type: 'json_object' },
+      max_tokens: 20,
+      temperature: 0,
+    });
+
+    const parsed = JSON.parse(response.choices[0]?.message?.content ?? '{}') as { mode?: string };
+    if (parsed.mode === 'logger' || parsed.mode === 'query' || parsed.mode === 'chat') {
+      return { mode: parsed.mode, method: 'llm', reason: 'classified' };
+    }
+
+    return { mode: 'chat', method: 'fallback', reason: 'unexpected_llm_output' };
+  } catch (error) {
+    console.warn('[intent-router] Classification failed:', error);
+    return { mode: 'chat', method: 'fallback', reason: 'llm_error' };
+  }
+}
@@ -158,6 +158,10 @@ Note: Informational only — not financial advice.`,
 
 ${b()}Pick a mode:
 
+✨ ${b()}Auto Mode
+Just send anything - I'll log it, answer it, or chat.
+Commands: /mode_auto
+
 💰 ${b()}Logger Mode
 Fast expense logging with voice, photos, and text.
 Commands: /mode_logger
@@ -171,6 +175,19 @@ Search spending and get financial insights.
 Commands: /mode_query`,
 
     instructions: {
+      auto: () => fmt`✨ ${b()}Auto Mode Active
+
+Send anything - I'll pick the right assistant for each message.
+
+${b()}Examples:
+• "Coffee 15" - logged as an expense
+• "How much on groceries this month?" - answered from your history
+• "How does /review work?" - explained
+
+${b()}Commands:
+• /mode - Pick a fixed mode instead
+• /recent - View recent transactions`,
+
       logger: () => fmt`💰 ${b()}Logger Mode Active
 
 Fast transaction logging - no conversation history.
@@ -182,7 +199,10 @@ ${b()}How to use:
 
 ${b()}Commands:
 • /mode - Change mode
-• /recent - View recent transactions`,
+• /recent - View recent transactions
+• /recurring - Manage recurring transactions
+• /rules - Merchant categories learned from your edits
+• /review - Confirm before saving`,
 
       chat: () => fmt`💬 ${b()}Chat Mode Active
 
@@ -208,7 +228,10 @@ ${b()}Examples:
 
 ${b()}Commands:
 • /mode - Change mode
-• /recent - View recent transactions`,
+• /recent - View recent transactions
+• /subscriptions - Find recurring subscriptions
+• /chart - Spending charts
+• /digest - Weekly/monthly digests`,
     },
   },
 
@@ -249,17 +272,178 @@ ${b()}Commands:
 
     updateFailed: () => '❌ Failed to update your default currency. Please try again.',
     fetchFailed: () => '❌ Failed to fetch your current currency. Please try again.',
+
+    migrationStarted: (total: number, from: string, to: string) =>
+      `🔄 *Converting your history*\n\n` +
+      `Re-denominating ${total} transaction${total === 1 ? '' : 's'} from ${from} to ${to}, ` +
+      `each at the exchange rate of its own date...`,
+
+    migrationProgress: (processed: number, total: number, to: string) =>
+      `🔄 *Converting your history to ${to}*\n\n` +
+      `${processed} of ${total} transactions done (${total > 0 ? Math.round((processed / total) * 100) : 100}%)`,
+
+    migrationCompleted: (processed: number, failed: number, to: string) =>
+      `✅ *History converted to ${to}*\n\n` +
+      `${processed} transaction${processed === 1 ? '' : 's'} re-denominated at historical rates. ` +
+      `Original amounts are kept, so nothing is lost.` +
+      (failed > 0
+        ? `\n\n⚠️ ${failed} could not be converted yet. Send /currency ${to} again to retry them.`
+        : ''),
+
+    migrationFailed: (to: string) =>
+      `⚠️ Converting your history to ${to} stopped unexpectedly. ` +
+      `Send /currency ${to} again to finish it; totals may mix currencies until then.`,
   },
 
   recent: {
     empty: () =>
       '📋 *Recent Transactions*\n\n' +
-      'No transactions found. Start tracking your expenses!\n\n' +
+      'No transactions found. Start tracking your expenses and income!\n\n' +
       'Try saying: "I spent 50$ at Amazon"',
 
-    header: () => '📋 *Recent Transactions*',
+    header: (filters?: string, page = 0) =>
+      '📋 *Recent Transactions*' +
+      (filters ? `\n🔎 ${filters}` : '') +
+      (page > 0 ? `\nPage ${page + 1}` : ''),
+
+    noMatches: (filters: string) =>
+      `📋 *Recent Transactions*\n\n` +
+      `No transactions match ${filters}.\n\n` +
+      `Try /recent on its own to see everything.`,
+
+    invalidFilter: (token: string) =>
+      fmt`❌ I didn't understand "${token}"
+
+Filters can be combined:
+• /recent dining - category or merchant
+• /recent 30d - last 30 days (also 2w, 3m)
+• /recent >100 - amounts over 100 (or <50)`,
+
+    filterTooLong: () =>
+      '❌ That search is too long to page through. Try a shorter one, e.g. /recent dining 30d',
 
     fetchFailed: () => "❌ Sorry, I couldn't fetch your recent transactions. Please try again.",
+
+    // "Show transactions" under a query answer
+    sources: (shown: number, total: number) =>
+      '📋 *Transactions behind this answer*' +
+      (shown < total ? `\nShowing the latest ${shown} of ${total}` : ''),
+
+    sourcesGone: () => '📋 Those transactions have been deleted since this answer.',
+  },
+
+  budget: {
+    usage: () =>
+      `🎯 *Monthly Budgets*\n\n` +
+      `You don't have any budgets yet.\n\n` +
+      `*Set a budget:*\n` +
+      `• \`/budget Dining 1500\`\n` +
+      `• \`/budget Groceries 2000\`\n\n` +
+      `*Remove a budget:*\n` +
+      `• \`/budget Dining 0\`\n\n` +
+      `I'll let you know when you reach 50%, 80% and 100% of a budget each month.`,
+
+    list: (
+      monthLabel: string,
+      statuses: {
+        category: string;
+        budget: number;
+        spent: number;
+        percentUsed: number;
+        currency: string;
+      }[]
+    ) =>
+      `🎯 *Budgets for ${monthLabel}*\n\n` +
+      statuses
+        .map((status) => {
+          const icon = status.percentUsed >= 100 ? '🔴' : status.percentUsed >= 80 ? '🟠' : '🟢';
+          return `${icon} *${status.category}*: ${status.spent.toFixed(2)} / ${status.budget.toFixed(2)} ${status.currency} (${status.percentUsed}%)`;
+        })
+        .join('\n') +
+      `\n\nUpdate with \`/budget <category> <amount>\` or remove with \`/budget <category> 0\`.`,
+
+    setSuccess: (category: string, amount: number, currency: string) =>
+      `✅ *Budget Set*\n\n` +
+      `${category}: *${amount.toFixed(2)} ${currency}* per month\n\n` +
+      `I'll alert you at 50%, 80% and 100%.`,
+
+    removed: (category: string) => `🗑️ Budget for *${category}* removed.`,
+
+    notFound: (category: string) => `❌ No budget found for *${category}*.`,
+
+    invalidUsage: () =>
+      `❌ *Invalid Usage*\n\n` +
+      `Format: \`/budget <category> <amount>\`\n\n` +
+      `*Examples:*\n` +
+      `• \`/budget Dining 1500\`\n` +
+      `• \`/budget Personal Care 300\`\n` +
+      `• \`/budget Dining 0\` (remove)`,
+
+    failed: () => '❌ Failed to update your budgets. Please try again.',
+
+    alert: (
+      threshold: number,
+      status: {
+        category: string;
+        budget: number;
+        spent: number;
+        remaining: number;
+        currency: string;
+      },
+      monthLabel: string
+    ) => {
+      const header =
+        threshold >= 100
+          ? `🔴 *${status.category} budget exceeded*`
+          : threshold >= 80
+            ? `🟠 *${threshold}% of your ${status.category} budget used*`
+            : `🟡 *Half of your ${status.category} budget used*`;
+      const remainingLine =
+        status.remaining >= 0
+          ? `Remaining: *${status.remaining.toFixed(2)} ${status.currency}*`
+          : `Over by: *${Math.abs(status.remaining).toFixed(2)} ${status.currency}*`;
+      return (
+        `${header}\n\n` +
+        `Spent ${status.spent.toFixed(2)} of ${status.budget.toFixed(2)} ${status.currency} in ${monthLabel}.\n` +
+        remainingLine
+      );
+    },
+  },
+
+  spendingAlerts: {
+    alert: (anomaly: {
+      kind: 'merchant' | 'category' | 'new_merchant';
+      name: string;
+      amount: number;
+      currency: string;
+      usual: number;
+      ratio: number;
+    }) => {
+      const amount = `${anomaly.amount.toFixed(2)} ${anomaly.currency}`;
+      const usual = `${anomaly.usual.toFixed(2)} ${anomaly.currency}`;
+      const ratio = `${anomaly.ratio.toFixed(1)}x`;
+
+      if (anomaly.kind === 'new_merchant') {
+        return (
+          `👀 *Unusual spending*\n\n` +
+          `${amount} at ${anomaly.name} - your first purchase there, ` +
+          `and ${ratio} your typical expense (${usual}).`
+        );
+      }
+
+      return (
+        `👀 *Unusual spending*\n\n` +
+        `${amount} is ${ratio} your usual ${anomaly.name} spend ` +
+        `(about ${usual}${anomaly.kind === 'category' ? ' per transaction' : ''}).`
+      );
+    },
+
+    fewer: () => "🔉 Got it - I'll only flag bigger outliers from now on.",
+    fewerAtMax: () =>
+      "🔉 Alerts are already at their least sensitive. Mute them if they're still too many.",
+    muted: () => '🔕 Unusual spending alerts muted.',
+    unmuted: () => '🔔 Unusual spending alerts are back on.',
+    failed: () => '❌ Failed to update alert settings. Please try again.',
   },
 
   timezone: {
@@ -353,6 +537,344 @@ Use /timezone to see more options.`,
       `Please try again. If the problem persists, contact support.`,
   },
 
+  draft: {
+    preview: (
+      transactions: {
+        amount: number;
+        currency: string;
+        merchant: string;
+        category: string;
+        transactionType?: string;
+        transactionDate: string;
+      }[]
+    ) =>
+      `📝 *Review before saving*\n\n` +
+      transactions
+        .map((tx) => {
+          const sign = tx.transactionType && tx.transactionType !== 'expense' ? '+' : '';
+          const typeLabel =
+            tx.transactionType && tx.transactionType !== 'expense'
+              ? ` (${tx.transactionType})`
+              : '';
+          return (
+            `*${tx.merchant}*${typeLabel}\n` +
+            `Amount: ${sign}${tx.amount} ${tx.currency}\n` +
+            `Category: ${tx.category}\n` +
+            `Date: ${tx.transactionDate}`
+          );
+        })
+        .join('\n\n') +
+      `\n\nNothing is saved until you tap *Confirm*.`,
+
+    chooseCategory: () => '🏷️ *Choose a category*',
+
+    chooseDate: () => '📅 *Choose a date*',
+
+    cancelled: () => '❌ Cancelled. Nothing was saved.',
+
+    expired: () =>
+      '⌛ This draft has expired or was already handled. Please send the transaction again.',
+
+    saved: (lines: string[]) => `✅ *Saved*\n\n${lines.join('\n')}`,
+
+    saveFailed: () => '❌ Failed to save. Tap Confirm to try again.',
+  },
+
+  clarification: {
+    question: (missingFields: string[], merchant?: string) => {
+      if (!missingFields.includes('merchant')) {
+        return merchant ? `🤔 How much was it at ${merchant}?` : '🤔 How much was it?';
+      }
+      if (!missingFields.includes('amount')) {
+        return '🤔 Where was it, or what was it for?';
+      }
+      return '🤔 How much was it, and where?';
+    },
+  },
+
+  review: {
+    status: (enabled: boolean) =>
+      `📝 *Review Before Saving:* ${enabled ? 'On' : 'Off'}\n\n` +
+      (enabled
+        ? 'In logger mode I show a preview with Confirm / Change / Cancel buttons before saving.'
+        : 'In logger mode transactions are saved immediately.') +
+      `\n\nUse \`/review on\` or \`/review off\` to change it.`,
+
+    updated: (enabled: boolean) =>
+      enabled
+        ? '✅ Review before saving is *on*. I will ask you to confirm each transaction.'
+        : '✅ Review before saving is *off*. Transactions are saved immediately.',
+
+    invalidUsage: () => '❌ Use `/review on` or `/review off`.',
+
+    failed: () => '❌ Failed to update your preference. Please try again.',
+  },
+
+  recurring: {
+    empty: () =>
+      `🔁 *Recurring Transactions*\n\n` +
+      `You don't have any recurring transactions yet.\n\n` +
+      `In logger mode, just tell me:\n` +
+      `• "Rent 6000 AED every 1st of the month"\n` +
+      `• "Netflix 45 AED monthly on the 10th"\n` +
+      `• "Salary 20000 AED on the 25th every month"\n\n` +
+      `I'll log each one automatically on its due date.`,
+
+    list: (
+      schedules: {
+        merchant: string;
+        amount: number;
+        currency: string;
+        transactionType: string;
+        recurrence: string;
+        nextRunDate: string;
+        paused: boolean;
+      }[]
+    ) =>
+      `🔁 *Recurring Transactions*\n\n` +
+      schedules
+        .map((schedule, index) => {
+          const sign = schedule.transactionType === 'expense' ? '' : '+';
+          const status = schedule.paused ? '⏸️ Paused' : `Next: ${schedule.nextRunDate}`;
+          return (
+            `${index + 1}. *${schedule.merchant}* - ${sign}${schedule.amount} ${schedule.currency}\n` +
+            `   ${schedule.recurrence} · ${status}`
+          );
+        })
+        .join('\n\n') +
+      `\n\nUse the buttons below to pause, resume or delete.`,
+
+    logged: (displayId: number, merchant: string, amount: number, currency: string, date: string) =>
+      `🔁 *Recurring transaction logged*\n\n` +
+      `#${displayId} ${merchant} - ${amount} ${currency}\n` +
+      `Date: ${date}\n\n` +
+      `Tap Undo if this one shouldn't count.`,
+
+    // Plain text: shown as callback toasts
+    paused: (merchant: string) => `⏸️ ${merchant} paused`,
+
+    resumed: (merchant: string, nextRunDate: string) =>
+      `▶️ ${merchant} resumed - next on ${nextRunDate}`,
+
+    deleted: (merchant: string) => `🗑️ ${merchant} deleted (logged transactions are kept)`,
+
+    notFound: () => 'Recurring transaction not found. It may have been deleted.',
+
+    failed: () => '❌ Failed to load your recurring transactions. Please try again.',
+  },
+
+  rules: {
+    empty: () =>
+      `🏷️ *Category Rules*\n\n` +
+      `You don't have any rules yet.\n\n` +
+      `When you change a transaction's category (e.g. \`/edit 18 category Groceries\`), ` +
+      `I remember it and use it the next time you log that merchant.`,
+
+    list: (rules: { merchant: string; category: string }[]) =>
+      `🏷️ *Category Rules*\n\n` +
+      rules.map((rule, index) => `${index + 1}. *${rule.merchant}* → ${rule.category}`).join('\n') +
+      `\n\nLearned from your category edits. Delete a rule to let me categorize that merchant again.`,
+
+    // Plain text: shown as callback toasts
+    deleted: (merchant: string) => `🗑️ Rule for ${merchant} deleted`,
+
+    notFound: () => 'Rule not found. It may have been deleted.',
+
+    failed: () => '❌ Failed to load your category rules. Please try again.',
+  },
+
+  detectedSubscriptions: {
+    none: () =>
+      `🔍 *Subscriptions*\n\n` +
+      `I couldn't find any recurring charges yet.\n\n` +
+      `I look for merchants that charge you a similar amount every week, month, quarter or year, ` +
+      `so a subscription shows up here after a few charges.`,
+
+    list: (
+      subscriptions: {
+        merchant: string;
+        cadence: string;
+        currentAmount: number;
+        currency: string;
+        yearlyCost: number;
+        nextExpectedDate: string;
+        priceChanges: { date: string; from: number; to: number }[];
+      }[]
+    ) => {
+      const yearlyTotals = new Map<string, number>();
+      for (const subscription of subscriptions) {
+        yearlyTotals.set(
+          subscription.currency,
+          (yearlyTotals.get(subscription.currency) ?? 0) + subscription.yearlyCost
+        );
+      }
+      const totalLine = [...yearlyTotals.entries()]
+        .map(([currency, total]) => `${total.toFixed(2)} ${currency}`)
+        .join(' + ');
+
+      return (
+        `🔍 *Subscriptions I found*\n\n` +
+        subscriptions
+          .map((subscription, index) => {
+            const lastChange = subscription.priceChanges[subscription.priceChanges.length - 1];
+            const changeLine = lastChange
+              ? `\n   ${lastChange.to > lastChange.from ? '📈' : '📉'} Price changed ${lastChange.from} → ${lastChange.to} on ${lastChange.date}`
+              : '';
+            return (
+              `${index + 1}. *${subscription.merchant}* - ${subscription.currentAmount} ${subscription.currency} ${subscription.cadence}\n` +
+              `   Next: ${subscription.nextExpectedDate} · ${subscription.yearlyCost.toFixed(2)} ${subscription.currency}/year` +
+              changeLine
+            );
+          })
+          .join('\n\n') +
+        `\n\n*Total:* ${totalLine} per year\n\n` +
+        `Detected from your transaction history - cancel anything you no longer use.`
+      );
+    },
+
+    failed: () => '❌ Failed to analyze your subscriptions. Please try again.',
+  },
+
+  charts: {
+    caption: (
+      type: 'category' | 'monthly' | 'daily',
+      total: number,
+      currency: string,
+      points: { label: string; value: number }[]
+    ) => {
+      const top = [...points].sort((a, b) => b.value - a.value)[0];
+      const detail =
+        type === 'category'
+          ? `Top category: *${top.label}* - ${top.value.toFixed(2)} ${currency} (${Math.round((top.value / total) * 100)}%)`
+          : type === 'monthly'
+            ? `Highest month: *${top.label}* - ${top.value.toFixed(2)} ${currency}`
+            : `Daily average: ${(total / points.length).toFixed(2)} ${currency} · Highest: *${top.label}* (${top.value.toFixed(2)} ${currency})`;
+      return `📊 Total spent: *${total.toFixed(2)} ${currency}*\n${detail}`;
+    },
+
+    empty: () =>
+      '📊 No expenses in this period yet, so there is nothing to chart.\n\n' +
+      'Log a few transactions and try again!',
+
+    usage: () =>
+      '📊 *Charts*\n\n' +
+      '• /chart category - Spending by category this month\n' +
+      '• /chart monthly - Spending per month (last 6 months)\n' +
+      '• /chart daily - Daily spending trend (last 30 days)',
+
+    failed: () => '❌ Failed to create your chart. Please try again.',
+  },
+
+  digest: {
+    summary: (digest: {
+      kind: 'weekly' | 'monthly';
+      currency: string;
+      period: { dateFrom: string; dateTo: string };
+      spent: number;
+      income: number;
+      transactionCount: number;
+      previousSpent: number;
+      changePercent: number | null;
+      topCategories: { name: string; total: number }[];
+      topMerchants: { name: string; total: number; count: number }[];
+      forecast: { spentSoFar: number; projected: number; low: number; high: number } | null;
+    }) => {
+      const { currency } = digest;
+      const change =
+        digest.changePercent === null
+          ? ''
+          : digest.changePercent === 0
+            ? `\n➡️ Same as the ${digest.kind === 'weekly' ? 'week' : 'month'} before`
+            : `\n${digest.changePercent > 0 ? '📈' : '📉'} ${Math.abs(digest.changePercent)}% ${digest.changePercent > 0 ? 'more' : 'less'} than the ${digest.kind === 'weekly' ? 'week' : 'month'} before (${digest.previousSpent.toFixed(2)} ${currency})`;
+      const categories = digest.topCategories
+        .map(
+          (category, index) =>
+            `${index + 1}. ${category.name} - ${category.total.toFixed(2)} ${currency}`
+        )
+        .join('\n');
+      const merchants = digest.topMerchants
+        .map(
+          (merchant, index) =>
+            `${index + 1}. ${merchant.name} - ${merchant.total.toFixed(2)} ${currency} (${merchant.count}×)`
+        )
+        .join('\n');
+
+      return (
+        `📬 *Your ${digest.kind === 'weekly' ? 'weekly' : 'monthly'} digest*\n` +
+        `${digest.period.dateFrom} → ${digest.period.dateTo}\n\n` +
+        `💸 Spent: *${digest.spent.toFixed(2)} ${currency}* (${digest.transactionCount} transaction${digest.transactionCount === 1 ? '' : 's'})` +
+        change +
+        (digest.income > 0 ? `\n💵 Income: *${digest.income.toFixed(2)} ${currency}*` : '') +
+        (categories ? `\n\n*Top categories*\n${categories}` : '') +
+        (merchants ? `\n\n*Top merchants*\n${merchants}` : '') +
+        (digest.forecast
+          ? `\n\n🔮 *This month:* ${digest.forecast.spentSoFar.toFixed(2)} ${currency} so far, ` +
+            `on track for *${digest.forecast.projected.toFixed(2)} ${currency}* ` +
+            `(${digest.forecast.low.toFixed(0)}-${digest.forecast.high.toFixed(0)})`
+          : '') +
+        `\n\nChange digests with /digest`
+      );
+    },
+
+    status: (frequency: 'off' | 'weekly' | 'monthly' | 'both', hour: number) =>
+      `📬 *Spending digests*\n\n` +
+      `Status: *${frequency === 'off' ? 'Off' : frequency === 'both' ? 'Weekly and monthly' : frequency === 'weekly' ? 'Weekly' : 'Monthly'}*` +
+      (frequency === 'off' ? '' : ` at ${String(hour).padStart(2, '0')}:00 your time`) +
+      `\n\n` +
+      `• /digest weekly - Every Monday\n` +
+      `• /digest monthly - On the 1st of each month\n` +
+      `• /digest both - Weekly and monthly\n` +
+      `• /digest off - Stop digests\n` +
+      `• /digest at 8 - Choose the hour (0-23)\n\n` +
+      `Here is a preview 👇`,
+
+    updated: (frequency: 'off' | 'weekly' | 'monthly' | 'both', hour: number) =>
+      frequency === 'off'
+        ? '✅ Spending digests turned off.'
+        : `✅ You'll get your ${frequency === 'both' ? 'weekly and monthly' : frequency} digest at ${String(hour).padStart(2, '0')}:00 your time.`,
+
+    empty: () =>
+      '📬 Nothing to summarize yet - no transactions in the last period.\n\n' +
+      'Your digest will fill up as you log expenses.',
+
+    invalidUsage: () => '❌ Usage: /digest [weekly|monthly|both|off] or /digest at <hour 0-23>',
+
+    failed: () => '❌ Failed to build your digest. Please try again.',
+  },
+
+  // Inline mode (@hilmaibot <search>): plain text, since results are shared into other chats
+  inline: {
+    subscribeButton: () => '🔒 Subscribe to search your transactions',
+
+    transactionTitle: (tx: { emoji: string; merchant: string; amount: string; sign: string }) =>
+      `${tx.emoji} ${tx.merchant} - ${tx.sign}${tx.amount}`,
+
+    transactionDescription: (tx: { category: string; date: string; description: string | null }) =>
+      `${tx.category} · ${tx.date}` + (tx.description ? ` · ${tx.description}` : ''),
+
+    transactionMessage: (tx: {
+      emoji: string;
+      merchant: string;
+      amount: string;
+      sign: string;
+      category: string;
+      date: string;
+      description: string | null;
+    }) =>
+      `${tx.emoji} ${tx.merchant}: ${tx.sign}${tx.amount}\n` +
+      `${tx.category} · ${tx.date}` +
+      (tx.description ? `\n${tx.description}` : ''),
+
+    totalTitle: (totals: string[]) => `🧾 Total: ${totals.join(' + ')}`,
+
+    totalDescription: (count: number, label: string) =>
+      `${count} expense${count === 1 ? '' : 's'}` + (label ? ` · ${label}` : ''),
+
+    totalMessage: (totals: string[], count: number, label: string) =>
+      `🧾 ${label || 'Spending'}\n` +
+      `Total: ${totals.join(' + ')} (${count} expense${count === 1 ? '' : 's'})`,
+  },
+
   // Mode-specific progress messages
   processingByMode: {
     logger: {
@@ -375,6 +897,16 @@ Use /timezone to see more options.`,
       saving: '🤖 Generating insights…',
       finalizing: '✅ Results ready…',
     },
+    auto: {
+      start: '⏳ Processing your message…',
+      transcribing: '🎤 Transcribing voice…',
+      extracting: '📸 Reading image…',
+      categorized: '🧾 Working on it…',
+      analyzing: '🤖 Thinking…',
+      currencyConversion: '💱 Converting currency…',
+      saving: '💾 Saving…',
+      finalizing: '✅ Ready…',
+    },
     chat: {
       start: '⏳ Processing your message…',
       transcribing: '🎤 Transcribing voice…',
@@ -9,6 +9,8 @@
  * - Don't cache transactions (dynamic, time-sensitive)
  * - TTL: 1 hour (3600 seconds)
  * - Version-based invalidation
+ * - Per-user data version: bumped whenever the user's transactions change and
+ *   included in the key context, so answers never outlive the data they came from
  */
 
 import crypto from 'node:crypto';
@@ -28,6 +30,7 @@ export interface CachedAgentResponse {
  */
 export class AgentResponseCache {
   private static TABLE_NAME = 'agent_response_cache';
+  private static DATA_VERSION_TABLE_NAME = 'user_data_version';
   private static CACHE_VERSION = 1; // Increment to invalidate all cache
   private static DEFAULT_TTL = 3600; // 1 hour in seconds
 
@@ -61,6 +64,15 @@ export class AgentResponseCache {
         ON ${this.TABLE_NAME}(user_id)
       `);
 
+      // Per-user data version (see bumpDataVersion)
+      await client.execute(`
+        CREATE TABLE IF NOT EXISTS ${this.DATA_VERSION_TABLE_NAME} (
+          user_id BIGINT PRIMARY KEY,
+          version INTEGER NOT NULL,
+          updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+        )
+      `);
+
       console.log(`[cache] Table ${this.TABLE_NAME} ready`);
     } catch (error) {
       console.error('[cache] Error ensuring table:', error);
@@ -192,6 +204,70 @@ export class AgentResponseCache {
     }
   }
 
+  /**
+   * Get the user's data version
+   * Pass it in the get/set context so a cached answer is only reused while the
+   * user's transactions are unchanged.
+   *
+   * @param userId - Telegram user ID
+   * @returns Current version (0 if the user's data never changed or on failure)
+   */
+  static async getDataVersion(userId: number): Promise<number> {
+    const client = getLibsqlClient();
+    if (!client) {
+      console.warn('[cache] No LibSQL client available');
+      return 0;
+    }
+
+    try {
+      await this.ensureTable(client);
+
+      const result = await client.execute({
+        sql: `SELECT version FROM ${this.DATA_VERSION_TABLE_NAME} WHERE user_id = ? LIMIT 1`,
+        args: [userId],
+      });
+
+      const row = result.rows[0] as Record<string, any> | undefined;
+      return row ? Number(row.version) : 0;
+    } catch (error) {
+      console.warn('[cache] Get data version failed:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Bump the user's data version
+   * Call after every transaction insert, edit or delete: cached answers keyed on the
+   * previous version stop matching and expire with their TTL.
+   *
+   * @param userId - Telegram user ID
+   */
+  static async bumpDataVersion(userId: number): Promise<void> {
+    const client = getLibsqlClient();
+    if (!client) {
+      console.warn('[cache] No LibSQL client available');
+      return;
+    }
+
+    try {
+      await this.ensureTable(client);
+
+      await client.execute({
+        sql: `
+          INSERT INTO ${this.DATA_VERSION_TABLE_NAME} (user_id, version)
+          VALUES (?, 1)
+          ON CONFLICT(user_id) DO UPDATE SET
+            version = version + 1,
+            updated_at = datetime('now')
+        `,
+        args: [userId],
+      });
+    } catch (error) {
+      console.warn('[cache] Bump data version failed:', error);
+      // Fail gracefully - cache errors shouldn't break the app
+    }
+  }
+
   /**
    * Delete expired cache entries
    * Should be called periodically (e.g., daily cron job)
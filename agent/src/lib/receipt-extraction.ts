@@ -0,0 +1,112 @@
+/**
+ * Receipt Extraction
+ *
+ * Prompt, schema and formatting for structured receipt extraction with GPT-4o Vision.
+ * The photo step asks for JSON (merchant, totals and line items), validates it here,
+ * and hands the logger agent a text summary that includes the items as JSON so they
+ * can be saved to transaction_items alongside the transaction.
+ */
+
+import { z } from 'zod';
+
+const receiptItemSchema = z.object({
+  name: z.string().min(1),
+  quantity: z.number().positive().catch(1),
+  unitPrice: z.number().nullable().catch(null),
+  totalPrice: z.number(),
+  discount: z.number().catch(0),
+  tax: z.number().catch(0),
+});
+
+export const receiptExtractionSchema = z.object({
+  merchant: z.string().min(1),
+  date: z.string().nullable().catch(null),
+  currency: z.string().nullable().catch(null),
+  category: z.string().nullable().catch(null),
+  subtotal: z.number().nullable().catch(null),
+  tax: z.number().nullable().catch(null),
+  discount: z.number().nullable().catch(null),
+  total: z.number(),
+  items: z.array(receiptItemSchema).catch([]),
+});
+
+export type ReceiptItem = z.infer<typeof receiptItemSchema>;
+export type ReceiptExtraction = z.infer<typeof receiptExtractionSchema>;
+
+export const RECEIPT_EXTRACTION_PROMPT = `CRITICAL INSTRUCTION: This receipt represents ONE SINGLE TRANSACTION with a SINGLE TOTAL AMOUNT.
+
+Extract the receipt as JSON with exactly this shape:
+{
+  "merchant": "store name",
+  "date": "YYYY-MM-DD or null if not printed",
+  "currency": "ISO currency code (e.g., AED, USD, VND) or null if unclear",
+  "category": "inferred category (e.g., Groceries, Dining)",
+  "subtotal": number or null,
+  "tax": number or null,
+  "discount": number or null,
+  "total": number,
+  "items": [
+    {
+      "name": "item name as a shopper would say it (e.g., Milk 1L)",
+      "quantity": number,
+      "unitPrice": number or null,
+      "totalPrice": number,
+      "discount": number,
+      "tax": number
+    }
+  ]
+}
+
+RULES:
+- "total" is the grand total at the bottom - the ONLY amount saved as the transaction
+- Numbers are plain numbers without currency symbols or thousands separators (96,900 ₫ -> 96900)
+- "totalPrice" is the line total after any item discount; quantity defaults to 1
+- Use 0 for item discount/tax when none is printed for that line
+- Put receipt-level tax and discounts in the top-level "tax" and "discount" fields
+- Do NOT create multiple transactions
+- If items are unreadable, return an empty "items" array`;
+
+/**
+ * Parse the model's JSON reply into a validated receipt
+ * Returns null when the reply is not valid JSON or is missing merchant/total
+ */
+export function parseReceiptExtraction(content: string): ReceiptExtraction | null {
+  const jsonText = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(jsonText);
+  } catch {
+    return null;
+  }
+
+  const parsed = receiptExtractionSchema.safeParse(raw);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Format an extracted receipt as the message text for the logger agent
+ */
+export function formatReceiptForAgent(receipt: ReceiptExtraction): string {
+  const currency = receipt.currency ?? '';
+  const lines = [
+    '**RECEIPT (SINGLE TRANSACTION)**',
+    `Merchant: ${receipt.merchant}`,
+    `Total: ${receipt.total} ${currency}`.trimEnd(),
+  ];
+
+  if (receipt.date) lines.push(`Date: ${receipt.date}`);
+  if (receipt.category) lines.push(`Category: ${receipt.category}`);
+  if (receipt.tax) lines.push(`Tax: ${receipt.tax}`);
+  if (receipt.discount) lines.push(`Discount: ${receipt.discount}`);
+
+  if (receipt.items.length > 0) {
+    lines.push(`Items: ${receipt.items.map((item) => item.name).join(', ')}`);
+    lines.push(`Items JSON: ${JSON.stringify(receipt.items)}`);
+  }
+
+  return lines.join('\n');
+}
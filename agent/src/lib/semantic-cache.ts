@@ -0,0 +1,367 @@
+/**
+ * Semantic Response Cache for HilmAI Agent V2
+ *
+ * Second cache layer behind AgentResponseCache: reuses an answer when a new question
+ * means the same as a cached one ("how much on groceries?" vs "grocery spending?").
+ * Uses LibSQL like the exact cache; similarity is computed in process.
+ *
+ * Cache Strategy:
+ * - Scoped per user, data version and mode (never shared across users)
+ * - Hit = cosine similarity >= threshold AND same dates/numbers in both questions,
+ *   so "this month" never answers "last month"
+ * - TTL: 1 hour, same as the exact cache
+ */
+
+import type { Client } from '@libsql/client';
+import { getLibsqlClient } from './database';
+import { generateEmbedding } from './embeddings';
+import type { CachedAgentResponse } from './prompt-cache';
+
+/**
+ * What a cached answer depends on besides the question itself
+ */
+export interface SemanticCacheScope {
+  dataVersion: number;
+  mode: string;
+}
+
+export interface SemanticCacheHit extends CachedAgentResponse {
+  similarity: number;
+  question: string; // The cached question that matched
+}
+
+const TIME_WORDS = new Set([
+  'today',
+  'yesterday',
+  'tomorrow',
+  'day',
+  'days',
+  'week',
+  'weeks',
+  'weekend',
+  'month',
+  'months',
+  'quarter',
+  'year',
+  'years',
+  'last',
+  'this',
+  'past',
+  'previous',
+  'since',
+  'ramadan',
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+  'mon',
+  'tue',
+  'wed',
+  'thu',
+  'fri',
+  'sat',
+  'sun',
+]);
+
+/**
+ * Dates and numbers mentioned in a question, which must match exactly for a semantic hit
+ * (embeddings rate "spent this month" and "spent last month" as near-identical)
+ *
+ * @returns Sorted, space-separated tokens, e.g. "5 last month"
+ */
+export function getQuestionSignature(text: string): string {
+  const tokens = text.toLowerCase().match(/[a-z]+|\d+(?:\.\d+)?/g) ?? [];
+  const signature = tokens.filter(
+    (token) => /^\d/.test(token) || TIME_WORDS.has(token) || TIME_WORDS.has(token.slice(0, 3))
+  );
+  return [...new Set(signature)].sort().join(' ');
+}
+
+/**
+ * Cosine similarity of two embedding vectors (0 when either is empty or zero)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Semantic Response Cache manager
+ */
+export class SemanticResponseCache {
+  private static TABLE_NAME = 'agent_semantic_cache';
+  private static DEFAULT_THRESHOLD = 0.92;
+  private static DEFAULT_TTL = 3600; // 1 hour in seconds
+  private static MAX_CANDIDATES = 100; // Most recent entries compared per lookup
+  private static MAX_MEMOIZED = 200;
+
+  // Lookup and store embed the same question within one workflow run
+  private static embeddings = new Map<string, number[]>();
+
+  /**
+   * Ensure cache table exists
+   */
+  static async ensureTable(client: Client): Promise<void> {
+    try {
+      await client.execute(`
+        CREATE TABLE IF NOT EXISTS ${this.TABLE_NAME} (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id BIGINT NOT NULL,
+          data_version INTEGER NOT NULL,
+          mode TEXT NOT NULL,
+          question TEXT NOT NULL,
+          signature TEXT NOT NULL,
+          embedding_json TEXT NOT NULL,
+          response_json TEXT NOT NULL,
+          expires_at INTEGER NOT NULL,
+          created_at TEXT NOT NULL DEFAULT (datetime('now'))
+        )
+      `);
+
+      await client.execute(`
+        CREATE INDEX IF NOT EXISTS idx_${this.TABLE_NAME}_scope
+        ON ${this.TABLE_NAME}(user_id, data_version, mode, signature)
+      `);
+
+      await client.execute(`
+        CREATE INDEX IF NOT EXISTS idx_${this.TABLE_NAME}_expires_at
+        ON ${this.TABLE_NAME}(expires_at)
+      `);
+    } catch (error) {
+      console.error('[semantic-cache] Error ensuring table:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Embed a question, reusing recent embeddings of the same normalized text
+   */
+  private static async embed(message: string): Promise<number[]> {
+    const normalized = message.trim().toLowerCase();
+    const memoized = this.embeddings.get(normalized);
+    if (memoized) {
+      return memoized;
+    }
+
+    const embedding = await generateEmbedding(normalized);
+    if (this.embeddings.size >= this.MAX_MEMOIZED) {
+      const oldest = this.embeddings.keys().next().value;
+      if (oldest !== undefined) {
+        this.embeddings.delete(oldest);
+      }
+    }
+    this.embeddings.set(normalized, embedding);
+    return embedding;
+  }
+
+  /**
+   * Find a cached answer to a question with the same meaning
+   *
+   * @param userId - Telegram user ID
+   * @param message - User message
+   * @param scope - Data version and mode the answer must have been cached under
+   * @param threshold - Minimum cosine similarity (default: 0.92)
+   * @returns Best match at or above the threshold, or null
+   */
+  static async get(
+    userId: number,
+    message: string,
+    scope: SemanticCacheScope,
+    threshold: number = this.DEFAULT_THRESHOLD
+  ): Promise<SemanticCacheHit | null> {
+    const client = getLibsqlClient();
+    if (!client) {
+      console.warn('[semantic-cache] No LibSQL client available');
+      return null;
+    }
+
+    try {
+      await this.ensureTable(client);
+
+      const now = Math.floor(Date.now() / 1000);
+      const result = await client.execute({
+        sql: `
+          SELECT question, embedding_json, response_json
+          FROM ${this.TABLE_NAME}
+          WHERE user_id = ?
+            AND data_version = ?
+            AND mode = ?
+            AND signature = ?
+            AND expires_at > ?
+          ORDER BY id DESC
+          LIMIT ?
+        `,
+        args: [
+          userId,
+          scope.dataVersion,
+          scope.mode,
+          getQuestionSignature(message),
+          now,
+          this.MAX_CANDIDATES,
+        ],
+      });
+
+      if (!result.rows || result.rows.length === 0) {
+        return null;
+      }
+
+      const embedding = await this.embed(message);
+      let best: { row: Record<string, any>; similarity: number } | null = null;
+
+      for (const row of result.rows as Record<string, any>[]) {
+        const similarity = cosineSimilarity(
+          embedding,
+          JSON.parse(row.embedding_json as string) as number[]
+        );
+        if (similarity >= threshold && (!best || similarity > best.similarity)) {
+          best = { row, similarity };
+        }
+      }
+
+      if (!best) {
+        return null;
+      }
+
+      console.log(
+        `[semantic-cache] Hit! (user ${userId}, similarity ${best.similarity.toFixed(3)})`
+      );
+
+      return {
+        ...(JSON.parse(best.row.response_json as string) as CachedAgentResponse),
+        similarity: best.similarity,
+        question: best.row.question as string,
+      };
+    } catch (error) {
+      console.warn('[semantic-cache] Get failed:', error);
+      return null; // Fail gracefully
+    }
+  }
+
+  /**
+   * Store an answer for semantic lookups
+   *
+   * @param userId - Telegram user ID
+   * @param message - User message
+   * @param response - Response to cache
+   * @param scope - Data version and mode the answer was produced under
+   * @param ttlSeconds - Time to live (default: 1 hour)
+   */
+  static async set(
+    userId: number,
+    message: string,
+    response: CachedAgentResponse,
+    scope: SemanticCacheScope,
+    ttlSeconds: number = this.DEFAULT_TTL
+  ): Promise<void> {
+    const client = getLibsqlClient();
+    if (!client) {
+      console.warn('[semantic-cache] No LibSQL client available');
+      return;
+    }
+
+    try {
+      await this.ensureTable(client);
+
+      const embedding = await this.embed(message);
+      const expiresAt = Math.floor(Date.now() / 1000) + ttlSeconds;
+
+      await client.execute({
+        sql: `
+          INSERT INTO ${this.TABLE_NAME}
+            (user_id, data_version, mode, question, signature, embedding_json, response_json, expires_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `,
+        args: [
+          userId,
+          scope.dataVersion,
+          scope.mode,
+          message.trim(),
+          getQuestionSignature(message),
+          JSON.stringify(embedding),
+          JSON.stringify(response),
+          expiresAt,
+        ],
+      });
+
+      console.log('[semantic-cache] Stored');
+    } catch (error) {
+      console.warn('[semantic-cache] Set failed:', error);
+      // Fail gracefully - cache errors shouldn't break the app
+    }
+  }
+
+  /**
+   * Delete expired entries
+   *
+   * @returns Number of deleted entries
+   */
+  static async cleanup(): Promise<number> {
+    const client = getLibsqlClient();
+    if (!client) {
+      console.warn('[semantic-cache] No LibSQL client available');
+      return 0;
+    }
+
+    try {
+      await this.ensureTable(client);
+
+      const result = await client.execute({
+        sql: `DELETE FROM ${this.TABLE_NAME} WHERE expires_at <= ?`,
+        args: [Math.floor(Date.now() / 1000)],
+      });
+
+      return result.rowsAffected;
+    } catch (error) {
+      console.warn('[semantic-cache] Cleanup failed:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Clear all entries for a specific user
+   *
+   * @param userId - Telegram user ID
+   * @returns Number of deleted entries
+   */
+  static async clearUser(userId: number): Promise<number> {
+    const client = getLibsqlClient();
+    if (!client) {
+      console.warn('[semantic-cache] No LibSQL client available');
+      return 0;
+    }
+
+    try {
+      await this.ensureTable(client);
+
+      const result = await client.execute({
+        sql: `DELETE FROM ${this.TABLE_NAME} WHERE user_id = ?`,
+        args: [userId],
+      });
+
+      return result.rowsAffected;
+    } catch (error) {
+      console.warn('[semantic-cache] Clear user failed:', error);
+      return 0;
+    }
+  }
+}
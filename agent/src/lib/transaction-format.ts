@@ -0,0 +1,317 @@
+/**
+ * Transaction Formatting Helpers
+ *
+ * Shared Telegram formatting for transaction lists and their edit/delete buttons
+ * (used by /recent, with Prev/Next paging, and logger confirmations), the confirm-before-save
+ * draft keyboards, the /recurring and Undo buttons for scheduled transactions, the /rules
+ * Delete buttons and the "Show transactions" button under query answers.
+ */
+
+import { formatInTimeZone } from 'date-fns-tz';
+import { subDays } from 'date-fns';
+import type { TransactionResult } from './embeddings';
+
+export interface TelegramInlineKeyboard {
+  inline_keyboard: { text: string; callback_data: string }[][];
+}
+
+/**
+ * Get emoji for category
+ */
+export function getCategoryEmoji(category: string): string {
+  const categoryLower = category.toLowerCase();
+  if (categoryLower.includes('grocer')) return '🛒';
+  if (categoryLower.includes('dining') || categoryLower.includes('food')) return '🍽️';
+  if (categoryLower.includes('transport')) return '🚗';
+  if (categoryLower.includes('entertainment')) return '🎬';
+  if (categoryLower.includes('shopping')) return '🛍️';
+  if (categoryLower.includes('bills')) return '💳';
+  if (categoryLower.includes('health')) return '🏥';
+  if (categoryLower.includes('education')) return '📚';
+  return '💰';
+}
+
+/**
+ * Get emoji for a transaction, marking income and refunds
+ */
+export function getTransactionEmoji(
+  tx: Pick<TransactionResult, 'category' | 'transaction_type'>
+): string {
+  if (tx.transaction_type === 'income') return '💵';
+  if (tx.transaction_type === 'refund') return '↩️';
+  return getCategoryEmoji(tx.category);
+}
+
+/**
+ * Format one transaction as a numbered list line
+ * e.g. "1. 🛒 Carrefour - 120 AED (2025-11-04) [#18]"
+ */
+export function formatTransactionLine(tx: TransactionResult, index: number): string {
+  const emoji = getTransactionEmoji(tx);
+  const sign = tx.transaction_type === 'expense' ? '' : '+';
+  return `${index + 1}. ${emoji} ${tx.merchant} - ${sign}${tx.amount} ${tx.currency} (${tx.transaction_date}) [#${tx.display_id}]`;
+}
+
+/**
+ * Build one Edit/Delete button row per transaction
+ * Uses display_id (sequential number) in callback data, not UUID
+ */
+export function buildTransactionActionsKeyboard(displayIds: number[]): TelegramInlineKeyboard {
+  return {
+    inline_keyboard: displayIds.map((displayId) => [
+      { text: `Edit #${displayId}`, callback_data: `edit_${displayId}` },
+      { text: `Delete #${displayId}`, callback_data: `delete_${displayId}` },
+    ]),
+  };
+}
+
+/** Telegram rejects callback data over 64 bytes */
+const MAX_CALLBACK_DATA_BYTES = 64;
+
+/** Longest /recent filter arguments that fit the paging buttons (room for a 4-digit page) */
+export const MAX_RECENT_FILTER_BYTES = MAX_CALLBACK_DATA_BYTES - 'recent_page_9999_'.length;
+
+/**
+ * Callback data for a /recent page; the filter arguments ride along so the next page
+ * applies the same filters. /recent rejects longer filters than MAX_RECENT_FILTER_BYTES, so
+ * the cut here (whole characters only) only guards Telegram's limit.
+ */
+export function buildRecentPageCallback(page: number, filterArgs: string): string {
+  const chars = Array.from(`recent_page_${page}_${filterArgs}`);
+  while (Buffer.byteLength(chars.join('')) > MAX_CALLBACK_DATA_BYTES) {
+    chars.pop();
+  }
+  return chars.join('').trimEnd();
+}
+
+/**
+ * Edit/Delete rows for one /recent page plus a Prev/Next row when there is more to browse
+ */
+export function buildRecentKeyboard(
+  displayIds: number[],
+  page: number,
+  hasNext: boolean,
+  filterArgs: string
+): TelegramInlineKeyboard {
+  const keyboard = buildTransactionActionsKeyboard(displayIds);
+  const navigation: TelegramInlineKeyboard['inline_keyboard'][number] = [];
+
+  if (page > 0) {
+    navigation.push({
+      text: '⬅️ Prev',
+      callback_data: buildRecentPageCallback(page - 1, filterArgs),
+    });
+  }
+  if (hasNext) {
+    navigation.push({
+      text: 'Next ➡️',
+      callback_data: buildRecentPageCallback(page + 1, filterArgs),
+    });
+  }
+  if (navigation.length > 0) {
+    keyboard.inline_keyboard.push(navigation);
+  }
+
+  return keyboard;
+}
+
+/**
+ * Encode display IDs compactly for callback data: base36, consecutive runs as ranges
+ * e.g. [1, 2, 3, 7, 40] -> "1-3.7.14"
+ */
+export function encodeDisplayIds(displayIds: number[]): string {
+  const sorted = [...new Set(displayIds)].sort((a, b) => a - b);
+  const parts: string[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (sorted[i + 1] === sorted[i] + 1) {
+      i++;
+    }
+    parts.push(
+      start === sorted[i] ? start.toString(36) : `${start.toString(36)}-${sorted[i].toString(36)}`
+    );
+  }
+
+  return parts.join('.');
+}
+
+const MAX_DECODED_IDS = 500;
+
+/**
+ * Decode display IDs produced by encodeDisplayIds (invalid parts are skipped)
+ */
+export function decodeDisplayIds(encoded: string): number[] {
+  const displayIds: number[] = [];
+
+  for (const part of encoded.split('.')) {
+    const [start, end = start] = part.split('-').map((value) => parseInt(value, 36));
+    if (!Number.isInteger(start) || !Number.isInteger(end) || end < start) {
+      continue;
+    }
+    // Callback data can be forged, so never expand more IDs than a real button holds
+    for (
+      let displayId = start;
+      displayId <= end && displayIds.length < MAX_DECODED_IDS;
+      displayId++
+    ) {
+      displayIds.push(displayId);
+    }
+  }
+
+  return displayIds;
+}
+
+/**
+ * Callback data listing the transactions behind a query answer: show_tx_<total>_<ids>
+ * When the IDs don't fit Telegram's limit, the newest ones are kept and total says how many
+ * there were.
+ * @param total - How many transactions the answer covered, when displayIds is only the newest
+ */
+export function buildShowTransactionsCallback(displayIds: number[], total?: number): string {
+  const newestFirst = [...new Set(displayIds)].sort((a, b) => b - a);
+  const covered = Math.max(total ?? 0, newestFirst.length);
+  const build = (count: number) =>
+    `show_tx_${covered}_${encodeDisplayIds(newestFirst.slice(0, count))}`;
+
+  let count = newestFirst.length;
+  while (count > 1 && Buffer.byteLength(build(count)) > MAX_CALLBACK_DATA_BYTES) {
+    count--;
+  }
+  return build(count);
+}
+
+/**
+ * Single "Show transactions" button for answers based on specific transactions
+ */
+export function buildShowTransactionsKeyboard(
+  displayIds: number[],
+  total?: number
+): TelegramInlineKeyboard {
+  return {
+    inline_keyboard: [
+      [
+        {
+          text: '📋 Show transactions',
+          callback_data: buildShowTransactionsCallback(displayIds, total),
+        },
+      ],
+    ],
+  };
+}
+
+/**
+ * Single Undo button for automatically logged transactions (reuses the delete callback)
+ */
+export function buildUndoKeyboard(displayId: number): TelegramInlineKeyboard {
+  return {
+    inline_keyboard: [[{ text: '↩️ Undo', callback_data: `delete_${displayId}` }]],
+  };
+}
+
+/**
+ * Build Pause/Resume + Delete buttons per recurring schedule, numbered like the /recurring list
+ */
+export function buildRecurringKeyboard(
+  schedules: { id: string; status: 'active' | 'paused' }[]
+): TelegramInlineKeyboard {
+  return {
+    inline_keyboard: schedules.map((schedule, index) => [
+      schedule.status === 'active'
+        ? { text: `⏸️ Pause ${index + 1}`, callback_data: `recurring_pause_${schedule.id}` }
+        : { text: `▶️ Resume ${index + 1}`, callback_data: `recurring_resume_${schedule.id}` },
+      { text: `🗑️ Delete ${index + 1}`, callback_data: `recurring_delete_${schedule.id}` },
+    ]),
+  };
+}
+
+/**
+ * Build one Delete button per merchant rule, numbered like the /rules list
+ */
+export function buildRulesKeyboard(rules: { id: string }[]): TelegramInlineKeyboard {
+  return {
+    inline_keyboard: rules.map((rule, index) => [
+      { text: `🗑️ Delete ${index + 1}`, callback_data: `rules_delete_${rule.id}` },
+    ]),
+  };
+}
+
+/**
+ * Categories offered by the draft "Change category" button
+ * Kept in sync with the logger agent's category guidelines
+ */
+export const DRAFT_CATEGORIES = [
+  'Groceries',
+  'Dining',
+  'Transport',
+  'Shopping',
+  'Entertainment',
+  'Healthcare',
+  'Bills',
+  'Subscriptions',
+  'Fitness',
+  'Education',
+  'Personal Care',
+  'Other',
+] as const;
+
+/**
+ * Build Confirm / Change category / Change date / Cancel buttons for a draft
+ * Category changes are only offered for single-transaction drafts
+ */
+export function buildDraftKeyboard(draftId: string, single: boolean): TelegramInlineKeyboard {
+  const changeRow = [{ text: '📅 Change date', callback_data: `draft_date_${draftId}` }];
+  if (single) {
+    changeRow.unshift({ text: '🏷️ Change category', callback_data: `draft_cat_${draftId}` });
+  }
+
+  return {
+    inline_keyboard: [
+      [{ text: '✅ Confirm', callback_data: `draft_ok_${draftId}` }],
+      changeRow,
+      [{ text: '❌ Cancel', callback_data: `draft_no_${draftId}` }],
+    ],
+  };
+}
+
+/**
+ * Build the category picker for a draft (3 per row)
+ * Callback data carries the index into DRAFT_CATEGORIES to stay under Telegram's 64-byte limit
+ */
+export function buildDraftCategoryKeyboard(draftId: string): TelegramInlineKeyboard {
+  const rows: TelegramInlineKeyboard['inline_keyboard'] = [];
+  DRAFT_CATEGORIES.forEach((category, index) => {
+    if (index % 3 === 0) rows.push([]);
+    rows[rows.length - 1].push({
+      text: category,
+      callback_data: `draft_setcat_${draftId}_${index}`,
+    });
+  });
+  rows.push([{ text: '⬅️ Back', callback_data: `draft_back_${draftId}` }]);
+  return { inline_keyboard: rows };
+}
+
+/**
+ * Build the date picker for a draft: today and the previous 6 days in the user's timezone
+ */
+export function buildDraftDateKeyboard(
+  draftId: string,
+  timezone: string,
+  now: Date = new Date()
+): TelegramInlineKeyboard {
+  const rows: TelegramInlineKeyboard['inline_keyboard'] = [];
+  for (let daysAgo = 0; daysAgo < 7; daysAgo++) {
+    const day = subDays(now, daysAgo);
+    const date = formatInTimeZone(day, timezone, 'yyyy-MM-dd');
+    const label =
+      daysAgo === 0
+        ? 'Today'
+        : daysAgo === 1
+          ? 'Yesterday'
+          : formatInTimeZone(day, timezone, 'EEE d MMM');
+    if (daysAgo % 2 === 0) rows.push([]);
+    rows[rows.length - 1].push({ text: label, callback_data: `draft_setdate_${draftId}_${date}` });
+  }
+  rows.push([{ text: '⬅️ Back', callback_data: `draft_back_${draftId}` }]);
+  return { inline_keyboard: rows };
+}
@@ -1,13 +1,21 @@
 /**
  * User Mode Management for HilmAI
  *
- * Manages user's current operating mode (logger/chat/query)
- * Modes determine which agent handles messages and memory configuration
+ * Manages user's current operating mode (logger/chat/query/auto)
+ * Modes determine which agent handles messages and memory configuration;
+ * in auto mode each message is classified and routed (see intent-router)
  */
 
 import { supabaseService } from './supabase';
 
-export type UserMode = 'logger' | 'chat' | 'query';
+export type UserMode = 'logger' | 'chat' | 'query' | 'auto';
+
+/**
+ * Mode of the agent that actually handles a message (auto resolves to one of these)
+ */
+export type AgentMode = Exclude<UserMode, 'auto'>;
+
+const USER_MODES: UserMode[] = ['logger', 'chat', 'query', 'auto'];
 
 /**
  * Get user's current mode from database
@@ -28,7 +36,7 @@ export async function getUserMode(userId: number): Promise<UserMode> {
 
     const mode = data.current_mode as UserMode;
     // Validate mode
-    if (!['logger', 'chat', 'query'].includes(mode)) {
+    if (!USER_MODES.includes(mode)) {
       return 'chat';
     }
 
@@ -103,6 +111,8 @@ export function getModeDescription(mode: UserMode): string {
       return 'Chat Mode - Conversation and help';
     case 'query':
       return 'Query Mode - Ask about your spending';
+    case 'auto':
+      return 'Auto Mode - Logs, answers or chats depending on your message';
     default:
       return 'Unknown Mode';
   }
@@ -119,6 +129,8 @@ export function getModeEmoji(mode: UserMode): string {
       return '💬';
     case 'query':
       return '📊';
+    case 'auto':
+      return '✨';
     default:
       return '🤖';
   }
@@ -128,5 +140,5 @@ export function getModeEmoji(mode: UserMode): string {
  * Validate if a string is a valid mode
  */
 export function isValidMode(mode: string): mode is UserMode {
-  return ['logger', 'chat', 'query'].includes(mode);
+  return (USER_MODES as string[]).includes(mode);
 }
@@ -19,7 +19,12 @@ Handle general conversation, greetings, help requests, support all user queries,
 
 ## Understanding Modes
 
-HilmAI has 3 specialized modes:
+HilmAI has 3 specialized modes, plus Auto Mode:
+
+✨ **Auto Mode** - Each message is sent to the right mode automatically
+   - "coffee 15" is logged, "how much on groceries?" is answered
+   - Explicit modes below still work as overrides
+   - Command: /mode_auto
 
 💰 **Logger Mode** - For fast transaction logging
    - "I spent 50$ at Amazon"
@@ -47,6 +52,7 @@ HilmAI has 3 specialized modes:
 
 ### Mode Commands
 - **/mode** - See current mode, select a different mode
+- **/mode_auto** - Switch to Auto Mode (each message goes to the right assistant)
 - **/mode_logger** - Switch to Logger Mode (fast transaction logging)
 - **/mode_chat** - Switch to Chat Mode (help and questions)
 - **/mode_query** - Switch to Query Mode (spending analysis)
@@ -74,6 +80,11 @@ HilmAI has 3 specialized modes:
     - /edit 18 Update category to Dining
     - /edit 18 Date yesterday
   - Works with: amount, merchant, category, description, date
+  - Category changes are remembered for that merchant's future expenses
+
+- **/rules** - View or delete merchant category rules
+  - Rules are learned automatically when the user corrects a category
+  - Example: "Noon keeps landing in Shopping? Change it once with /edit and I'll remember"
 
 - **/clear** - Clear cached AI responses
   - Use if: Bot seems to be remembering old data
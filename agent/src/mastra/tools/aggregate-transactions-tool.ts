@@ -0,0 +1,98 @@
+/**
+ * Aggregate Transactions Tool for HilmAI Agent V2
+ *
+ * Returns exact sums, counts, averages and min/max computed in the database,
+ * optionally grouped by category, merchant, day, week or month. Unlike
+ * hybridQuery it has no row limit, so totals are correct for any history size.
+ */
+
+import { createTool } from '@mastra/core';
+import { z } from 'zod';
+import { aggregateTransactions } from '../../services/transaction-aggregation.service';
+
+export const aggregateTransactionsTool = createTool({
+  id: 'aggregate-transactions',
+  description:
+    'Get exact totals (sum, count, average, min, max) of transactions, optionally grouped by category, merchant, day, week or month',
+  inputSchema: z.object({
+    userId: z.number().describe('Telegram user ID'),
+    groupBy: z
+      .enum(['category', 'merchant', 'day', 'week', 'month'])
+      .optional()
+      .describe('Breakdown dimension (omit for a single overall total)'),
+    dateFrom: z.string().optional().describe('Start date filter (YYYY-MM-DD)'),
+    dateTo: z.string().optional().describe('End date filter (YYYY-MM-DD)'),
+    category: z.string().optional().describe('Category filter (e.g., Dining, Groceries)'),
+    merchant: z.string().optional().describe('Merchant filter (partial, case-insensitive)'),
+    transactionType: z
+      .enum(['expense', 'income', 'refund'])
+      .optional()
+      .describe('Direction filter: expense, income, or refund (default: expense)'),
+    minAmount: z.number().optional().describe('Minimum amount filter'),
+    maxAmount: z.number().optional().describe('Maximum amount filter'),
+    limit: z.number().optional().describe('Maximum number of groups (default 100)'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    groups: z.array(
+      z.object({
+        key: z.string().nullable(),
+        currency: z.string(),
+        total: z.number(),
+        count: z.number(),
+        average: z.number(),
+        min: z.number(),
+        max: z.number(),
+        firstDate: z.string(),
+        lastDate: z.string(),
+      })
+    ),
+    message: z.string().optional(),
+  }),
+  execute: async ({ context, mastra }) => {
+    const logger = mastra?.getLogger();
+    const startTime = Date.now();
+    // Groups carry no type field, so default to expenses rather than count salary as spending
+    const filters = { ...context, transactionType: context.transactionType ?? 'expense' };
+
+    logger?.info('[tool:aggregate-transactions]', {
+      event: 'start',
+      userId: context.userId,
+      groupBy: context.groupBy,
+      dateFrom: context.dateFrom,
+      dateTo: context.dateTo,
+      category: context.category,
+      merchant: context.merchant,
+      transactionType: filters.transactionType,
+    });
+
+    try {
+      const groups = await aggregateTransactions(filters);
+
+      logger?.info('[tool:aggregate-transactions]', {
+        event: 'success',
+        userId: context.userId,
+        groups: groups.length,
+        duration: Date.now() - startTime,
+      });
+
+      return {
+        success: true,
+        groups,
+        message: groups.length === 0 ? 'No transactions match these filters' : undefined,
+      };
+    } catch (error) {
+      logger?.error('[tool:aggregate-transactions]', {
+        event: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: context.userId,
+      });
+
+      return {
+        success: false,
+        groups: [],
+        message: `Failed to aggregate transactions: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  },
+});
@@ -0,0 +1,79 @@
+/**
+ * Budget Status Tool for HilmAI Agent V2
+ *
+ * Reports this month's budget usage per category (in the user's timezone)
+ * so the query agent can answer "how much budget do I have left?"
+ */
+
+import { createTool } from '@mastra/core';
+import { z } from 'zod';
+import { getBudgetStatuses } from '../../services/budget.service';
+
+export const budgetStatusTool = createTool({
+  id: 'budget-status',
+  description:
+    "Get the user's monthly category budgets with amount spent, remaining and percent used for the current month",
+  inputSchema: z.object({
+    userId: z.number().describe('Telegram user ID'),
+    category: z
+      .string()
+      .optional()
+      .describe('Budget category to check (e.g., Groceries). Omit to get all budgets'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    periodStart: z.string().optional(),
+    periodEnd: z.string().optional(),
+    budgets: z.array(
+      z.object({
+        category: z.string(),
+        budget: z.number(),
+        spent: z.number(),
+        remaining: z.number(),
+        percentUsed: z.number(),
+        currency: z.string(),
+      })
+    ),
+    message: z.string().optional(),
+  }),
+  execute: async ({ context, mastra }) => {
+    const logger = mastra?.getLogger();
+    const { userId, category } = context;
+
+    try {
+      const { period, statuses } = await getBudgetStatuses(userId, category);
+
+      logger?.info('[tool:budget-status]', {
+        event: 'success',
+        userId,
+        category,
+        budgets: statuses.length,
+      });
+
+      return {
+        success: true,
+        periodStart: period.start,
+        periodEnd: period.end,
+        budgets: statuses,
+        message:
+          statuses.length === 0
+            ? category
+              ? `No budget set for ${category}. The user can set one with /budget ${category} <amount>`
+              : 'No budgets set. The user can set one with /budget <category> <amount>'
+            : undefined,
+      };
+    } catch (error) {
+      logger?.error('[tool:budget-status]', {
+        event: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+
+      return {
+        success: false,
+        budgets: [],
+        message: 'Failed to fetch budgets',
+      };
+    }
+  },
+});
@@ -0,0 +1,104 @@
+/**
+ * Compare Periods Tool for HilmAI Agent V2
+ *
+ * Compares totals between two date ranges with exact absolute and percentage
+ * deltas and the merchants that drove the change, so "did I spend more on transport
+ * in October than September?" needs one call and no arithmetic by the model.
+ */
+
+import { createTool } from '@mastra/core';
+import { z } from 'zod';
+import { comparePeriods } from '../../services/period-comparison.service';
+
+const deltaSchema = {
+  currency: z.string(),
+  totalA: z.number(),
+  totalB: z.number(),
+  countA: z.number(),
+  countB: z.number(),
+  delta: z.number(),
+  percentChange: z.number().nullable(),
+};
+
+export const comparePeriodsTool = createTool({
+  id: 'compare-periods',
+  description:
+    'Compare spending (or income) between two date ranges: totals, absolute and percent change, and the merchants that drove the change',
+  inputSchema: z.object({
+    userId: z.number().describe('Telegram user ID'),
+    periodAFrom: z.string().describe('Start of the base (usually earlier) period, YYYY-MM-DD'),
+    periodATo: z.string().describe('End of the base period, YYYY-MM-DD'),
+    periodBFrom: z.string().describe('Start of the period compared to the base, YYYY-MM-DD'),
+    periodBTo: z.string().describe('End of the compared period, YYYY-MM-DD'),
+    category: z.string().optional().describe('Category filter (e.g., Transport)'),
+    merchant: z.string().optional().describe('Merchant filter (partial, case-insensitive)'),
+    transactionType: z
+      .enum(['expense', 'income', 'refund'])
+      .optional()
+      .describe('Direction to compare (default expense)'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    periodA: z.object({ dateFrom: z.string(), dateTo: z.string() }).optional(),
+    periodB: z.object({ dateFrom: z.string(), dateTo: z.string() }).optional(),
+    totals: z.array(z.object(deltaSchema)),
+    drivers: z.array(z.object({ merchant: z.string(), ...deltaSchema })),
+    message: z.string().optional(),
+  }),
+  execute: async ({ context, mastra }) => {
+    const logger = mastra?.getLogger();
+    const startTime = Date.now();
+    const { userId, category, merchant, transactionType } = context;
+
+    logger?.info('[tool:compare-periods]', {
+      event: 'start',
+      userId,
+      periodA: `${context.periodAFrom}..${context.periodATo}`,
+      periodB: `${context.periodBFrom}..${context.periodBTo}`,
+      category,
+      merchant,
+      transactionType,
+    });
+
+    try {
+      const comparison = await comparePeriods({
+        userId,
+        periodA: { dateFrom: context.periodAFrom, dateTo: context.periodATo },
+        periodB: { dateFrom: context.periodBFrom, dateTo: context.periodBTo },
+        category,
+        merchant,
+        transactionType,
+      });
+
+      logger?.info('[tool:compare-periods]', {
+        event: 'success',
+        userId,
+        currencies: comparison.totals.length,
+        drivers: comparison.drivers.length,
+        duration: Date.now() - startTime,
+      });
+
+      return {
+        success: true,
+        ...comparison,
+        message:
+          comparison.totals.length === 0
+            ? 'No transactions match these filters in either period'
+            : undefined,
+      };
+    } catch (error) {
+      logger?.error('[tool:compare-periods]', {
+        event: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+
+      return {
+        success: false,
+        totals: [],
+        drivers: [],
+        message: `Failed to compare periods: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  },
+});
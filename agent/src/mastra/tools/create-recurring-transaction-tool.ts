@@ -0,0 +1,104 @@
+/**
+ * Create Recurring Transaction Tool for HilmAI Agent V2
+ *
+ * Stores a schedule ("rent 6000 AED every 1st of the month") that the scheduler
+ * turns into real transactions on each due date. Nothing is saved to the
+ * transactions table here.
+ */
+
+import { createTool } from '@mastra/core';
+import { z } from 'zod';
+import { createRecurringTransaction, describeRecurrence } from '../../services/recurring.service';
+
+export const createRecurringTransactionTool = createTool({
+  id: 'create-recurring-transaction',
+  description:
+    'Create a recurring transaction (rent, salary, subscriptions) that is logged automatically on every due date',
+  inputSchema: z.object({
+    userId: z.number().describe('Telegram user ID'),
+    amount: z.number().positive().describe('Amount of each occurrence'),
+    currency: z.string().describe('Currency code (e.g., AED, USD, SAR)'),
+    merchant: z.string().describe('Merchant, landlord, employer or service (e.g., Netflix)'),
+    category: z.string().describe('Transaction category (e.g., Bills, Subscriptions, Salary)'),
+    transactionType: z
+      .enum(['expense', 'income', 'refund'])
+      .optional()
+      .describe('Money direction: expense (default) or income (e.g., salary)'),
+    description: z.string().optional().describe('Optional notes'),
+    frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']).describe('How often it repeats'),
+    intervalCount: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe('Repeat every N periods (e.g., 2 with weekly = every 2 weeks). Default 1'),
+    dayOfMonth: z
+      .number()
+      .int()
+      .min(1)
+      .max(31)
+      .optional()
+      .describe('Day of month for monthly schedules (e.g., 1 for "every 1st")'),
+    startDate: z
+      .string()
+      .describe(
+        'First occurrence in YYYY-MM-DD (today or later; logged automatically on that day)'
+      ),
+    endDate: z.string().optional().describe('Last possible occurrence in YYYY-MM-DD'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    recurringId: z.string().optional(), // UUID
+    schedule: z.string().optional(),
+    nextRunDate: z.string().optional(),
+    message: z.string(),
+  }),
+  execute: async ({ context, mastra }) => {
+    const logger = mastra?.getLogger();
+    const { userId, frequency, intervalCount = 1, dayOfMonth, startDate, endDate } = context;
+
+    logger?.info('[tool:create-recurring-transaction]', {
+      event: 'start',
+      userId,
+      merchant: context.merchant,
+      frequency,
+      intervalCount,
+      startDate,
+    });
+
+    try {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate) || (endDate && endDate < startDate)) {
+        throw new Error(`Invalid schedule dates: start ${startDate}, end ${endDate ?? 'none'}`);
+      }
+
+      const recurring = await createRecurringTransaction({ ...context, intervalCount });
+      const schedule = describeRecurrence(frequency, intervalCount, recurring.day_of_month);
+
+      logger?.info('[tool:create-recurring-transaction]', {
+        event: 'success',
+        userId,
+        recurringId: recurring.id,
+        nextRunDate: recurring.next_run_date,
+      });
+
+      return {
+        success: true,
+        recurringId: recurring.id,
+        schedule,
+        nextRunDate: recurring.next_run_date,
+        message: `Recurring ${context.merchant} scheduled (${schedule.toLowerCase()}), first on ${recurring.next_run_date}. Manage it with /recurring`,
+      };
+    } catch (error) {
+      logger?.error('[tool:create-recurring-transaction]', {
+        event: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+
+      return {
+        success: false,
+        message: `Failed to create recurring transaction: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  },
+});
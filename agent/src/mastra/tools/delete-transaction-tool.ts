@@ -13,6 +13,7 @@
 import { createTool } from '@mastra/core';
 import { z } from 'zod';
 import { supabaseService } from '../../lib/supabase';
+import { AgentResponseCache } from '../../lib/prompt-cache';
 
 export const deleteTransactionTool = createTool({
   id: 'delete-transaction',
@@ -58,6 +59,8 @@ export const deleteTransactionTool = createTool({
         throw new Error(`Failed to delete transaction: ${deleteError.message}`);
       }
 
+      await AgentResponseCache.bumpDataVersion(userId);
+
       console.log(`[delete-transaction] ✅ Deleted transaction ${transactionId}`);
 
       return {
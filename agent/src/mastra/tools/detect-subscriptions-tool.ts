@@ -0,0 +1,82 @@
+/**
+ * Detect Subscriptions Tool for HilmAI Agent V2
+ *
+ * Finds recurring charges (subscriptions) in the user's expense history so the
+ * query agent can answer "what subscriptions am I paying for?"
+ */
+
+import { createTool } from '@mastra/core';
+import { z } from 'zod';
+import { findUserSubscriptions } from '../../services/subscription-detection.service';
+
+export const detectSubscriptionsTool = createTool({
+  id: 'detect-subscriptions',
+  description:
+    "Detect the user's subscriptions and other recurring charges from transaction history, with cadence, next expected charge, yearly cost and price changes",
+  inputSchema: z.object({
+    userId: z.number().describe('Telegram user ID'),
+    merchant: z
+      .string()
+      .optional()
+      .describe('Only return subscriptions whose merchant contains this text (e.g., Netflix)'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    subscriptions: z.array(
+      z.object({
+        merchant: z.string(),
+        cadence: z.enum(['weekly', 'monthly', 'quarterly', 'yearly']),
+        currency: z.string(),
+        currentAmount: z.number(),
+        yearlyCost: z.number(),
+        chargeCount: z.number(),
+        firstChargeDate: z.string(),
+        lastChargeDate: z.string(),
+        nextExpectedDate: z.string(),
+        priceChanges: z.array(z.object({ date: z.string(), from: z.number(), to: z.number() })),
+      })
+    ),
+    message: z.string().optional(),
+  }),
+  execute: async ({ context, mastra }) => {
+    const logger = mastra?.getLogger();
+    const { userId, merchant } = context;
+
+    try {
+      const detected = await findUserSubscriptions(userId);
+      const subscriptions = merchant
+        ? detected.filter((subscription) =>
+            subscription.merchant.toLowerCase().includes(merchant.trim().toLowerCase())
+          )
+        : detected;
+
+      logger?.info('[tool:detect-subscriptions]', {
+        event: 'success',
+        userId,
+        merchant,
+        subscriptions: subscriptions.length,
+      });
+
+      return {
+        success: true,
+        subscriptions,
+        message:
+          subscriptions.length === 0
+            ? 'No recurring charges found. A subscription is detected after a few regular charges from the same merchant'
+            : undefined,
+      };
+    } catch (error) {
+      logger?.error('[tool:detect-subscriptions]', {
+        event: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+
+      return {
+        success: false,
+        subscriptions: [],
+        message: 'Failed to detect subscriptions',
+      };
+    }
+  },
+});
@@ -3,6 +3,7 @@
  *
  * Updates transaction fields in Supabase
  * Regenerates merchant embedding if merchant name changes
+ * Remembers category corrections as merchant rules for future saves
  *
  * SECURITY:
  * - Uses supabaseService (service role) for unrestricted backend access
@@ -14,6 +15,8 @@ import { createTool } from '@mastra/core';
 import { z } from 'zod';
 import { supabaseService } from '../../lib/supabase';
 import { getMerchantEmbedding } from '../../lib/embeddings';
+import { AgentResponseCache } from '../../lib/prompt-cache';
+import { learnMerchantCategory } from '../../services/merchant-rule.service';
 
 export const editTransactionTool = createTool({
   id: 'edit-transaction',
@@ -25,6 +28,10 @@ export const editTransactionTool = createTool({
     currency: z.string().optional().describe('New currency code (e.g., AED, USD, SAR)'),
     merchant: z.string().optional().describe('New merchant or vendor name'),
     category: z.string().optional().describe('New transaction category'),
+    transactionType: z
+      .enum(['expense', 'income', 'refund'])
+      .optional()
+      .describe('New money direction: expense, income, or refund'),
     description: z.string().optional().describe('New transaction description or notes'),
     transactionDate: z.string().optional().describe('New transaction date in YYYY-MM-DD format'),
   }),
@@ -41,6 +48,7 @@ export const editTransactionTool = createTool({
       currency,
       merchant,
       category,
+      transactionType,
       description,
       transactionDate,
     } = context;
@@ -51,7 +59,7 @@ export const editTransactionTool = createTool({
       // Step 1: Verify transaction belongs to user (security check)
       const { data: existingTransaction, error: fetchError } = await supabaseService
         .from('transactions')
-        .select('user_id, merchant')
+        .select('user_id, merchant, category, transaction_type')
         .eq('id', transactionId)
         .single();
 
@@ -75,6 +83,9 @@ export const editTransactionTool = createTool({
       if (category !== undefined) {
         updatePayload.category = category;
       }
+      if (transactionType !== undefined) {
+        updatePayload.transaction_type = transactionType;
+      }
       if (description !== undefined) {
         updatePayload.description = description || null;
       }
@@ -107,6 +118,22 @@ export const editTransactionTool = createTool({
         throw new Error(`Failed to update transaction: ${error.message}`);
       }
 
+      await AgentResponseCache.bumpDataVersion(userId);
+
+      // Step 5: A category correction becomes a rule for this merchant's future expenses
+      let ruleNote = '';
+      const isExpense = (transactionType ?? existingTransaction.transaction_type) === 'expense';
+      if (isExpense && category !== undefined && category !== existingTransaction.category) {
+        const ruleMerchant = merchant ?? existingTransaction.merchant;
+        try {
+          await learnMerchantCategory(userId, ruleMerchant, category);
+          ruleNote = ` Future ${ruleMerchant} transactions will be categorized as ${category} (see /rules).`;
+        } catch (ruleError) {
+          // The edit itself succeeded; only the learning is lost
+          console.warn('[edit-transaction] Failed to learn merchant rule:', ruleError);
+        }
+      }
+
       const updatedFields = Object.keys(updatePayload).filter(
         (key) => key !== 'merchant_embedding'
       );
@@ -116,7 +143,7 @@ export const editTransactionTool = createTool({
 
       return {
         success: true,
-        message: `Transaction updated successfully. Updated fields: ${updatedFields.join(', ')}`,
+        message: `Transaction updated successfully. Updated fields: ${updatedFields.join(', ')}.${ruleNote}`,
         updatedFields,
       };
     } catch (error) {
@@ -0,0 +1,94 @@
+/**
+ * Forecast Spending Tool for HilmAI Agent V2
+ *
+ * Projects this month's end-of-month spending per category with a low/high range,
+ * from month-to-date spending, upcoming recurring items and past months' curves,
+ * so the query agent can answer "am I on track this month?" with real numbers.
+ */
+
+import { createTool } from '@mastra/core';
+import { z } from 'zod';
+import { getMonthForecast } from '../../services/forecast.service';
+
+export const forecastSpendingTool = createTool({
+  id: 'forecast-spending',
+  description:
+    "Forecast the user's month-end spending (total and per category) with a low-high range, compared with their typical month and budgets",
+  inputSchema: z.object({
+    userId: z.number().describe('Telegram user ID'),
+    category: z
+      .string()
+      .optional()
+      .describe('Only return this category (e.g., Dining). Omit for all categories'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    month: z.string().optional(),
+    currency: z.string().optional(),
+    daysElapsed: z.number().optional(),
+    daysInMonth: z.number().optional(),
+    spentSoFar: z.number().optional(),
+    projected: z.number().optional(),
+    low: z.number().optional(),
+    high: z.number().optional(),
+    typicalMonth: z.number().nullable().optional(),
+    historyMonths: z.number().optional(),
+    categories: z.array(
+      z.object({
+        category: z.string(),
+        spentSoFar: z.number(),
+        recurringRemaining: z.number(),
+        projected: z.number(),
+        low: z.number(),
+        high: z.number(),
+        budget: z.number().nullable(),
+      })
+    ),
+    message: z.string().optional(),
+  }),
+  execute: async ({ context, mastra }) => {
+    const logger = mastra?.getLogger();
+    const { userId, category } = context;
+
+    try {
+      const forecast = await getMonthForecast(userId);
+      const categories = category
+        ? forecast.categories.filter(
+            (item) => item.category.toLowerCase() === category.trim().toLowerCase()
+          )
+        : forecast.categories;
+
+      logger?.info('[tool:forecast-spending]', {
+        event: 'success',
+        userId,
+        category,
+        projected: forecast.projected,
+        historyMonths: forecast.historyMonths,
+      });
+
+      return {
+        success: true,
+        ...forecast,
+        categories,
+        message:
+          forecast.categories.length === 0
+            ? 'No spending this month or in recent months to forecast from'
+            : category && categories.length === 0
+              ? `No ${category} spending this month or in recent months`
+              : undefined,
+      };
+    } catch (error) {
+      logger?.error('[tool:forecast-spending]', {
+        event: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+
+      return {
+        success: false,
+        categories: [],
+        message: 'Failed to forecast spending',
+      };
+    }
+  },
+});
@@ -0,0 +1,94 @@
+/**
+ * Generate Chart Tool for HilmAI Agent V2
+ *
+ * Renders a spending chart (category pie, monthly bars or daily trend) and sends
+ * it to the user as a photo with a summary caption. The agent only receives the
+ * summary, so its text reply should not repeat the chart.
+ */
+
+import { createTool } from '@mastra/core';
+import { z } from 'zod';
+import { messages } from '../../lib/messages';
+import { createSpendingChart } from '../../services/chart.service';
+import { sendProactivePhoto } from '../../services/notification.service';
+
+export const generateChartTool = createTool({
+  id: 'generate-chart',
+  description:
+    'Send the user a spending chart image: "category" (pie by category), "monthly" (bar per month) or "daily" (trend line per day)',
+  inputSchema: z.object({
+    userId: z.number().describe('Telegram user ID'),
+    chartType: z
+      .enum(['category', 'monthly', 'daily'])
+      .describe('category = breakdown pie, monthly = bars per month, daily = day-by-day trend'),
+    dateFrom: z
+      .string()
+      .optional()
+      .describe(
+        'Start date YYYY-MM-DD (default: this month for category, last 6 months for monthly, last 30 days for daily)'
+      ),
+    dateTo: z.string().optional().describe('End date YYYY-MM-DD (default: today)'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    sent: z.boolean(),
+    total: z.number().optional(),
+    currency: z.string().optional(),
+    summary: z.string().optional(),
+    message: z.string(),
+  }),
+  execute: async ({ context, mastra }) => {
+    const logger = mastra?.getLogger();
+    const { userId, chartType, dateFrom, dateTo } = context;
+
+    logger?.info('[tool:generate-chart]', { event: 'start', userId, chartType, dateFrom, dateTo });
+
+    try {
+      const chart = await createSpendingChart(userId, chartType, { dateFrom, dateTo });
+
+      if (!chart) {
+        return {
+          success: true,
+          sent: false,
+          message: 'No expenses in this period, so no chart was sent',
+        };
+      }
+
+      const summary = messages.charts.caption(
+        chartType,
+        chart.total,
+        chart.spec.currency,
+        chart.spec.points
+      );
+      const sent = await sendProactivePhoto(userId, chart.png, {
+        caption: summary,
+        parse_mode: 'Markdown',
+      });
+
+      logger?.info('[tool:generate-chart]', { event: 'success', userId, chartType, sent });
+
+      return {
+        success: true,
+        sent,
+        total: chart.total,
+        currency: chart.spec.currency,
+        summary,
+        message: sent
+          ? `Chart sent (${chart.dateFrom} to ${chart.dateTo}) with the summary as caption`
+          : 'Chart could not be delivered; answer with the summary in text instead',
+      };
+    } catch (error) {
+      logger?.error('[tool:generate-chart]', {
+        event: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+
+      return {
+        success: false,
+        sent: false,
+        message: `Failed to generate chart: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  },
+});
@@ -28,6 +28,10 @@ export const hybridQueryTool = createTool({
     dateTo: z.string().optional().describe('End date filter (YYYY-MM-DD)'),
     minAmount: z.number().optional().describe('Minimum amount filter'),
     maxAmount: z.number().optional().describe('Maximum amount filter'),
+    transactionType: z
+      .enum(['expense', 'income', 'refund'])
+      .optional()
+      .describe('Direction filter: expense, income, or refund (omit to include all)'),
     limit: z.number().default(50).describe('Maximum number of results'),
     useFuzzy: z
       .boolean()
@@ -46,6 +50,7 @@ export const hybridQueryTool = createTool({
         category: z.string(),
         description: z.string().nullable(),
         transaction_date: z.string(),
+        transaction_type: z.enum(['expense', 'income', 'refund']),
         similarity: z.number(),
         original_amount: z.number().nullable().optional(),
         original_currency: z.string().nullable().optional(),
@@ -70,6 +75,7 @@ export const hybridQueryTool = createTool({
       dateTo,
       minAmount,
       maxAmount,
+      transactionType,
       limit,
       useFuzzy,
     } = context;
@@ -86,6 +92,7 @@ export const hybridQueryTool = createTool({
         dateTo,
         minAmount,
         maxAmount,
+        transactionType,
         limit,
       });
 
@@ -113,6 +120,7 @@ export const hybridQueryTool = createTool({
           dateTo,
           minAmount,
           maxAmount,
+          transactionType,
           similarityThreshold: 0.6, // Adjust based on testing
           limit,
         });
@@ -141,6 +149,7 @@ export const hybridQueryTool = createTool({
           dateTo,
           minAmount,
           maxAmount,
+          transactionType,
           limit,
         });
 
@@ -0,0 +1,89 @@
+/**
+ * Item Spending Tool for HilmAI Agent V2
+ *
+ * Answers item-level questions from receipt line items (transaction_items),
+ * e.g. "how much did I spend on milk this year?" or "how has the price of eggs changed?"
+ */
+
+import { createTool } from '@mastra/core';
+import { z } from 'zod';
+import { getItemSpending } from '../../services/transaction-items.service';
+
+export const itemSpendingTool = createTool({
+  id: 'item-spending',
+  description:
+    'Get spending on a specific item from itemized receipts (totals per currency plus every purchase with date, merchant and unit price for price history)',
+  inputSchema: z.object({
+    userId: z.number().describe('Telegram user ID'),
+    itemName: z.string().describe('Item to look up (e.g., "milk", "eggs"). Partial match'),
+    dateFrom: z.string().optional().describe('Start date YYYY-MM-DD'),
+    dateTo: z.string().optional().describe('End date YYYY-MM-DD'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    totalsByCurrency: z.array(
+      z.object({
+        currency: z.string(),
+        total: z.number(),
+        quantity: z.number(),
+      })
+    ),
+    purchases: z.array(
+      z.object({
+        name: z.string(),
+        quantity: z.number(),
+        unitPrice: z.number().nullable(),
+        totalPrice: z.number(),
+        currency: z.string(),
+        merchant: z.string(),
+        transactionDate: z.string(),
+        displayId: z.number(),
+      })
+    ),
+    message: z.string().optional(),
+  }),
+  execute: async ({ context, mastra }) => {
+    const logger = mastra?.getLogger();
+    const { userId, itemName, dateFrom, dateTo } = context;
+
+    try {
+      const { totalsByCurrency, purchases } = await getItemSpending(
+        userId,
+        itemName,
+        dateFrom,
+        dateTo
+      );
+
+      logger?.info('[tool:item-spending]', {
+        event: 'success',
+        userId,
+        itemName,
+        purchases: purchases.length,
+      });
+
+      return {
+        success: true,
+        totalsByCurrency,
+        purchases,
+        message:
+          purchases.length === 0
+            ? `No receipt items matching "${itemName}". Item details are only available for receipts sent as photos.`
+            : undefined,
+      };
+    } catch (error) {
+      logger?.error('[tool:item-spending]', {
+        event: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        itemName,
+      });
+
+      return {
+        success: false,
+        totalsByCurrency: [],
+        purchases: [],
+        message: 'Failed to fetch item spending',
+      };
+    }
+  },
+});
@@ -0,0 +1,92 @@
+/**
+ * Request Clarification Tool for HilmAI Agent V2
+ *
+ * Used instead of saveTransaction when a message is missing its amount or merchant.
+ * Persists what was understood so the user's answer to the follow-up question resumes
+ * this transaction. Nothing is saved to the transactions table here.
+ */
+
+import { createTool } from '@mastra/core';
+import { z } from 'zod';
+import { createClarification } from '../../services/transaction-clarification.service';
+import { messages } from '../../lib/messages';
+
+export const requestClarificationTool = createTool({
+  id: 'request-clarification',
+  description:
+    'Ask the user for a missing amount or merchant instead of guessing. Pass every detail already understood.',
+  inputSchema: z.object({
+    userId: z.number().describe('Telegram user ID'),
+    missingFields: z
+      .array(z.enum(['amount', 'merchant']))
+      .min(1)
+      .describe('Required details the message does not contain'),
+    amount: z.number().optional().describe('Amount, if given'),
+    currency: z.string().optional().describe('Currency code, if given'),
+    merchant: z.string().optional().describe('Merchant, vendor, or income source, if given'),
+    category: z.string().optional().describe('Inferred category, if any'),
+    transactionType: z
+      .enum(['expense', 'income', 'refund'])
+      .optional()
+      .describe('Money direction, if clear'),
+    description: z.string().optional().describe('Optional notes'),
+    transactionDate: z.string().optional().describe('Resolved date in YYYY-MM-DD format'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    clarificationId: z.string().optional(), // UUID
+    question: z.string().optional(),
+    message: z.string(),
+  }),
+  execute: async ({ context, mastra, runtimeContext }) => {
+    const logger = mastra?.getLogger();
+    const { userId, missingFields, ...knownFields } = context;
+
+    logger?.info('[tool:request-clarification]', {
+      event: 'start',
+      userId,
+      missingFields,
+      merchant: knownFields.merchant,
+    });
+
+    try {
+      // Set by the workflow: the message the user actually sent
+      const sourceText = runtimeContext?.get('messageText') as string | undefined;
+      if (!sourceText) {
+        throw new Error('Original message text missing from runtime context');
+      }
+
+      const clarificationId = await createClarification(
+        userId,
+        sourceText,
+        knownFields,
+        missingFields
+      );
+      const question = messages.clarification.question(missingFields, knownFields.merchant);
+
+      logger?.info('[tool:request-clarification]', {
+        event: 'success',
+        userId,
+        clarificationId,
+      });
+
+      return {
+        success: true,
+        clarificationId,
+        question,
+        message: `NOT saved yet. Reply only with this question: ${question}`,
+      };
+    } catch (error) {
+      logger?.error('[tool:request-clarification]', {
+        event: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+
+      return {
+        success: false,
+        message: `Failed to store clarification: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  },
+});
@@ -0,0 +1,70 @@
+/**
+ * Resolve Date Range Tool for HilmAI Agent V2
+ *
+ * Turns a date phrase from the user's message ("last month", "since Ramadan
+ * started", "Q3", "the 5th") into exact dateFrom/dateTo values in the user's
+ * timezone, so agents never do calendar math themselves.
+ */
+
+import { createTool } from '@mastra/core';
+import { z } from 'zod';
+import { parseDateRange } from '../../lib/date-range-parser';
+import { getUserTimezone } from '../../services/user.service';
+
+export const resolveDateRangeTool = createTool({
+  id: 'resolve-date-range',
+  description:
+    'Convert a natural-language date phrase (e.g. "last week", "this month", "Q3", "the 5th", "since Ramadan started") into exact dateFrom/dateTo (YYYY-MM-DD) in the user\'s timezone',
+  inputSchema: z.object({
+    userId: z.number().describe('Telegram user ID'),
+    phrase: z
+      .string()
+      .describe('Only the date part of the message, e.g. "last month" or "from March to May"'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    dateFrom: z.string().optional(),
+    dateTo: z.string().optional(),
+    label: z.string().optional(),
+    message: z.string().optional(),
+  }),
+  execute: async ({ context, mastra }) => {
+    const logger = mastra?.getLogger();
+    const { userId, phrase } = context;
+
+    try {
+      const timezone = await getUserTimezone(userId);
+      const range = parseDateRange(phrase, { timezone });
+
+      logger?.info('[tool:resolve-date-range]', {
+        event: range ? 'resolved' : 'unrecognized',
+        userId,
+        phrase,
+        timezone,
+        dateFrom: range?.dateFrom,
+        dateTo: range?.dateTo,
+      });
+
+      if (!range) {
+        return {
+          success: false,
+          message: `Could not resolve "${phrase}" to dates. Ask the user for a specific date or month.`,
+        };
+      }
+
+      return { success: true, ...range };
+    } catch (error) {
+      logger?.error('[tool:resolve-date-range]', {
+        event: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        phrase,
+      });
+
+      return {
+        success: false,
+        message: 'Failed to resolve date range',
+      };
+    }
+  },
+});
@@ -14,8 +14,18 @@ import { createTool } from '@mastra/core';
 import { z } from 'zod';
 import { supabaseService } from '../../lib/supabase';
 import { getMerchantEmbedding } from '../../lib/embeddings';
-import { getUserDefaultCurrency, convertCurrency, normalizeCurrency } from '../../lib/currency';
+import {
+  getUserDefaultCurrency,
+  convertCurrency,
+  normalizeCurrency,
+  type RateSource,
+} from '../../lib/currency';
 import { insertTransactionWithRetry, type TransactionInsertPayload } from '../../services/transaction.service';
+import { checkBudgetAfterSave } from '../../services/budget.service';
+import { checkSpendingAfterSave } from '../../services/spending-alert.service';
+import { saveTransactionItems } from '../../services/transaction-items.service';
+import { createTransactionDraft } from '../../services/transaction-draft.service';
+import { applyMerchantRules } from '../../services/merchant-rule.service';
 
 export const saveTransactionTool = createTool({
   id: 'save-transaction',
@@ -24,10 +34,29 @@ export const saveTransactionTool = createTool({
     userId: z.number().describe('Telegram user ID'),
     amount: z.number().describe('Transaction amount'),
     currency: z.string().default('AED').describe('Currency code (e.g., AED, USD, SAR)'),
-    merchant: z.string().describe('Merchant or vendor name'),
-    category: z.string().describe('Transaction category (e.g., Groceries, Dining, Transport)'),
+    merchant: z.string().describe('Merchant, vendor, or income source (e.g., employer, client)'),
+    category: z.string().describe('Transaction category (e.g., Groceries, Dining, Salary)'),
+    transactionType: z
+      .enum(['expense', 'income', 'refund'])
+      .optional()
+      .describe(
+        'Money direction: expense (paid out, default), income (received), refund (money back)'
+      ),
     description: z.string().optional().describe('Optional transaction description or notes'),
     transactionDate: z.string().describe('Transaction date in YYYY-MM-DD format'),
+    items: z
+      .array(
+        z.object({
+          name: z.string().describe('Item name (e.g., Milk 1L)'),
+          quantity: z.number().optional().describe('Quantity purchased (default 1)'),
+          unitPrice: z.number().nullable().optional().describe('Price per unit'),
+          totalPrice: z.number().describe('Line total after item discount'),
+          discount: z.number().optional().describe('Item discount'),
+          tax: z.number().optional().describe('Item tax'),
+        })
+      )
+      .optional()
+      .describe('Receipt line items from "Items JSON" (photo receipts only), in receipt currency'),
     telegramChatId: z.number().optional().describe('Telegram chat ID'),
     telegramUsername: z.string().optional().describe('Telegram username'),
     firstName: z.string().optional().describe('User first name'),
@@ -36,6 +65,9 @@ export const saveTransactionTool = createTool({
   outputSchema: z.object({
     success: z.boolean(),
     transactionId: z.string().optional(), // UUID
+    displayId: z.number().optional(), // User-facing sequential ID
+    itemsSaved: z.number().optional(),
+    draftId: z.string().optional(), // Set instead of transactionId when review-before-save is on
     message: z.string(),
   }),
   execute: async ({ context, mastra, runtimeContext }) => {
@@ -52,9 +84,11 @@ export const saveTransactionTool = createTool({
       amount,
       currency,
       merchant,
-      category,
+      category: agentCategory,
+      transactionType = 'expense',
       description,
       transactionDate,
+      items,
       telegramChatId,
       telegramUsername,
       firstName,
@@ -67,7 +101,8 @@ export const saveTransactionTool = createTool({
       amount,
       currency,
       merchant,
-      category,
+      category: agentCategory,
+      transactionType,
       transactionDate,
     });
 
@@ -86,6 +121,57 @@ export const saveTransactionTool = createTool({
         throw new Error('Transaction date is required to save a transaction.');
       }
 
+      // A category the user corrected for this merchant before (/rules) beats the agent's guess;
+      // a confirmed draft already carries the rule's or the user's own pick
+      let category = agentCategory;
+      if (runtimeContext?.get('confirmedDraft') !== true) {
+        try {
+          const ruled = await applyMerchantRules(userId, [
+            { merchant, category: agentCategory, transactionType },
+          ]);
+          if (ruled.applied > 0) {
+            category = ruled.transactions[0].category;
+            logger?.info('[tool:save-transaction]', {
+              event: 'merchant_rule_applied',
+              userId,
+              merchant,
+              agentCategory,
+              category,
+            });
+          }
+        } catch (ruleError) {
+          logger?.warn('[tool:save-transaction]', {
+            event: 'merchant_rule_lookup_failed',
+            userId,
+            error: ruleError instanceof Error ? ruleError.message : String(ruleError),
+          });
+        }
+      }
+
+      // Review-before-save: persist a draft; the user's Confirm button performs the real save
+      if (runtimeContext?.get('reviewBeforeSave') === true) {
+        const draftId = await createTransactionDraft(userId, [
+          {
+            amount,
+            currency,
+            merchant,
+            category,
+            transactionType,
+            description,
+            transactionDate,
+            items,
+          },
+        ]);
+
+        logger?.info('[tool:save-transaction]', { event: 'draft_created', userId, draftId });
+
+        return {
+          success: true,
+          draftId,
+          message: 'Draft created. NOT saved yet - the user will review it and tap Confirm.',
+        };
+      }
+
       // Step 0: Ensure user exists before writing the transaction
       const userPayload: {
         id: number;
@@ -185,6 +271,8 @@ export const saveTransactionTool = createTool({
       let convertedAmount: number | null = null;
       let conversionRate: number | null = null;
       let convertedAt: string | null = null;
+      let conversionRateSource: RateSource | null = null;
+      let conversionRateDate: string | null = null;
 
       // Perform currency conversion if transaction currency differs from user's default
       if (normalizedCurrency !== userDefaultCurrency) {
@@ -200,7 +288,12 @@ export const saveTransactionTool = createTool({
         });
 
         try {
-          const conversion = await convertCurrency(amount, normalizedCurrency, userDefaultCurrency);
+          const conversion = await convertCurrency(
+            amount,
+            normalizedCurrency,
+            userDefaultCurrency,
+            transactionDate
+          );
 
           // Store original values
           originalAmount = amount;
@@ -210,6 +303,8 @@ export const saveTransactionTool = createTool({
           convertedAmount = conversion.convertedAmount;
           conversionRate = conversion.rate;
           convertedAt = new Date().toISOString();
+          conversionRateSource = conversion.source;
+          conversionRateDate = conversion.rateDate;
 
           // Use converted amount as the primary amount for reporting
           finalAmount = conversion.convertedAmount;
@@ -223,6 +318,8 @@ export const saveTransactionTool = createTool({
             originalAmount: amount,
             convertedAmount: conversion.convertedAmount,
             rate: conversion.rate,
+            rateSource: conversion.source,
+            rateDate: conversion.rateDate,
             userId,
           });
         } catch (conversionError) {
@@ -259,6 +356,7 @@ export const saveTransactionTool = createTool({
         category,
         description: description || null,
         transaction_date: transactionDate,
+        transaction_type: transactionType,
         merchant_embedding: merchantEmbedding,
         // Currency conversion tracking
         original_amount: originalAmount,
@@ -266,13 +364,16 @@ export const saveTransactionTool = createTool({
         converted_amount: convertedAmount,
         conversion_rate: conversionRate,
         converted_at: convertedAt,
+        conversion_rate_source: conversionRateSource,
+        conversion_rate_date: conversionRateDate,
       };
 
       // Use transaction service for insert with retry logic
-      const { transactionId, duration: dbInsertDuration } = await insertTransactionWithRetry(
-        transactionPayload,
-        logger
-      );
+      const {
+        transactionId,
+        displayId,
+        duration: dbInsertDuration,
+      } = await insertTransactionWithRetry(transactionPayload, logger);
 
       logger?.info('[tool:performance]', {
         operation: 'database_insert',
@@ -282,6 +383,37 @@ export const saveTransactionTool = createTool({
 
       // transactionId already retrieved from insertTransactionWithRetry
 
+      // Step 4: Save receipt line items (non-fatal - the transaction is already saved)
+      let itemsSaved = 0;
+      if (items && items.length > 0) {
+        try {
+          itemsSaved = await saveTransactionItems(
+            transactionId,
+            userId,
+            normalizedCurrency,
+            items,
+            logger
+          );
+        } catch (itemsError) {
+          logger?.warn('[tool:save-transaction]', {
+            event: 'items_save_failed',
+            error: itemsError instanceof Error ? itemsError.message : String(itemsError),
+            transactionId,
+            userId,
+          });
+        }
+      }
+
+      // Fire-and-forget: budget threshold and unusual spending alerts must not delay or fail the save
+      if (transactionType === 'expense') {
+        void checkBudgetAfterSave(userId, category, logger);
+        void checkSpendingAfterSave(
+          userId,
+          { transactionId, amount: finalAmount, currency: userDefaultCurrency, merchant, category },
+          logger
+        );
+      }
+
       const totalDuration = Date.now() - toolStartTime;
       logger?.info('[tool:performance]', {
         operation: 'save_transaction_complete',
@@ -293,6 +425,7 @@ export const saveTransactionTool = createTool({
       logger?.info('[tool:save-transaction]', {
         event: 'success',
         transactionId,
+        displayId,
         userId,
         finalAmount,
         finalCurrency: userDefaultCurrency,
@@ -300,14 +433,22 @@ export const saveTransactionTool = createTool({
       });
 
       // Build success message with conversion info if applicable
-      let successMessage = `Transaction saved successfully (ID: ${transactionId})`;
+      let successMessage = `Transaction #${displayId} saved successfully (ID: ${transactionId})`;
+      if (category !== agentCategory) {
+        successMessage += `. Category set to ${category} by the user's rule for ${merchant}`;
+      }
       if (originalAmount && originalCurrency) {
         successMessage += `. Converted ${originalAmount} ${originalCurrency} to ${finalAmount} ${userDefaultCurrency}`;
       }
+      if (itemsSaved > 0) {
+        successMessage += `. Saved ${itemsSaved} receipt items`;
+      }
 
       return {
         success: true,
         transactionId,
+        displayId,
+        itemsSaved,
         message: successMessage,
       };
     } catch (error) {
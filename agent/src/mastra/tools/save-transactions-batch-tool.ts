@@ -0,0 +1,391 @@
+/**
+ * Save Transactions Batch Tool for HilmAI Agent V2
+ *
+ * Saves several transactions from one message ("coffee 15, taxi 40 and lunch 65")
+ * in a single database round-trip. Embeddings and currency conversion are done
+ * in parallel before the insert.
+ *
+ * SECURITY:
+ * - Uses supabaseService (service role) for unrestricted backend access
+ * - Server-side user_id validation (validates userId parameter)
+ * - RLS policies provide defense in depth even with service role
+ */
+
+import { createTool } from '@mastra/core';
+import { z } from 'zod';
+import { supabaseService } from '../../lib/supabase';
+import { getMerchantEmbedding } from '../../lib/embeddings';
+import { getUserDefaultCurrency, convertCurrency, normalizeCurrency } from '../../lib/currency';
+import {
+  insertTransactionWithRetry,
+  type TransactionInsertPayload,
+} from '../../services/transaction.service';
+import { checkBudgetAfterSave } from '../../services/budget.service';
+import { checkSpendingAfterSave } from '../../services/spending-alert.service';
+import { createTransactionDraft } from '../../services/transaction-draft.service';
+import { applyMerchantRules } from '../../services/merchant-rule.service';
+
+const batchTransactionSchema = z.object({
+  amount: z.number().describe('Transaction amount'),
+  currency: z.string().describe('Currency code (e.g., AED, USD, SAR)'),
+  merchant: z.string().describe('Merchant, vendor, or income source'),
+  category: z.string().describe('Transaction category (e.g., Groceries, Dining, Salary)'),
+  transactionType: z
+    .enum(['expense', 'income', 'refund'])
+    .optional()
+    .describe('Money direction: expense (default), income, or refund'),
+  description: z.string().optional().describe('Optional transaction description or notes'),
+  transactionDate: z.string().describe('Transaction date in YYYY-MM-DD format'),
+});
+
+export const saveTransactionsBatchTool = createTool({
+  id: 'save-transactions-batch',
+  description:
+    'Save 2 or more transactions from one message in a single database call. Use instead of calling saveTransaction repeatedly.',
+  inputSchema: z.object({
+    userId: z.number().describe('Telegram user ID'),
+    transactions: z.array(batchTransactionSchema).min(1).describe('All transactions to save'),
+    telegramChatId: z.number().optional().describe('Telegram chat ID'),
+    telegramUsername: z.string().optional().describe('Telegram username'),
+    firstName: z.string().optional().describe('User first name'),
+    lastName: z.string().nullable().optional().describe('User last name'),
+  }),
+  outputSchema: z.object({
+    success: z.boolean(),
+    saved: z.array(
+      z.object({
+        transactionId: z.string(), // UUID
+        displayId: z.number(),
+        merchant: z.string(),
+        amount: z.number(),
+        currency: z.string(),
+        category: z.string(),
+        transactionType: z.enum(['expense', 'income', 'refund']),
+        transactionDate: z.string(),
+        originalAmount: z.number().nullable(),
+        originalCurrency: z.string().nullable(),
+      })
+    ),
+    draftId: z.string().optional(), // Set instead of saved[] when review-before-save is on
+    message: z.string(),
+  }),
+  execute: async ({ context, mastra, runtimeContext }) => {
+    const logger = mastra?.getLogger();
+    const toolStartTime = Date.now();
+
+    const progressEmitter = runtimeContext?.get('progressEmitter') as
+      | ((
+          stage:
+            | 'start'
+            | 'categorized'
+            | 'analyzing'
+            | 'currencyConversion'
+            | 'saving'
+            | 'finalizing'
+        ) => void)
+      | undefined;
+
+    const { userId, telegramChatId, telegramUsername, firstName, lastName } = context;
+    let { transactions } = context;
+
+    logger?.info('[tool:save-transactions-batch]', {
+      event: 'start',
+      userId,
+      count: transactions.length,
+    });
+
+    try {
+      if (!userId || Number.isNaN(userId)) {
+        throw new Error(
+          'Invalid or missing userId when saving transactions. Ensure the caller forwards the Telegram chat id.'
+        );
+      }
+
+      if (transactions.length === 0) {
+        throw new Error('At least one transaction is required.');
+      }
+
+      for (const tx of transactions) {
+        if (!tx.merchant || tx.merchant.trim().length === 0) {
+          throw new Error('Merchant name is required for every transaction.');
+        }
+        if (!tx.transactionDate) {
+          throw new Error('Transaction date is required for every transaction.');
+        }
+      }
+
+      // Categories the user corrected for these merchants before (/rules) beat the agent's
+      // guesses; a confirmed draft already carries the rules' or the user's own picks
+      if (runtimeContext?.get('confirmedDraft') !== true) {
+        try {
+          const ruled = await applyMerchantRules(userId, transactions);
+          if (ruled.applied > 0) {
+            transactions = ruled.transactions;
+            logger?.info('[tool:save-transactions-batch]', {
+              event: 'merchant_rules_applied',
+              userId,
+              applied: ruled.applied,
+            });
+          }
+        } catch (ruleError) {
+          logger?.warn('[tool:save-transactions-batch]', {
+            event: 'merchant_rule_lookup_failed',
+            userId,
+            error: ruleError instanceof Error ? ruleError.message : String(ruleError),
+          });
+        }
+      }
+
+      // Review-before-save: persist one draft for the whole message
+      if (runtimeContext?.get('reviewBeforeSave') === true) {
+        const draftId = await createTransactionDraft(userId, transactions);
+
+        logger?.info('[tool:save-transactions-batch]', {
+          event: 'draft_created',
+          userId,
+          draftId,
+          count: transactions.length,
+        });
+
+        return {
+          success: true,
+          saved: [],
+          draftId,
+          message: `Draft with ${transactions.length} transactions created. NOT saved yet - the user will review it and tap Confirm.`,
+        };
+      }
+
+      // Step 0: Ensure user exists before writing the transactions
+      const userPayload: {
+        id: number;
+        telegram_chat_id: number | null;
+        telegram_username?: string | null;
+        first_name?: string | null;
+        last_name?: string | null;
+      } = {
+        id: userId,
+        telegram_chat_id: telegramChatId ?? userId,
+      };
+
+      if (telegramUsername !== undefined) {
+        userPayload.telegram_username = telegramUsername;
+      }
+      if (firstName !== undefined) {
+        userPayload.first_name = firstName;
+      }
+      if (lastName !== undefined) {
+        userPayload.last_name = lastName;
+      }
+
+      // Step 1: Embeddings (one per distinct merchant), user upsert and default currency in parallel
+      const prepareStart = Date.now();
+      const merchants = [...new Set(transactions.map((tx) => tx.merchant))];
+      const [embeddingResults, userUpsertResult, userDefaultCurrency] = await Promise.all([
+        Promise.allSettled(merchants.map((merchant) => getMerchantEmbedding(merchant))),
+        supabaseService.from('users').upsert([userPayload]),
+        getUserDefaultCurrency(userId),
+      ]);
+
+      if (userUpsertResult.error) {
+        throw new Error(
+          `Failed to sync user profile before saving transactions: ${userUpsertResult.error.message}`
+        );
+      }
+
+      const embeddings = new Map<string, number[] | null>();
+      merchants.forEach((merchant, index) => {
+        const result = embeddingResults[index];
+        if (result.status === 'fulfilled') {
+          embeddings.set(merchant, result.value);
+        } else {
+          embeddings.set(merchant, null);
+          logger?.warn('[tool:save-transactions-batch]', {
+            event: 'embedding_failed',
+            reason: result.reason instanceof Error ? result.reason.message : String(result.reason),
+            userId,
+            merchant,
+          });
+        }
+      });
+
+      logger?.info('[tool:performance]', {
+        operation: 'batch_prepare',
+        duration: Date.now() - prepareStart,
+        userId,
+        merchants: merchants.length,
+      });
+
+      // Step 2: Convert each transaction to the user's default currency
+      if (
+        transactions.some(
+          (tx) =>
+            (normalizeCurrency(tx.currency) || tx.currency.toUpperCase()) !== userDefaultCurrency
+        )
+      ) {
+        progressEmitter?.('currencyConversion');
+      }
+
+      const convertedAt = new Date().toISOString();
+      const payloads: TransactionInsertPayload[] = await Promise.all(
+        transactions.map(async (tx) => {
+          const normalizedCurrency = normalizeCurrency(tx.currency) || tx.currency.toUpperCase();
+          const basePayload = {
+            user_id: userId,
+            merchant: tx.merchant,
+            category: tx.category,
+            description: tx.description || null,
+            transaction_date: tx.transactionDate,
+            transaction_type: tx.transactionType ?? 'expense',
+            merchant_embedding: embeddings.get(tx.merchant) ?? null,
+          };
+
+          if (normalizedCurrency === userDefaultCurrency) {
+            return {
+              ...basePayload,
+              amount: tx.amount,
+              currency: userDefaultCurrency,
+              original_amount: null,
+              original_currency: null,
+              converted_amount: null,
+              conversion_rate: null,
+              converted_at: null,
+              conversion_rate_source: null,
+              conversion_rate_date: null,
+            };
+          }
+
+          try {
+            const conversion = await convertCurrency(
+              tx.amount,
+              normalizedCurrency,
+              userDefaultCurrency,
+              tx.transactionDate
+            );
+            return {
+              ...basePayload,
+              amount: conversion.convertedAmount,
+              currency: userDefaultCurrency,
+              original_amount: tx.amount,
+              original_currency: normalizedCurrency,
+              converted_amount: conversion.convertedAmount,
+              conversion_rate: conversion.rate,
+              converted_at: convertedAt,
+              conversion_rate_source: conversion.source,
+              conversion_rate_date: conversion.rateDate,
+            };
+          } catch (conversionError) {
+            // Log conversion error but don't fail - use original amount
+            logger?.warn('[tool:save-transactions-batch]', {
+              event: 'currency_conversion_failed',
+              error:
+                conversionError instanceof Error
+                  ? conversionError.message
+                  : String(conversionError),
+              from: normalizedCurrency,
+              to: userDefaultCurrency,
+              userId,
+            });
+            return {
+              ...basePayload,
+              amount: tx.amount,
+              currency: userDefaultCurrency,
+              original_amount: null,
+              original_currency: null,
+              converted_amount: null,
+              conversion_rate: null,
+              converted_at: null,
+              conversion_rate_source: null,
+              conversion_rate_date: null,
+            };
+          }
+        })
+      );
+
+      // Step 3: Insert all rows in one round-trip
+      progressEmitter?.('saving');
+
+      const { transactions: inserted, duration: dbInsertDuration } =
+        await insertTransactionWithRetry(payloads, logger);
+
+      logger?.info('[tool:performance]', {
+        operation: 'database_batch_insert',
+        duration: dbInsertDuration,
+        userId,
+        count: inserted.length,
+      });
+
+      const saved = inserted.map((row, index) => ({
+        transactionId: row.transactionId,
+        displayId: row.displayId,
+        merchant: payloads[index].merchant,
+        amount: payloads[index].amount,
+        currency: payloads[index].currency,
+        category: payloads[index].category,
+        transactionType: payloads[index].transaction_type,
+        transactionDate: payloads[index].transaction_date,
+        originalAmount: payloads[index].original_amount,
+        originalCurrency: payloads[index].original_currency,
+      }));
+
+      // Fire-and-forget: one budget check per expense category, and an unusual spending
+      // check per expense (same alerts as a single save)
+      const expenses = saved.filter((tx) => tx.transactionType === 'expense');
+      for (const category of new Set(expenses.map((tx) => tx.category))) {
+        void checkBudgetAfterSave(userId, category, logger);
+      }
+      for (const tx of expenses) {
+        void checkSpendingAfterSave(
+          userId,
+          {
+            transactionId: tx.transactionId,
+            amount: tx.amount,
+            currency: tx.currency,
+            merchant: tx.merchant,
+            category: tx.category,
+          },
+          logger
+        );
+      }
+
+      logger?.info('[tool:performance]', {
+        operation: 'save_transactions_batch_complete',
+        duration: Date.now() - toolStartTime,
+        userId,
+        count: saved.length,
+      });
+
+      const lines = saved.map((tx) => {
+        const converted =
+          tx.originalAmount !== null && tx.originalCurrency
+            ? ` (converted from ${tx.originalAmount} ${tx.originalCurrency})`
+            : '';
+        return `#${tx.displayId} ${tx.merchant} - ${tx.amount} ${tx.currency}${converted}, ${tx.category}, ${tx.transactionDate}`;
+      });
+
+      return {
+        success: true,
+        saved,
+        message: `Saved ${saved.length} transactions:\n${lines.join('\n')}`,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      logger?.error('[tool:save-transactions-batch]', {
+        event: 'error',
+        error: errorMessage,
+        duration: Date.now() - toolStartTime,
+        userId,
+      });
+
+      const userFriendlyMessage = errorMessage.includes('display_id race condition')
+        ? 'Failed to save transactions due to a temporary conflict. Please try again.'
+        : `Failed to save transactions: ${errorMessage}`;
+
+      return {
+        success: false,
+        saved: [],
+        message: userFriendlyMessage,
+      };
+    }
+  },
+});
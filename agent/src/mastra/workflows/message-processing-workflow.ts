@@ -27,11 +27,33 @@ import { subDays } from 'date-fns';
 
 import { openai } from '../../lib/openai';
 import { deleteFile } from '../../lib/file-utils';
-import { AgentResponseCache } from '../../lib/prompt-cache';
+import { AgentResponseCache, type CachedAgentResponse } from '../../lib/prompt-cache';
+import { SemanticResponseCache } from '../../lib/semantic-cache';
+import { searchTransactionsSQL } from '../../lib/embeddings';
 import { shouldCacheResponse } from '../../lib/input-normalization';
 import { getUserDefaultCurrency } from '../../lib/currency';
 import { getUserMode, type UserMode } from '../../lib/user-mode';
+import { classifyIntent } from '../../lib/intent-router';
 import { buildMemoryThreadIds } from '../../lib/memory-factory';
+import {
+  buildTransactionActionsKeyboard,
+  buildDraftKeyboard,
+  buildShowTransactionsKeyboard,
+} from '../../lib/transaction-format';
+import { messages } from '../../lib/messages';
+import { getReviewBeforeSave } from '../../services/user.service';
+import { getPendingDraft } from '../../services/transaction-draft.service';
+import {
+  getPendingClarification,
+  resolveClarification,
+  isClarificationAnswer,
+  buildResumedMessage,
+} from '../../services/transaction-clarification.service';
+import {
+  RECEIPT_EXTRACTION_PROMPT,
+  parseReceiptExtraction,
+  formatReceiptForAgent,
+} from '../../lib/receipt-extraction';
 
 /**
  * Shared schemas and types
@@ -233,7 +255,7 @@ const transcribeVoiceStep = createStep({
 });
 
 /**
- * STEP 2B: Extract text from receipt photo
+ * STEP 2B: Extract structured receipt (totals + line items) from photo
  */
 const extractFromPhotoOutputSchema = z.object({
   text: z.string(),
@@ -255,7 +277,7 @@ type ExtractFromPhotoOutput = z.infer<typeof extractFromPhotoOutputSchema>;
 
 const extractFromPhotoStep = createStep({
   id: 'extract-from-photo',
-  description: 'Extract text from photo using GPT-4o Vision',
+  description: 'Extract receipt details and line items using GPT-4o Vision',
   stateSchema: workflowStateSchema,
   inputSchema: determineInputTypeOutputSchema,
   outputSchema: extractFromPhotoOutputSchema,
@@ -289,31 +311,7 @@ const extractFromPhotoStep = createStep({
           content: [
             {
               type: 'text',
-              text: `CRITICAL INSTRUCTION: This receipt represents ONE SINGLE TRANSACTION with a SINGLE TOTAL AMOUNT.
-
-Extract ONLY the following information and format as shown:
-
-**RECEIPT (SINGLE TRANSACTION)**
-Merchant: [store name]
-Total: [TOTAL AMOUNT ONLY - the sum at the bottom]
-Date: [date on receipt]
-Category: [inferred category]
-Items: [brief list of items purchased, separated by commas]
-
-RULES:
-- Extract ONLY the grand total/total amount (NOT individual item prices)
-- The total is the ONLY amount that should be saved as a transaction
-- Do NOT list item prices separately
-- Do NOT create multiple transactions
-- Keep items as a simple comma-separated list
-
-Example format:
-**RECEIPT (SINGLE TRANSACTION)**
-Merchant: 7-Eleven
-Total: 96,900 ₫
-Date: 2025-11-04
-Category: Groceries
-Items: Aquafina water (qty 3), Gumi tissues, Mentos candy`,
+              text: RECEIPT_EXTRACTION_PROMPT,
             },
             {
               type: 'image_url',
@@ -325,22 +323,33 @@ Items: Aquafina water (qty 3), Gumi tissues, Mentos candy`,
           ],
         },
       ],
-      max_tokens: 1000,
+      response_format: { type: 'json_object' },
+      max_tokens: 2000,
       temperature: 0.0,
     });
 
-    const extractedText = response.choices[0]?.message?.content;
+    const rawContent = response.choices[0]?.message?.content;
 
     logger.info('[workflow:photo-extract]', {
       event: 'response',
       userId: inputData.userId,
-      response: extractedText,
+      response: rawContent,
     });
 
-    if (!extractedText) {
+    if (!rawContent) {
       throw new Error('No text extracted from the provided image');
     }
 
+    // Structured receipts carry line items; fall back to the raw reply if parsing fails
+    const receipt = parseReceiptExtraction(rawContent);
+    if (!receipt) {
+      logger.warn('[workflow:photo-extract]', {
+        event: 'structured_parse_failed',
+        userId: inputData.userId,
+      });
+    }
+    const extractedText = receipt ? formatReceiptForAgent(receipt) : rawContent;
+
     const extractionDuration = Date.now() - extractionStart;
     logger.info('[workflow:performance]', {
       operation: 'photo_extraction',
@@ -348,6 +357,7 @@ Items: Aquafina water (qty 3), Gumi tissues, Mentos candy`,
       userId: inputData.userId,
       textLength: extractedText.length,
       imageSize: imageBuffer.length,
+      itemCount: receipt?.items.length ?? 0,
     });
 
     const result: ExtractFromPhotoOutput = {
@@ -569,7 +579,7 @@ const fetchUserModeOutputSchema = z.object({
   text: z.string(),
   inputType: z.enum(['text', 'voice', 'photo']),
   userId: z.number(),
-  userMode: z.enum(['logger', 'chat', 'query']),
+  userMode: z.enum(['logger', 'chat', 'query', 'auto']),
   username: z.string().optional(),
   firstName: z.string().optional(),
   lastName: z.string().optional(),
@@ -609,6 +619,132 @@ const fetchUserModeStep = createStep({
   },
 });
 
+/**
+ * STEP 4a: Resume a transaction that was waiting for a missing detail
+ * An answer ("45") is merged with the earlier message and sent to the logger;
+ * anything else drops the open question and is handled as a new message.
+ */
+const resumeClarificationStep = createStep({
+  id: 'resume-clarification',
+  description: 'Merge the answer to an open clarifying question into the original message',
+  stateSchema: workflowStateSchema,
+  inputSchema: fetchUserModeOutputSchema,
+  outputSchema: fetchUserModeOutputSchema,
+  execute: async ({ inputData, mastra }) => {
+    const logger = mastra.getLogger();
+    const fetchStart = Date.now();
+
+    // A lookup failure must not block the message itself
+    const pending = await getPendingClarification(inputData.userId).catch((error) => {
+      logger.warn('[workflow:clarification]', {
+        event: 'fetch_failed',
+        userId: inputData.userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    });
+
+    logger.info('[workflow:performance]', {
+      operation: 'fetch_pending_clarification',
+      duration: Date.now() - fetchStart,
+      userId: inputData.userId,
+      found: !!pending,
+    });
+
+    if (!pending) {
+      return inputData;
+    }
+
+    const isAnswer =
+      inputData.inputType !== 'photo' &&
+      isClarificationAnswer(inputData.text, pending.missingFields, inputData.userMode);
+
+    if (!isAnswer) {
+      // Best effort: an open question also expires on its own
+      await resolveClarification(inputData.userId, pending.id, 'cancelled').catch(() => false);
+      logger.info('[workflow:clarification]', {
+        event: 'clarification_dropped',
+        userId: inputData.userId,
+        clarificationId: pending.id,
+      });
+      return inputData;
+    }
+
+    // Compare-and-set: a redelivered update must not resume the same transaction twice
+    const claimed = await resolveClarification(inputData.userId, pending.id, 'answered').catch(
+      () => false
+    );
+    if (!claimed) {
+      return inputData;
+    }
+
+    const text = buildResumedMessage(pending, inputData.text);
+    // The context headers stay; only the message after them is replaced
+    const prompt = inputData.prompt.endsWith(inputData.text)
+      ? inputData.prompt.slice(0, -inputData.text.length) + text
+      : `${inputData.prompt}\n\n${text}`;
+
+    logger.info('[workflow:clarification]', {
+      event: 'clarification_resumed',
+      userId: inputData.userId,
+      clarificationId: pending.id,
+      missingFields: pending.missingFields,
+    });
+
+    const result: FetchUserModeOutput = { ...inputData, prompt, text, userMode: 'logger' };
+    return result;
+  },
+});
+
+/**
+ * STEP 4b: Auto mode - pick the agent for this message
+ * Explicit modes pass through unchanged.
+ */
+const routeIntentOutputSchema = fetchUserModeOutputSchema.extend({
+  userMode: z.enum(['logger', 'chat', 'query']),
+});
+
+type RouteIntentOutput = z.infer<typeof routeIntentOutputSchema>;
+
+const routeIntentStep = createStep({
+  id: 'route-intent',
+  description: 'Classify the message to an agent when the user is in auto mode',
+  stateSchema: workflowStateSchema,
+  inputSchema: fetchUserModeOutputSchema,
+  outputSchema: routeIntentOutputSchema,
+  execute: async ({ inputData, mastra }) => {
+    const logger = mastra.getLogger();
+
+    if (inputData.userMode !== 'auto') {
+      const result: RouteIntentOutput = { ...inputData, userMode: inputData.userMode };
+      return result;
+    }
+
+    const routeStart = Date.now();
+    const intent = await classifyIntent(inputData.text, inputData.inputType);
+
+    logger.info('[workflow:performance]', {
+      operation: 'route_intent',
+      duration: Date.now() - routeStart,
+      userId: inputData.userId,
+    });
+
+    // Logged in full so misroutes can be found and the rules tuned
+    logger.info('[workflow:router]', {
+      event: 'intent_routed',
+      userId: inputData.userId,
+      inputType: inputData.inputType,
+      mode: intent.mode,
+      method: intent.method,
+      reason: intent.reason,
+      text: inputData.text.slice(0, 200),
+    });
+
+    const result: RouteIntentOutput = { ...inputData, userMode: intent.mode };
+    return result;
+  },
+});
+
 /**
  * STEP 5: Response cache lookup
  */
@@ -618,7 +754,21 @@ const checkCacheOutputSchema = z.object({
   inputType: z.enum(['text', 'voice', 'photo']),
   userId: z.number(),
   userMode: z.enum(['logger', 'chat', 'query']),
+  dataVersion: z.number(),
   cachedResponse: z.string().optional(),
+  // Buttons sent with the cached answer (e.g. Show transactions)
+  cachedMarkup: z
+    .object({
+      inline_keyboard: z.array(
+        z.array(
+          z.object({
+            text: z.string(),
+            callback_data: z.string(),
+          })
+        )
+      ),
+    })
+    .optional(),
   isCached: z.boolean(),
   username: z.string().optional(),
   firstName: z.string().optional(),
@@ -635,13 +785,19 @@ const checkCacheStep = createStep({
   id: 'check-cache',
   description: 'Check agent response cache',
   stateSchema: workflowStateSchema,
-  inputSchema: fetchUserModeOutputSchema,
+  inputSchema: routeIntentOutputSchema,
   outputSchema: checkCacheOutputSchema,
   execute: async ({ inputData, mastra }) => {
     const logger = mastra.getLogger();
     const cacheCheckStart = Date.now();
 
-    const cached = await AgentResponseCache.get(inputData.userId, inputData.text);
+    // Keyed on the user's data version so new, edited or deleted transactions invalidate answers
+    const dataVersion = await AgentResponseCache.getDataVersion(inputData.userId);
+    let cached: CachedAgentResponse | null = await AgentResponseCache.get(
+      inputData.userId,
+      inputData.text,
+      { dataVersion }
+    );
 
     const cacheCheckDuration = Date.now() - cacheCheckStart;
     logger.info('[workflow:performance]', {
@@ -651,11 +807,31 @@ const checkCacheStep = createStep({
       hit: !!cached,
     });
 
+    // Paraphrases of earlier questions (not in logger mode: every log must reach the agent)
+    if (!cached && inputData.userMode !== 'logger' && shouldCacheResponse(inputData.text)) {
+      const semanticCheckStart = Date.now();
+      const similar = await SemanticResponseCache.get(inputData.userId, inputData.text, {
+        dataVersion,
+        mode: inputData.userMode,
+      });
+
+      logger.info('[workflow:performance]', {
+        operation: 'semantic_cache_check',
+        duration: Date.now() - semanticCheckStart,
+        userId: inputData.userId,
+        hit: !!similar,
+        similarity: similar?.similarity,
+      });
+
+      cached = similar;
+    }
+
     if (cached) {
       logger.info('[workflow:cache]', {
         event: 'cache_hit',
         userId: inputData.userId,
         inputType: inputData.inputType,
+        layer: 'similarity' in cached ? 'semantic' : 'exact',
       });
 
       const result: CheckCacheOutput = {
@@ -664,7 +840,9 @@ const checkCacheStep = createStep({
         inputType: inputData.inputType,
         userId: inputData.userId,
         userMode: inputData.userMode,
+        dataVersion,
         cachedResponse: cached.response,
+        cachedMarkup: cached.metadata?.telegramMarkup,
         isCached: true,
         username: inputData.username,
         firstName: inputData.firstName,
@@ -689,6 +867,7 @@ const checkCacheStep = createStep({
       inputType: inputData.inputType,
       userId: inputData.userId,
       userMode: inputData.userMode,
+      dataVersion,
       isCached: false,
       username: inputData.username,
       firstName: inputData.firstName,
@@ -731,6 +910,20 @@ const agentInvocationOutputSchema = z.object({
       ),
     })
     .optional(),
+  // Query mode: transactions the answer was based on and the search/total filters used
+  querySources: z
+    .object({
+      displayIds: z.array(z.number()),
+      filters: z.array(z.record(z.string(), z.unknown())),
+    })
+    .optional(),
+  // Logger mode: open question waiting for a missing amount or merchant
+  clarificationId: z.string().optional(),
+  // Logger mode: draft waiting for Confirm/Cancel, and whether a recurring schedule was created
+  draftId: z.string().optional(),
+  recurringCreated: z.boolean().optional(),
+  // Query mode: a chart was sent as a separate photo, so the text alone is not the answer
+  chartSent: z.boolean().optional(),
 });
 
 type AgentInvocationOutput = z.infer<typeof agentInvocationOutputSchema>;
@@ -751,6 +944,163 @@ const isQueryMode: ModeBranchConditionFn = async ({ inputData }) => inputData.us
 
 const isChatMode: ModeBranchConditionFn = async ({ inputData }) => inputData.userMode === 'chat';
 
+/**
+ * Collect display IDs of transactions saved by the logger tools during one generate call
+ * (saveTransaction returns one displayId, saveTransactionsBatch returns saved[].displayId)
+ */
+function collectSavedDisplayIds(
+  toolResults: Array<{ payload: { toolName: string; result: unknown } }> | undefined
+): number[] {
+  const displayIds: number[] = [];
+
+  for (const chunk of toolResults ?? []) {
+    const result = chunk.payload.result as
+      | { success?: boolean; displayId?: number; saved?: Array<{ displayId: number }> }
+      | undefined;
+    if (!result?.success) {
+      continue;
+    }
+
+    if (chunk.payload.toolName === 'saveTransaction' && typeof result.displayId === 'number') {
+      displayIds.push(result.displayId);
+    } else if (chunk.payload.toolName === 'saveTransactionsBatch' && result.saved) {
+      displayIds.push(...result.saved.map((tx) => tx.displayId));
+    }
+  }
+
+  return displayIds;
+}
+
+/**
+ * Collect the transactions an answer was based on during one generate call: display IDs
+ * returned by hybridQuery, plus the filters of each hybridQuery / aggregateTransactions call
+ * (tool name included, userId left out; totals also carry how many transactions they counted)
+ */
+function collectQuerySources(
+  toolResults: Array<{ payload: { toolName: string; result: unknown; args?: unknown } }> | undefined
+): NonNullable<AgentInvocationOutput['querySources']> {
+  const displayIds = new Set<number>();
+  const filters: Record<string, unknown>[] = [];
+
+  for (const chunk of toolResults ?? []) {
+    const { toolName } = chunk.payload;
+    const result = chunk.payload.result as
+      | {
+          success?: boolean;
+          transactions?: Array<{ display_id: number }>;
+          groups?: Array<{ count: number }>;
+        }
+      | undefined;
+    if ((toolName !== 'hybridQuery' && toolName !== 'aggregateTransactions') || !result?.success) {
+      continue;
+    }
+
+    for (const tx of result.transactions ?? []) {
+      displayIds.add(tx.display_id);
+    }
+
+    const {
+      userId: _userId,
+      __mastraMetadata: _metadata,
+      ...args
+    } = (chunk.payload.args as Record<string, unknown> | undefined) ?? {};
+    filters.push({
+      tool: toolName,
+      ...Object.fromEntries(Object.entries(args).filter(([, value]) => value !== undefined)),
+      ...(result.groups && { count: result.groups.reduce((sum, group) => sum + group.count, 0) }),
+    });
+  }
+
+  return { displayIds: [...displayIds], filters };
+}
+
+/**
+ * Whether generateChart delivered a chart photo during one generate call
+ */
+function wasChartSent(
+  toolResults: Array<{ payload: { toolName: string; result: unknown } }> | undefined
+): boolean {
+  return (toolResults ?? []).some(
+    (chunk) =>
+      chunk.payload.toolName === 'generateChart' &&
+      (chunk.payload.result as { sent?: boolean } | undefined)?.sent === true
+  );
+}
+
+/**
+ * Totals come from aggregateTransactions, which returns no rows: look up the newest
+ * transactions matching the filters of an overall (ungrouped) total instead
+ * @returns Display IDs found, and how many transactions the total counted
+ */
+async function findAggregatedDisplayIds(
+  userId: number,
+  filters: Record<string, unknown>[]
+): Promise<{ displayIds: number[]; total: number }> {
+  const aggregate = filters.find(
+    (entry) => entry.tool === 'aggregateTransactions' && !entry.groupBy
+  );
+  if (!aggregate) {
+    return { displayIds: [], total: 0 };
+  }
+
+  const { tool: _tool, limit: _limit, count, ...searchFilters } = aggregate;
+  const transactions = await searchTransactionsSQL({
+    // aggregateTransactions counts expenses when no type is given
+    transactionType: 'expense',
+    ...(searchFilters as Omit<Parameters<typeof searchTransactionsSQL>[0], 'userId'>),
+    userId,
+    limit: 50,
+  });
+  const displayIds = transactions.map((tx) => tx.display_id);
+  // The lookup is capped; the total itself knows how many rows it summed
+  return { displayIds, total: Math.max(Number(count) || 0, displayIds.length) };
+}
+
+/**
+ * Find the draft created by the logger tools when review-before-save is on
+ */
+function findCreatedDraftId(
+  toolResults: Array<{ payload: { toolName: string; result: unknown } }> | undefined
+): string | undefined {
+  for (const chunk of toolResults ?? []) {
+    const result = chunk.payload.result as { success?: boolean; draftId?: string } | undefined;
+    if (result?.success && result.draftId) {
+      return result.draftId;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether createRecurringTransaction stored a schedule during one generate call
+ */
+function wasRecurringCreated(
+  toolResults: Array<{ payload: { toolName: string; result: unknown } }> | undefined
+): boolean {
+  return (toolResults ?? []).some(
+    (chunk) =>
+      chunk.payload.toolName === 'createRecurringTransaction' &&
+      (chunk.payload.result as { success?: boolean } | undefined)?.success === true
+  );
+}
+
+/**
+ * Find the follow-up question asked by the logger when a required detail was missing
+ */
+function findClarificationRequest(
+  toolResults: Array<{ payload: { toolName: string; result: unknown } }> | undefined
+): { clarificationId: string; question: string } | undefined {
+  for (const chunk of toolResults ?? []) {
+    const result = chunk.payload.result as
+      | { success?: boolean; clarificationId?: string; question?: string }
+      | undefined;
+    if (result?.success && result.clarificationId && result.question) {
+      return { clarificationId: result.clarificationId, question: result.question };
+    }
+  }
+  return undefined;
+}
+
 /**
  * Logger Mode Agent Step - No memory (fastest)
  */
@@ -790,6 +1140,7 @@ const invokeLoggerAgentStep = createStep({
         timezone: inputData.timezone,
         voiceFilePath: inputData.voiceFilePath,
         photoFilePath: inputData.photoFilePath,
+        telegramMarkup: inputData.cachedMarkup,
       };
       return result;
     }
@@ -805,10 +1156,16 @@ const invokeLoggerAgentStep = createStep({
       inputType: inputData.inputType,
     });
 
+    // Review-before-save: tools create a draft instead of inserting (read via runtimeContext)
+    const reviewBeforeSave = await getReviewBeforeSave(inputData.userId);
+    runtimeContext.set('reviewBeforeSave', reviewBeforeSave);
+    // Stored with a clarifying question so the answer can resume this message
+    runtimeContext.set('messageText', inputData.text);
+
     // Logger mode: NO memory (fastest) - agent configured with undefined memory
     // No memory overhead for transaction logging
     const memoryStartTime = Date.now();
-    const genResult = await agent.generate(inputData.prompt);
+    const genResult = await agent.generate(inputData.prompt, { runtimeContext });
 
     const memoryDuration = Date.now() - memoryStartTime;
     logger.info('[workflow:memory]', {
@@ -826,8 +1183,49 @@ const invokeLoggerAgentStep = createStep({
       responseLength: genResult.text?.length || 0,
     });
 
+    // Attach edit/delete buttons for every transaction saved in this message
+    const savedDisplayIds = collectSavedDisplayIds(genResult.toolResults);
+    let telegramMarkup: AgentInvocationOutput['telegramMarkup'] =
+      savedDisplayIds.length > 0 ? buildTransactionActionsKeyboard(savedDisplayIds) : undefined;
+    let agentResponse = genResult.text ?? 'Transaction saved.';
+
+    // Drafts replace the agent's reply with a deterministic preview + Confirm/Change/Cancel buttons
+    const draftId = reviewBeforeSave ? findCreatedDraftId(genResult.toolResults) : undefined;
+    const draft = draftId ? await getPendingDraft(inputData.userId, draftId) : null;
+    if (draft) {
+      agentResponse = messages.draft.preview(draft.transactions);
+      telegramMarkup = buildDraftKeyboard(draft.id, draft.transactions.length === 1);
+
+      logger.info('[workflow:logger-agent]', {
+        event: 'draft_preview',
+        userId: inputData.userId,
+        draftId: draft.id,
+        count: draft.transactions.length,
+      });
+    }
+
+    // Missing amount or merchant: ask exactly the tool's question (nothing was saved)
+    const clarification = findClarificationRequest(genResult.toolResults);
+    if (clarification && savedDisplayIds.length === 0 && !draft) {
+      agentResponse = clarification.question;
+
+      logger.info('[workflow:logger-agent]', {
+        event: 'clarification_requested',
+        userId: inputData.userId,
+        clarificationId: clarification.clarificationId,
+      });
+    }
+
+    if (savedDisplayIds.length > 0) {
+      logger.info('[workflow:logger-agent]', {
+        event: 'transactions_saved',
+        userId: inputData.userId,
+        displayIds: savedDisplayIds,
+      });
+    }
+
     const result: AgentInvocationOutput = {
-      agentResponse: genResult.text ?? 'Transaction saved.',
+      agentResponse,
       text: inputData.text,
       inputType: inputData.inputType,
       userId: inputData.userId,
@@ -840,6 +1238,10 @@ const invokeLoggerAgentStep = createStep({
       voiceFilePath: inputData.voiceFilePath,
       photoFilePath: inputData.photoFilePath,
       timezone: inputData.timezone,
+      telegramMarkup,
+      clarificationId: clarification?.clarificationId,
+      draftId: draft?.id,
+      recurringCreated: wasRecurringCreated(genResult.toolResults) || undefined,
     };
     return result;
   },
@@ -884,6 +1286,7 @@ const invokeQueryAgentStep = createStep({
         timezone: inputData.timezone,
         voiceFilePath: inputData.voiceFilePath,
         photoFilePath: inputData.photoFilePath,
+        telegramMarkup: inputData.cachedMarkup,
       };
       return result;
     }
@@ -949,6 +1352,34 @@ const invokeQueryAgentStep = createStep({
       agentResponse = rawResponse;
     }
 
+    // Let the user check the answer against the transactions it was based on
+    const querySources = collectQuerySources(genResult.toolResults);
+    let sourceTotal = querySources.displayIds.length;
+    if (querySources.displayIds.length === 0) {
+      const aggregated = await findAggregatedDisplayIds(
+        inputData.userId,
+        querySources.filters
+      ).catch(() => ({ displayIds: [], total: 0 }));
+      querySources.displayIds = aggregated.displayIds;
+      sourceTotal = aggregated.total;
+    }
+    if (querySources.displayIds.length > 0) {
+      const showButton = buildShowTransactionsKeyboard(querySources.displayIds, sourceTotal);
+      telegramMarkup = {
+        inline_keyboard: [
+          ...(telegramMarkup?.inline_keyboard ?? []),
+          ...showButton.inline_keyboard,
+        ],
+      };
+
+      logger.info('[workflow:query-agent]', {
+        event: 'query_sources',
+        userId: inputData.userId,
+        count: querySources.displayIds.length,
+        filters: querySources.filters,
+      });
+    }
+
     const result: AgentInvocationOutput = {
       agentResponse,
       text: inputData.text,
@@ -964,6 +1395,8 @@ const invokeQueryAgentStep = createStep({
       voiceFilePath: inputData.voiceFilePath,
       photoFilePath: inputData.photoFilePath,
       telegramMarkup,
+      querySources: querySources.displayIds.length > 0 ? querySources : undefined,
+      chartSent: wasChartSent(genResult.toolResults) || undefined,
     };
     return result;
   },
@@ -1008,6 +1441,7 @@ const invokeChatAgentStep = createStep({
         timezone: inputData.timezone,
         voiceFilePath: inputData.voiceFilePath,
         photoFilePath: inputData.photoFilePath,
+        telegramMarkup: inputData.cachedMarkup,
       };
       return result;
     }
@@ -1136,19 +1570,37 @@ const cacheResponseStep = createStep({
   stateSchema: workflowStateSchema,
   inputSchema: agentInvocationOutputSchema,
   outputSchema: cacheResponseOutputSchema,
-  execute: async ({ inputData, mastra }) => {
+  execute: async ({ inputData, mastra, getStepResult }) => {
     const logger = mastra.getLogger();
 
-    if (!inputData.isCached && shouldCacheResponse(inputData.text)) {
+    // Replies to a pending record (clarifying question, draft preview) would ask into the void or
+    // lose their buttons when replayed, and a repeated recurring request must create its schedule;
+    // a chart reply without its photo would point at an image that never arrives
+    if (
+      !inputData.isCached &&
+      !inputData.clarificationId &&
+      !inputData.draftId &&
+      !inputData.recurringCreated &&
+      !inputData.chartSent &&
+      shouldCacheResponse(inputData.text)
+    ) {
       const cacheSetStart = Date.now();
+      // Version read before the agent ran: a change made meanwhile leaves this entry unreachable
+      const { dataVersion } = getStepResult(checkCacheStep);
 
-      await AgentResponseCache.set(inputData.userId, inputData.text, {
-        response: inputData.agentResponse,
-        metadata: {
-          inputType: inputData.inputType,
-          cachedAt: new Date().toISOString(),
+      await AgentResponseCache.set(
+        inputData.userId,
+        inputData.text,
+        {
+          response: inputData.agentResponse,
+          metadata: {
+            inputType: inputData.inputType,
+            cachedAt: new Date().toISOString(),
+            telegramMarkup: inputData.telegramMarkup,
+          },
         },
-      });
+        { dataVersion }
+      );
 
       const cacheSetDuration = Date.now() - cacheSetStart;
       logger.info('[workflow:performance]', {
@@ -1157,6 +1609,26 @@ const cacheResponseStep = createStep({
         userId: inputData.userId,
       });
 
+      if (inputData.userMode !== 'logger') {
+        const semanticSetStart = Date.now();
+
+        await SemanticResponseCache.set(
+          inputData.userId,
+          inputData.text,
+          {
+            response: inputData.agentResponse,
+            metadata: { inputType: inputData.inputType, telegramMarkup: inputData.telegramMarkup },
+          },
+          { dataVersion, mode: inputData.userMode }
+        );
+
+        logger.info('[workflow:performance]', {
+          operation: 'semantic_cache_set',
+          duration: Date.now() - semanticSetStart,
+          userId: inputData.userId,
+        });
+      }
+
       logger.info('[workflow:cache]', {
         event: 'response_cached',
         userId: inputData.userId,
@@ -1290,6 +1762,8 @@ export const messageProcessingWorkflow = createWorkflow<
   .then(unwrapProcessedInputStep)
   .then(buildContextPromptStep)
   .then(fetchUserModeStep) // NEW: Fetch user's current mode
+  .then(resumeClarificationStep) // Answer to a clarifying question -> resume in logger
+  .then(routeIntentStep) // Auto mode: classify to logger/query/chat
   .then(checkCacheStep)
   .branch([
     // NEW: Branch on mode instead of supervisor
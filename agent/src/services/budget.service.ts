@@ -0,0 +1,305 @@
+/**
+ * Budget Service
+ *
+ * Per-category monthly budgets and threshold alerts.
+ * Months are calendar months in the user's timezone; spending is
+ * expenses minus refunds for the category within that month.
+ */
+
+import { formatInTimeZone } from 'date-fns-tz';
+import { lastDayOfMonth, parseISO, format } from 'date-fns';
+import type { Mastra } from '@mastra/core/mastra';
+import { supabaseService } from '../lib/supabase';
+import { messages } from '../lib/messages';
+import type { Database } from '../lib/database.types';
+import { getUserTimezone } from './user.service';
+import { sendProactiveMessage } from './notification.service';
+
+// Logger type - matches what mastra.getLogger() returns
+type Logger = ReturnType<Mastra['getLogger']>;
+
+type BudgetRow = Database['public']['Tables']['budgets']['Row'];
+
+/** Percent-of-budget levels that trigger an alert, lowest first */
+export const BUDGET_ALERT_THRESHOLDS = [50, 80, 100] as const;
+export type BudgetThreshold = (typeof BUDGET_ALERT_THRESHOLDS)[number];
+
+export interface BudgetPeriod {
+  /** First day of the month (YYYY-MM-DD) */
+  start: string;
+  /** Last day of the month (YYYY-MM-DD) */
+  end: string;
+  /** Human label, e.g. "November 2025" */
+  label: string;
+}
+
+export interface BudgetStatus {
+  category: string;
+  budget: number;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  currency: string;
+}
+
+/**
+ * Get the current calendar month in the user's timezone
+ */
+export function getMonthPeriod(timezone: string, now: Date = new Date()): BudgetPeriod {
+  const start = formatInTimeZone(now, timezone, 'yyyy-MM-01');
+  const end = format(lastDayOfMonth(parseISO(start)), 'yyyy-MM-dd');
+  const label = formatInTimeZone(now, timezone, 'MMMM yyyy');
+  return { start, end, label };
+}
+
+/**
+ * Get the highest alert threshold reached by the spent amount, or null if below 50%
+ */
+export function getCrossedThreshold(spent: number, budget: number): BudgetThreshold | null {
+  if (budget <= 0) {
+    return null;
+  }
+
+  const percent = (spent / budget) * 100;
+  let crossed: BudgetThreshold | null = null;
+  for (const threshold of BUDGET_ALERT_THRESHOLDS) {
+    if (percent >= threshold) {
+      crossed = threshold;
+    }
+  }
+  return crossed;
+}
+
+/**
+ * Normalize a user-typed category to the Title Case form used by the logger agent
+ * e.g. "personal care" → "Personal Care"
+ */
+export function normalizeBudgetCategory(category: string): string {
+  return category
+    .trim()
+    .split(/\s+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ');
+}
+
+/**
+ * Create or update a category budget
+ * Changing the amount resets alert tracking so thresholds are re-evaluated
+ */
+export async function setBudget(
+  userId: number,
+  category: string,
+  amount: number,
+  currency: string
+): Promise<BudgetRow> {
+  const { data, error } = await supabaseService
+    .from('budgets')
+    .upsert(
+      {
+        user_id: userId,
+        category: normalizeBudgetCategory(category),
+        amount,
+        currency,
+        last_alert_threshold: null,
+        last_alert_period: null,
+      },
+      { onConflict: 'user_id,category' }
+    )
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save budget: ${error?.message || 'Unknown error'}`);
+  }
+
+  return data;
+}
+
+/**
+ * Delete a category budget
+ *
+ * @returns true if a budget was removed
+ */
+export async function deleteBudget(userId: number, category: string): Promise<boolean> {
+  const { data, error } = await supabaseService
+    .from('budgets')
+    .delete()
+    .eq('user_id', userId)
+    .ilike('category', normalizeBudgetCategory(category))
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete budget: ${error.message}`);
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * List all budgets for a user
+ */
+export async function getBudgets(userId: number): Promise<BudgetRow[]> {
+  const { data, error } = await supabaseService
+    .from('budgets')
+    .select('*')
+    .eq('user_id', userId)
+    .order('category', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch budgets: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Sum spending (expenses minus refunds) per lowercase category for a period
+ */
+async function getSpendingByCategory(
+  userId: number,
+  period: BudgetPeriod
+): Promise<Map<string, number>> {
+  const { data, error } = await supabaseService
+    .from('transactions')
+    .select('category, amount, transaction_type')
+    .eq('user_id', userId)
+    .in('transaction_type', ['expense', 'refund'])
+    .gte('transaction_date', period.start)
+    .lte('transaction_date', period.end);
+
+  if (error) {
+    throw new Error(`Failed to fetch spending: ${error.message}`);
+  }
+
+  const totals = new Map<string, number>();
+  for (const tx of data || []) {
+    const key = tx.category.toLowerCase();
+    const signed = tx.transaction_type === 'refund' ? -Number(tx.amount) : Number(tx.amount);
+    totals.set(key, (totals.get(key) ?? 0) + signed);
+  }
+  return totals;
+}
+
+function buildStatus(budget: BudgetRow, spent: number): BudgetStatus {
+  const amount = Number(budget.amount);
+  const roundedSpent = Math.round(Math.max(spent, 0) * 100) / 100;
+  return {
+    category: budget.category,
+    budget: amount,
+    spent: roundedSpent,
+    remaining: Math.round((amount - roundedSpent) * 100) / 100,
+    percentUsed: amount > 0 ? Math.round((roundedSpent / amount) * 100) : 0,
+    currency: budget.currency,
+  };
+}
+
+/**
+ * Get budget usage for the current month in the user's timezone
+ *
+ * @param category - Optional category filter (case-insensitive)
+ */
+export async function getBudgetStatuses(
+  userId: number,
+  category?: string
+): Promise<{ period: BudgetPeriod; statuses: BudgetStatus[] }> {
+  const [budgets, timezone] = await Promise.all([getBudgets(userId), getUserTimezone(userId)]);
+  const period = getMonthPeriod(timezone);
+
+  const filtered = category
+    ? budgets.filter((budget) => budget.category.toLowerCase() === category.trim().toLowerCase())
+    : budgets;
+
+  if (filtered.length === 0) {
+    return { period, statuses: [] };
+  }
+
+  const spending = await getSpendingByCategory(userId, period);
+  const statuses = filtered.map((budget) =>
+    buildStatus(budget, spending.get(budget.category.toLowerCase()) ?? 0)
+  );
+
+  return { period, statuses };
+}
+
+/**
+ * Check a category budget after a transaction is saved and alert the user
+ * when spending crosses a new threshold this month.
+ * Never throws - budget alerts must not affect saving.
+ */
+export async function checkBudgetAfterSave(
+  userId: number,
+  category: string,
+  logger?: Logger
+): Promise<void> {
+  try {
+    const { data: budget, error } = await supabaseService
+      .from('budgets')
+      .select('*')
+      .eq('user_id', userId)
+      .ilike('category', category.trim())
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!budget) {
+      return;
+    }
+
+    const timezone = await getUserTimezone(userId);
+    const period = getMonthPeriod(timezone);
+    const spending = await getSpendingByCategory(userId, period);
+    const status = buildStatus(budget, spending.get(budget.category.toLowerCase()) ?? 0);
+
+    const threshold = getCrossedThreshold(status.spent, status.budget);
+    if (!threshold) {
+      return;
+    }
+
+    const alreadyAlerted =
+      budget.last_alert_period === period.start ? (budget.last_alert_threshold ?? 0) : 0;
+    if (threshold <= alreadyAlerted) {
+      return;
+    }
+
+    // Compare-and-set so concurrent saves send each alert only once
+    const { data: claimed, error: claimError } = await supabaseService
+      .from('budgets')
+      .update({ last_alert_threshold: threshold, last_alert_period: period.start })
+      .eq('id', budget.id)
+      .or(
+        `last_alert_period.is.null,last_alert_period.neq.${period.start},last_alert_threshold.is.null,last_alert_threshold.lt.${threshold}`
+      )
+      .select('id');
+
+    if (claimError) {
+      throw new Error(claimError.message);
+    }
+    if (!claimed || claimed.length === 0) {
+      return;
+    }
+
+    const delivered = await sendProactiveMessage(
+      userId,
+      messages.budget.alert(threshold, status, period.label),
+      { parse_mode: 'Markdown' }
+    );
+
+    logger?.info('[budget-service]', {
+      event: 'threshold_alert',
+      userId,
+      category: budget.category,
+      threshold,
+      spent: status.spent,
+      budget: status.budget,
+      delivered,
+    });
+  } catch (error) {
+    logger?.warn('[budget-service]', {
+      event: 'check_failed',
+      userId,
+      category,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
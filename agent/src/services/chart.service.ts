@@ -0,0 +1,367 @@
+/**
+ * Chart Service
+ *
+ * Renders spending charts as PNGs for Telegram without a browser: charts are
+ * built as SVG strings and rasterized with resvg. Three charts are supported:
+ * - category: pie of expenses by category (default: this month)
+ * - monthly: bar per month (default: last 6 months)
+ * - daily: trend line per day (default: last 30 days)
+ *
+ * SVG building is pure so it can be unit tested; data comes from the
+ * aggregate_transactions RPC, so charts cover every matching transaction.
+ */
+
+import { Resvg } from '@resvg/resvg-js';
+import { formatInTimeZone } from 'date-fns-tz';
+import { addDays, addMonths, format, parseISO, startOfMonth, subDays, subMonths } from 'date-fns';
+import { getUserDefaultCurrency } from '../lib/currency';
+import { getUserTimezone } from './user.service';
+import { aggregateTransactions } from './transaction-aggregation.service';
+
+export type ChartType = 'category' | 'monthly' | 'daily';
+
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+export interface ChartSpec {
+  type: ChartType;
+  title: string;
+  currency: string;
+  points: ChartPoint[];
+}
+
+export interface SpendingChart {
+  png: Buffer;
+  spec: ChartSpec;
+  total: number;
+  dateFrom: string;
+  dateTo: string;
+}
+
+const WIDTH = 800;
+const HEIGHT = 500;
+const FONT_FAMILY = 'DejaVu Sans, Arial, sans-serif';
+const PALETTE = [
+  '#4F46E5',
+  '#F59E0B',
+  '#10B981',
+  '#EF4444',
+  '#06B6D4',
+  '#8B5CF6',
+  '#EC4899',
+  '#9CA3AF',
+];
+
+/** Pie slices beyond this are merged into "Other" */
+const MAX_PIE_SLICES = PALETTE.length;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString('en-US', { maximumFractionDigits: value >= 100 ? 0 : 2 });
+}
+
+/**
+ * Round the axis maximum up to 1, 2, 2.5 or 5 times a power of ten
+ */
+function niceMax(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 2.5, 5, 10].find((factor) => factor * magnitude >= value) ?? 10;
+  return step * magnitude;
+}
+
+function svgDocument(title: string, body: string): string {
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}" font-family="${FONT_FAMILY}">` +
+    `<rect width="${WIDTH}" height="${HEIGHT}" fill="#FFFFFF"/>` +
+    `<text x="${WIDTH / 2}" y="36" font-size="22" font-weight="bold" text-anchor="middle" fill="#111827">${escapeXml(title)}</text>` +
+    body +
+    `</svg>`
+  );
+}
+
+/**
+ * Merge the smallest slices into "Other" so the legend stays readable
+ */
+export function limitPieSlices(points: ChartPoint[]): ChartPoint[] {
+  const sorted = points.filter((point) => point.value > 0).sort((a, b) => b.value - a.value);
+  if (sorted.length <= MAX_PIE_SLICES) {
+    return sorted;
+  }
+
+  const kept = sorted.slice(0, MAX_PIE_SLICES - 1);
+  const other = sorted.slice(MAX_PIE_SLICES - 1).reduce((sum, point) => sum + point.value, 0);
+  return [...kept, { label: 'Other', value: other }];
+}
+
+function buildPieSvg(spec: ChartSpec): string {
+  const slices = limitPieSlices(spec.points);
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+  const cx = 250;
+  const cy = 270;
+  const radius = 180;
+
+  let angle = -Math.PI / 2;
+  const wedges = slices.map((slice, index) => {
+    const color = PALETTE[index % PALETTE.length];
+    const sweep = (slice.value / total) * Math.PI * 2;
+
+    // A single slice is a full circle (an arc can't start and end at the same point)
+    if (slices.length === 1) {
+      return `<circle cx="${cx}" cy="${cy}" r="${radius}" fill="${color}"/>`;
+    }
+
+    const x1 = cx + radius * Math.cos(angle);
+    const y1 = cy + radius * Math.sin(angle);
+    angle += sweep;
+    const x2 = cx + radius * Math.cos(angle);
+    const y2 = cy + radius * Math.sin(angle);
+    const largeArc = sweep > Math.PI ? 1 : 0;
+
+    return (
+      `<path d="M ${cx} ${cy} L ${x1.toFixed(2)} ${y1.toFixed(2)} ` +
+      `A ${radius} ${radius} 0 ${largeArc} 1 ${x2.toFixed(2)} ${y2.toFixed(2)} Z" ` +
+      `fill="${color}" stroke="#FFFFFF" stroke-width="2"/>`
+    );
+  });
+
+  const legend = slices.map((slice, index) => {
+    const y = 110 + index * 40;
+    const percent = Math.round((slice.value / total) * 100);
+    return (
+      `<rect x="480" y="${y - 14}" width="18" height="18" rx="3" fill="${PALETTE[index % PALETTE.length]}"/>` +
+      `<text x="508" y="${y}" font-size="16" fill="#111827">${escapeXml(slice.label)}</text>` +
+      `<text x="508" y="${y + 18}" font-size="13" fill="#6B7280">${formatAmount(slice.value)} ${escapeXml(spec.currency)} · ${percent}%</text>`
+    );
+  });
+
+  return svgDocument(spec.title, wedges.join('') + legend.join(''));
+}
+
+/**
+ * Shared axes for bar and line charts
+ * @returns Plot area and a function mapping a value to its y coordinate
+ */
+function buildAxes(spec: ChartSpec): {
+  svg: string;
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  toY: (value: number) => number;
+} {
+  const left = 80;
+  const right = WIDTH - 30;
+  const top = 70;
+  const bottom = HEIGHT - 60;
+  const max = niceMax(Math.max(...spec.points.map((point) => point.value), 0));
+  const toY = (value: number) => bottom - (value / max) * (bottom - top);
+
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((fraction) => {
+    const value = max * fraction;
+    const y = toY(value);
+    return (
+      `<line x1="${left}" y1="${y}" x2="${right}" y2="${y}" stroke="#E5E7EB" stroke-width="1"/>` +
+      `<text x="${left - 10}" y="${y + 5}" font-size="13" text-anchor="end" fill="#6B7280">${formatAmount(value)}</text>`
+    );
+  });
+
+  const unit = `<text x="${left}" y="${top - 14}" font-size="13" fill="#6B7280">${escapeXml(spec.currency)}</text>`;
+
+  return { svg: ticks.join('') + unit, left, right, top, bottom, toY };
+}
+
+function buildBarSvg(spec: ChartSpec): string {
+  const { svg: axes, left, right, bottom, toY } = buildAxes(spec);
+  const slot = (right - left) / spec.points.length;
+  const barWidth = Math.min(slot * 0.6, 80);
+
+  const bars = spec.points.map((point, index) => {
+    const x = left + slot * index + (slot - barWidth) / 2;
+    const y = toY(point.value);
+    const label = point.value > 0 ? formatAmount(point.value) : '';
+    return (
+      `<rect x="${x.toFixed(2)}" y="${y.toFixed(2)}" width="${barWidth.toFixed(2)}" height="${(bottom - y).toFixed(2)}" rx="4" fill="${PALETTE[0]}"/>` +
+      `<text x="${(x + barWidth / 2).toFixed(2)}" y="${(y - 8).toFixed(2)}" font-size="13" text-anchor="middle" fill="#111827">${label}</text>` +
+      `<text x="${(x + barWidth / 2).toFixed(2)}" y="${bottom + 24}" font-size="13" text-anchor="middle" fill="#374151">${escapeXml(point.label)}</text>`
+    );
+  });
+
+  return svgDocument(spec.title, axes + bars.join(''));
+}
+
+function buildLineSvg(spec: ChartSpec): string {
+  const { svg: axes, left, right, bottom, toY } = buildAxes(spec);
+  const step = spec.points.length > 1 ? (right - left) / (spec.points.length - 1) : 0;
+  const coordinates = spec.points.map((point, index) => ({
+    x: left + step * index,
+    y: toY(point.value),
+  }));
+
+  const line = coordinates.map(({ x, y }) => `${x.toFixed(2)},${y.toFixed(2)}`).join(' ');
+  const area =
+    `${left},${bottom} ` + line + ` ${coordinates[coordinates.length - 1].x.toFixed(2)},${bottom}`;
+
+  // About 7 labels along the axis so they don't overlap
+  const labelEvery = Math.max(1, Math.ceil(spec.points.length / 7));
+  const labels = spec.points
+    .map((point, index) =>
+      index % labelEvery === 0 || index === spec.points.length - 1
+        ? `<text x="${coordinates[index].x.toFixed(2)}" y="${bottom + 24}" font-size="13" text-anchor="middle" fill="#374151">${escapeXml(point.label)}</text>`
+        : ''
+    )
+    .join('');
+
+  return svgDocument(
+    spec.title,
+    axes +
+      `<polygon points="${area}" fill="${PALETTE[0]}" fill-opacity="0.12"/>` +
+      `<polyline points="${line}" fill="none" stroke="${PALETTE[0]}" stroke-width="3" stroke-linejoin="round"/>` +
+      labels
+  );
+}
+
+/**
+ * Build the SVG for a chart
+ */
+export function buildChartSvg(spec: ChartSpec): string {
+  switch (spec.type) {
+    case 'category':
+      return buildPieSvg(spec);
+    case 'monthly':
+      return buildBarSvg(spec);
+    case 'daily':
+      return buildLineSvg(spec);
+  }
+}
+
+/**
+ * Rasterize a chart to PNG
+ */
+export function renderChartPng(spec: ChartSpec): Buffer {
+  const resvg = new Resvg(buildChartSvg(spec), {
+    font: { loadSystemFonts: true, defaultFontFamily: 'DejaVu Sans' },
+  });
+  return resvg.render().asPng();
+}
+
+/**
+ * Default date range for a chart, ending today in the user's timezone
+ */
+export function getDefaultChartRange(
+  type: ChartType,
+  today: string
+): { dateFrom: string; dateTo: string } {
+  const current = parseISO(today);
+  const dateFrom =
+    type === 'category'
+      ? startOfMonth(current)
+      : type === 'monthly'
+        ? startOfMonth(subMonths(current, 5))
+        : subDays(current, 29);
+  return { dateFrom: format(dateFrom, 'yyyy-MM-dd'), dateTo: today };
+}
+
+/**
+ * Fill every month (or day) of the range so gaps show as zero
+ */
+function fillTimeSeries(
+  type: 'monthly' | 'daily',
+  values: Map<string, number>,
+  dateFrom: string,
+  dateTo: string
+): ChartPoint[] {
+  const points: ChartPoint[] = [];
+  const end = parseISO(dateTo);
+
+  if (type === 'monthly') {
+    for (let month = startOfMonth(parseISO(dateFrom)); month <= end; month = addMonths(month, 1)) {
+      points.push({
+        label: format(month, 'MMM yy'),
+        value: values.get(format(month, 'yyyy-MM')) ?? 0,
+      });
+    }
+  } else {
+    for (let day = parseISO(dateFrom); day <= end; day = addDays(day, 1)) {
+      points.push({
+        label: format(day, 'd MMM'),
+        value: values.get(format(day, 'yyyy-MM-dd')) ?? 0,
+      });
+    }
+  }
+
+  return points;
+}
+
+function buildChartTitle(type: ChartType, dateFrom: string, dateTo: string): string {
+  const range = `${format(parseISO(dateFrom), 'd MMM yyyy')} – ${format(parseISO(dateTo), 'd MMM yyyy')}`;
+  return type === 'category'
+    ? `Spending by category · ${range}`
+    : type === 'monthly'
+      ? `Monthly spending · ${range}`
+      : `Daily spending · ${range}`;
+}
+
+/**
+ * Build a spending (expense) chart for a user in their default currency
+ * @returns null if there are no expenses in the range
+ */
+export async function createSpendingChart(
+  userId: number,
+  type: ChartType,
+  range?: { dateFrom?: string; dateTo?: string }
+): Promise<SpendingChart | null> {
+  const [timezone, currency] = await Promise.all([
+    getUserTimezone(userId),
+    getUserDefaultCurrency(userId),
+  ]);
+  const today = formatInTimeZone(new Date(), timezone, 'yyyy-MM-dd');
+  const defaults = getDefaultChartRange(type, range?.dateTo ?? today);
+  const dateFrom = range?.dateFrom ?? defaults.dateFrom;
+  const dateTo = range?.dateTo ?? defaults.dateTo;
+
+  const groups = await aggregateTransactions({
+    userId,
+    groupBy: type === 'category' ? 'category' : type === 'monthly' ? 'month' : 'day',
+    dateFrom,
+    dateTo,
+    transactionType: 'expense',
+    limit: 1000,
+  });
+
+  // Charts are in the default currency; leftovers in other currencies can't be added in
+  const values = new Map<string, number>();
+  for (const group of groups) {
+    if (group.currency === currency && group.key) {
+      values.set(group.key, group.total);
+    }
+  }
+
+  const total = [...values.values()].reduce((sum, value) => sum + value, 0);
+  if (total <= 0) {
+    return null;
+  }
+
+  const points =
+    type === 'category'
+      ? [...values.entries()].map(([label, value]) => ({ label, value }))
+      : fillTimeSeries(type, values, dateFrom, dateTo);
+
+  const spec: ChartSpec = {
+    type,
+    title: buildChartTitle(type, dateFrom, dateTo),
+    currency,
+    points,
+  };
+
+  return { png: renderChartPng(spec), spec, total, dateFrom, dateTo };
+}
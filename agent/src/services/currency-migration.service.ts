@@ -0,0 +1,437 @@
+/**
+ * Currency Migration Service
+ *
+ * Re-denominates a user's history after /currency changes their default, so
+ * totals never mix currencies. Each transaction is recomputed from its original
+ * amount (or the old amount) at the rate of its own transaction date, with the
+ * previous values written to transaction_currency_audit first. Progress lives in
+ * currency_migrations, so an interrupted job is resumed by the scheduler.
+ */
+
+import type { Mastra } from '@mastra/core/mastra';
+import { supabaseService } from '../lib/supabase';
+import { messages } from '../lib/messages';
+import type { Database } from '../lib/database.types';
+import { convertCurrency } from '../lib/currency';
+import { AgentResponseCache } from '../lib/prompt-cache';
+import { sendProactiveMessage } from './notification.service';
+
+// Logger type - matches what mastra.getLogger() returns
+type Logger = ReturnType<Mastra['getLogger']>;
+
+export type CurrencyMigration = Database['public']['Tables']['currency_migrations']['Row'];
+type TransactionUpdate = Database['public']['Tables']['transactions']['Update'];
+
+export interface MigratableTransaction {
+  id: string;
+  amount: number;
+  currency: string;
+  transaction_date: string;
+  original_amount: number | null;
+  original_currency: string | null;
+  converted_amount: number | null;
+  conversion_rate: number | null;
+}
+
+export interface MigrationProgress {
+  processed: number;
+  failed: number;
+  total: number;
+}
+
+const BATCH_SIZE = 100;
+
+/** A running migration not updated for this long is treated as interrupted */
+const STALE_MIGRATION_MS = 10 * 60 * 1000;
+
+/**
+ * The amount a transaction was originally entered in
+ * Converted rows keep it in original_amount/original_currency; others in amount/currency.
+ */
+export function getOriginalValue(tx: MigratableTransaction): { amount: number; currency: string } {
+  if (tx.original_amount !== null && tx.original_currency) {
+    return { amount: Number(tx.original_amount), currency: tx.original_currency };
+  }
+  return { amount: Number(tx.amount), currency: tx.currency };
+}
+
+/**
+ * Build the update that re-denominates one transaction into `toCurrency`
+ * @param conversion - Result of converting the original value; null when it is already in toCurrency
+ */
+export function buildRedenominationUpdate(
+  tx: MigratableTransaction,
+  toCurrency: string,
+  conversion: Awaited<ReturnType<typeof convertCurrency>> | null,
+  convertedAt: string = new Date().toISOString()
+): TransactionUpdate {
+  const original = getOriginalValue(tx);
+
+  // Entered in the new default: back to an unconverted row
+  if (!conversion) {
+    return {
+      amount: original.amount,
+      currency: toCurrency,
+      original_amount: null,
+      original_currency: null,
+      converted_amount: null,
+      conversion_rate: null,
+      converted_at: null,
+      conversion_rate_source: null,
+      conversion_rate_date: null,
+    };
+  }
+
+  return {
+    amount: conversion.convertedAmount,
+    currency: toCurrency,
+    original_amount: original.amount,
+    original_currency: original.currency,
+    converted_amount: conversion.convertedAmount,
+    conversion_rate: conversion.rate,
+    converted_at: convertedAt,
+    conversion_rate_source: conversion.source,
+    conversion_rate_date: conversion.rateDate,
+  };
+}
+
+/**
+ * Record a currency change and count the transactions to re-denominate
+ * Any migration still running for the user is superseded (this one converts everything).
+ */
+export async function startCurrencyMigration(
+  userId: number,
+  fromCurrency: string,
+  toCurrency: string
+): Promise<CurrencyMigration> {
+  await supabaseService
+    .from('currency_migrations')
+    .update({ status: 'superseded', completed_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('status', 'running');
+
+  const { count, error: countError } = await supabaseService
+    .from('transactions')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .neq('currency', toCurrency);
+
+  if (countError) {
+    throw new Error(`Failed to count transactions for currency migration: ${countError.message}`);
+  }
+
+  const { data, error } = await supabaseService
+    .from('currency_migrations')
+    .insert({
+      user_id: userId,
+      from_currency: fromCurrency,
+      to_currency: toCurrency,
+      total_count: count ?? 0,
+    })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create currency migration: ${error?.message ?? 'no data'}`);
+  }
+
+  return data;
+}
+
+/**
+ * Re-denominate one transaction, writing the audit row first
+ * @returns true if the transaction was updated
+ */
+async function migrateTransaction(
+  migration: CurrencyMigration,
+  tx: MigratableTransaction
+): Promise<boolean> {
+  const original = getOriginalValue(tx);
+  const conversion =
+    original.currency === migration.to_currency
+      ? null
+      : await convertCurrency(
+          original.amount,
+          original.currency,
+          migration.to_currency,
+          tx.transaction_date
+        );
+  const update = buildRedenominationUpdate(tx, migration.to_currency, conversion);
+
+  const { data: audit, error: auditError } = await supabaseService
+    .from('transaction_currency_audit')
+    .insert({
+      migration_id: migration.id,
+      transaction_id: tx.id,
+      user_id: migration.user_id,
+      old_amount: tx.amount,
+      old_currency: tx.currency,
+      old_converted_amount: tx.converted_amount,
+      old_conversion_rate: tx.conversion_rate,
+      new_amount: update.amount ?? tx.amount,
+      new_currency: migration.to_currency,
+      new_conversion_rate: update.conversion_rate ?? null,
+    })
+    .select('id')
+    .single();
+
+  if (auditError || !audit) {
+    throw new Error(`Failed to write currency audit: ${auditError?.message ?? 'no data'}`);
+  }
+
+  // Compare-and-set on currency: skip rows another run already converted
+  const { data: updated, error: updateError } = await supabaseService
+    .from('transactions')
+    .update(update)
+    .eq('id', tx.id)
+    .eq('currency', tx.currency)
+    .select('id');
+
+  if (updateError || !updated || updated.length === 0) {
+    await supabaseService.from('transaction_currency_audit').delete().eq('id', audit.id);
+    if (updateError) {
+      throw new Error(`Failed to update transaction: ${updateError.message}`);
+    }
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Convert budgets to the new default at today's rate
+ */
+async function migrateBudgets(userId: number, toCurrency: string, logger?: Logger): Promise<void> {
+  const { data: budgets, error } = await supabaseService
+    .from('budgets')
+    .select('id, amount, currency')
+    .eq('user_id', userId)
+    .neq('currency', toCurrency);
+
+  if (error) {
+    throw new Error(`Failed to fetch budgets for currency migration: ${error.message}`);
+  }
+
+  for (const budget of budgets || []) {
+    try {
+      const { convertedAmount } = await convertCurrency(
+        Number(budget.amount),
+        budget.currency,
+        toCurrency
+      );
+      await supabaseService
+        .from('budgets')
+        .update({ amount: convertedAmount, currency: toCurrency })
+        .eq('id', budget.id);
+    } catch (budgetError) {
+      logger?.warn('[currency-migration]', {
+        event: 'budget_conversion_failed',
+        userId,
+        budgetId: budget.id,
+        error: budgetError instanceof Error ? budgetError.message : String(budgetError),
+      });
+    }
+  }
+}
+
+/**
+ * Run (or resume) a migration until every transaction is in the new currency
+ * Stops early if a newer currency change supersedes it.
+ *
+ * @param onProgress - Called after each batch (e.g. to edit a progress message)
+ * @returns Final migration row
+ */
+export async function runCurrencyMigration(
+  migrationId: string,
+  logger?: Logger,
+  onProgress?: (progress: MigrationProgress) => Promise<void>
+): Promise<CurrencyMigration> {
+  const { data: migration, error } = await supabaseService
+    .from('currency_migrations')
+    .select('*')
+    .eq('id', migrationId)
+    .single();
+
+  if (error || !migration) {
+    throw new Error(`Failed to load currency migration: ${error?.message ?? 'not found'}`);
+  }
+
+  let processed = migration.processed_count;
+  let failed = migration.failed_count;
+  let lastId: string | null = null;
+
+  logger?.info('[currency-migration]', {
+    event: 'start',
+    migrationId,
+    userId: migration.user_id,
+    from: migration.from_currency,
+    to: migration.to_currency,
+    total: migration.total_count,
+    processed,
+  });
+
+  try {
+    for (;;) {
+      let query = supabaseService
+        .from('transactions')
+        .select(
+          'id, amount, currency, transaction_date, original_amount, original_currency, converted_amount, conversion_rate'
+        )
+        .eq('user_id', migration.user_id)
+        .neq('currency', migration.to_currency)
+        .order('id', { ascending: true })
+        .limit(BATCH_SIZE);
+      if (lastId) {
+        query = query.gt('id', lastId);
+      }
+
+      const { data: batch, error: batchError } = await query;
+      if (batchError) {
+        throw new Error(`Failed to fetch transactions: ${batchError.message}`);
+      }
+      if (!batch || batch.length === 0) {
+        break;
+      }
+
+      const processedBefore = processed;
+      for (const tx of batch) {
+        try {
+          if (await migrateTransaction(migration, tx)) {
+            processed++;
+          }
+        } catch (txError) {
+          failed++;
+          logger?.warn('[currency-migration]', {
+            event: 'transaction_failed',
+            migrationId,
+            transactionId: tx.id,
+            error: txError instanceof Error ? txError.message : String(txError),
+          });
+        }
+      }
+      lastId = batch[batch.length - 1].id;
+
+      // Answers cached before this batch quote amounts in the old currency
+      if (processed > processedBefore) {
+        await AgentResponseCache.bumpDataVersion(migration.user_id);
+      }
+
+      // Save progress; a superseded migration stops here
+      const { data: stillRunning } = await supabaseService
+        .from('currency_migrations')
+        .update({ processed_count: processed, failed_count: failed })
+        .eq('id', migrationId)
+        .eq('status', 'running')
+        .select('id');
+
+      if (!stillRunning || stillRunning.length === 0) {
+        logger?.info('[currency-migration]', { event: 'superseded', migrationId, processed });
+        return {
+          ...migration,
+          status: 'superseded',
+          processed_count: processed,
+          failed_count: failed,
+        };
+      }
+
+      await onProgress?.({ processed, failed, total: migration.total_count });
+    }
+
+    await migrateBudgets(migration.user_id, migration.to_currency, logger);
+
+    const { data: completed } = await supabaseService
+      .from('currency_migrations')
+      .update({
+        status: 'completed',
+        processed_count: processed,
+        failed_count: failed,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', migrationId)
+      .eq('status', 'running')
+      .select('*');
+
+    logger?.info('[currency-migration]', { event: 'completed', migrationId, processed, failed });
+
+    return (
+      completed?.[0] ?? {
+        ...migration,
+        status: 'superseded',
+        processed_count: processed,
+        failed_count: failed,
+      }
+    );
+  } catch (runError) {
+    const message = runError instanceof Error ? runError.message : String(runError);
+    logger?.error('[currency-migration]', { event: 'failed', migrationId, error: message });
+
+    await supabaseService
+      .from('currency_migrations')
+      .update({
+        status: 'failed',
+        processed_count: processed,
+        failed_count: failed,
+        error: message,
+      })
+      .eq('id', migrationId);
+
+    return {
+      ...migration,
+      status: 'failed',
+      processed_count: processed,
+      failed_count: failed,
+      error: message,
+    };
+  }
+}
+
+/**
+ * Scheduler job: resume migrations interrupted by a restart and notify the user when done
+ */
+export async function resumeStaleCurrencyMigrations(logger?: Logger): Promise<number> {
+  const staleBefore = new Date(Date.now() - STALE_MIGRATION_MS).toISOString();
+
+  const { data: stale, error } = await supabaseService
+    .from('currency_migrations')
+    .select('id, user_id, updated_at')
+    .eq('status', 'running')
+    .lt('updated_at', staleBefore);
+
+  if (error) {
+    logger?.error('[currency-migration]', { event: 'fetch_stale_failed', error: error.message });
+    return 0;
+  }
+
+  let resumed = 0;
+  for (const migration of stale || []) {
+    // Claim it: touching the row bumps updated_at, so other instances skip it
+    const { data: claimed } = await supabaseService
+      .from('currency_migrations')
+      .update({ error: null })
+      .eq('id', migration.id)
+      .eq('updated_at', migration.updated_at)
+      .select('id');
+
+    if (!claimed || claimed.length === 0) {
+      continue;
+    }
+
+    resumed++;
+    const result = await runCurrencyMigration(migration.id, logger);
+    if (result.status === 'completed' || result.status === 'failed') {
+      await sendProactiveMessage(
+        migration.user_id,
+        result.status === 'completed'
+          ? messages.currency.migrationCompleted(
+              result.processed_count,
+              result.failed_count,
+              result.to_currency
+            )
+          : messages.currency.migrationFailed(result.to_currency),
+        { parse_mode: 'Markdown' }
+      );
+    }
+  }
+
+  return resumed;
+}
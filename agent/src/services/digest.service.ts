@@ -0,0 +1,301 @@
+/**
+ * Spending Digest Service
+ *
+ * Weekly (Monday) and monthly (1st of the month) summaries of the period that just
+ * ended: totals, top categories and merchants, and the change versus the period
+ * before. Weekly digests also carry the current month's forecast. The scheduler sends
+ * them at each user's preferred local hour (users.digest_hour in users.timezone);
+ * /digest previews them on demand.
+ */
+
+import type { Mastra } from '@mastra/core/mastra';
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  addDays,
+  endOfMonth,
+  format,
+  parseISO,
+  startOfISOWeek,
+  startOfMonth,
+  subMonths,
+  subWeeks,
+} from 'date-fns';
+import { supabaseService } from '../lib/supabase';
+import { messages } from '../lib/messages';
+import { getUserDefaultCurrency } from '../lib/currency';
+import { aggregateTransactions, type AggregationGroup } from './transaction-aggregation.service';
+import { sendProactiveMessage } from './notification.service';
+import { getUserTimezone } from './user.service';
+import { getMonthForecast, type MonthForecast } from './forecast.service';
+
+// Logger type - matches what mastra.getLogger() returns
+type Logger = ReturnType<Mastra['getLogger']>;
+
+export type DigestKind = 'weekly' | 'monthly';
+
+export interface DigestPeriod {
+  dateFrom: string;
+  dateTo: string;
+  previousFrom: string;
+  previousTo: string;
+}
+
+export interface DigestRanking {
+  name: string;
+  total: number;
+  count: number;
+}
+
+export interface SpendingDigest {
+  kind: DigestKind;
+  currency: string;
+  period: DigestPeriod;
+  spent: number;
+  income: number;
+  transactionCount: number;
+  previousSpent: number;
+  changePercent: number | null; // null when there was no spending in the previous period
+  topCategories: DigestRanking[];
+  topMerchants: DigestRanking[];
+  /** Month-end projection for the current month (weekly digests only) */
+  forecast: Pick<MonthForecast, 'month' | 'spentSoFar' | 'projected' | 'low' | 'high'> | null;
+}
+
+const TOP_COUNT = 3;
+/** Too early in the month for a meaningful forecast before this day */
+const MIN_FORECAST_DAY = 3;
+
+/**
+ * The last complete week (Monday-Sunday) or month before `today`, and the one before it
+ */
+export function getDigestPeriod(kind: DigestKind, today: string): DigestPeriod {
+  const current = parseISO(today);
+
+  if (kind === 'weekly') {
+    const start = subWeeks(startOfISOWeek(current), 1);
+    const previousStart = subWeeks(start, 1);
+    return {
+      dateFrom: format(start, 'yyyy-MM-dd'),
+      dateTo: format(addDays(start, 6), 'yyyy-MM-dd'),
+      previousFrom: format(previousStart, 'yyyy-MM-dd'),
+      previousTo: format(addDays(previousStart, 6), 'yyyy-MM-dd'),
+    };
+  }
+
+  const start = startOfMonth(subMonths(current, 1));
+  const previousStart = subMonths(start, 1);
+  return {
+    dateFrom: format(start, 'yyyy-MM-dd'),
+    dateTo: format(endOfMonth(start), 'yyyy-MM-dd'),
+    previousFrom: format(previousStart, 'yyyy-MM-dd'),
+    previousTo: format(endOfMonth(previousStart), 'yyyy-MM-dd'),
+  };
+}
+
+/**
+ * Which digests are due at a user's local time
+ * Weekly digests go out on Mondays and monthly ones on the 1st, from the preferred
+ * hour on, once per local date.
+ */
+export function getDueDigests(
+  frequency: 'off' | 'weekly' | 'monthly' | 'both',
+  localDate: string,
+  localHour: number,
+  digestHour: number,
+  lastSent: { weekly: string | null; monthly: string | null }
+): DigestKind[] {
+  if (frequency === 'off' || localHour < digestHour) {
+    return [];
+  }
+
+  const date = parseISO(localDate);
+  const due: DigestKind[] = [];
+
+  if (
+    (frequency === 'weekly' || frequency === 'both') &&
+    date.getDay() === 1 &&
+    lastSent.weekly !== localDate
+  ) {
+    due.push('weekly');
+  }
+
+  if (
+    (frequency === 'monthly' || frequency === 'both') &&
+    date.getDate() === 1 &&
+    lastSent.monthly !== localDate
+  ) {
+    due.push('monthly');
+  }
+
+  return due;
+}
+
+function sumInCurrency(groups: AggregationGroup[], currency: string): number {
+  return groups
+    .filter((group) => group.currency === currency)
+    .reduce((sum, group) => sum + group.total, 0);
+}
+
+function toRankings(groups: AggregationGroup[], currency: string): DigestRanking[] {
+  return groups
+    .filter((group) => group.currency === currency && group.key)
+    .slice(0, TOP_COUNT)
+    .map((group) => ({ name: group.key as string, total: group.total, count: group.count }));
+}
+
+/**
+ * Build a user's digest for the last complete week or month
+ * Amounts are in the user's default currency. A failed forecast is left out rather than
+ * failing the digest.
+ */
+export async function buildSpendingDigest(
+  userId: number,
+  kind: DigestKind,
+  today?: string,
+  logger?: Logger
+): Promise<SpendingDigest> {
+  const [timezone, currency] = await Promise.all([
+    getUserTimezone(userId),
+    getUserDefaultCurrency(userId),
+  ]);
+  const localToday = today ?? formatInTimeZone(new Date(), timezone, 'yyyy-MM-dd');
+  const period = getDigestPeriod(kind, localToday);
+  const range = { userId, dateFrom: period.dateFrom, dateTo: period.dateTo };
+
+  const [expenses, income, previous, categories, merchants] = await Promise.all([
+    aggregateTransactions({ ...range, transactionType: 'expense' }),
+    aggregateTransactions({ ...range, transactionType: 'income' }),
+    aggregateTransactions({
+      userId,
+      dateFrom: period.previousFrom,
+      dateTo: period.previousTo,
+      transactionType: 'expense',
+    }),
+    aggregateTransactions({ ...range, transactionType: 'expense', groupBy: 'category' }),
+    aggregateTransactions({ ...range, transactionType: 'expense', groupBy: 'merchant' }),
+  ]);
+
+  const spent = sumInCurrency(expenses, currency);
+  const previousSpent = sumInCurrency(previous, currency);
+  const forecast =
+    kind === 'weekly' && parseISO(localToday).getDate() >= MIN_FORECAST_DAY
+      ? await getMonthForecast(userId, localToday).catch((error) => {
+          logger?.warn('[digest]', {
+            event: 'forecast_failed',
+            userId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return null;
+        })
+      : null;
+
+  return {
+    kind,
+    currency,
+    period,
+    spent,
+    income: sumInCurrency(income, currency),
+    transactionCount: expenses
+      .filter((group) => group.currency === currency)
+      .reduce((sum, group) => sum + group.count, 0),
+    previousSpent,
+    changePercent:
+      previousSpent > 0 ? Math.round(((spent - previousSpent) / previousSpent) * 100) : null,
+    topCategories: toRankings(categories, currency),
+    topMerchants: toRankings(merchants, currency),
+    forecast:
+      forecast && forecast.projected > 0
+        ? {
+            month: forecast.month,
+            spentSoFar: forecast.spentSoFar,
+            projected: forecast.projected,
+            low: forecast.low,
+            high: forecast.high,
+          }
+        : null,
+  };
+}
+
+/**
+ * Scheduler job: send the digests that are due at each opted-in user's local time
+ * Each digest is claimed by setting its last-sent date, so only one instance sends it;
+ * a failed build or send restores the date so the next run retries.
+ */
+export async function runDueDigests(logger?: Logger, now: Date = new Date()): Promise<number> {
+  const { data: users, error } = await supabaseService
+    .from('users')
+    .select(
+      'id, timezone, digest_frequency, digest_hour, last_weekly_digest_on, last_monthly_digest_on'
+    )
+    .neq('digest_frequency', 'off');
+
+  if (error) {
+    throw new Error(`Failed to fetch digest subscribers: ${error.message}`);
+  }
+
+  let sent = 0;
+  for (const user of users || []) {
+    const timezone = user.timezone || 'UTC';
+    const localDate = formatInTimeZone(now, timezone, 'yyyy-MM-dd');
+    const localHour = Number(formatInTimeZone(now, timezone, 'H'));
+
+    const due = getDueDigests(user.digest_frequency, localDate, localHour, user.digest_hour, {
+      weekly: user.last_weekly_digest_on,
+      monthly: user.last_monthly_digest_on,
+    });
+
+    for (const kind of due) {
+      const column = kind === 'weekly' ? 'last_weekly_digest_on' : 'last_monthly_digest_on';
+      const previous = kind === 'weekly' ? user.last_weekly_digest_on : user.last_monthly_digest_on;
+
+      // Claim: only the instance that moves the last-sent date sends the digest
+      const { data: claimed } = await supabaseService
+        .from('users')
+        .update({ [column]: localDate })
+        .eq('id', user.id)
+        .or(`${column}.is.null,${column}.neq.${localDate}`)
+        .select('id');
+
+      if (!claimed || claimed.length === 0) {
+        continue;
+      }
+
+      try {
+        const digest = await buildSpendingDigest(user.id, kind, localDate, logger);
+
+        // Nothing happened in either period: skip rather than send an empty digest
+        if (digest.spent === 0 && digest.income === 0 && digest.previousSpent === 0) {
+          continue;
+        }
+
+        const delivered = await sendProactiveMessage(user.id, messages.digest.summary(digest), {
+          parse_mode: 'Markdown',
+        });
+        if (!delivered) {
+          throw new Error('Telegram delivery failed');
+        }
+        sent++;
+      } catch (digestError) {
+        // Release the claim so the next run retries this digest
+        await supabaseService
+          .from('users')
+          .update({ [column]: previous })
+          .eq('id', user.id)
+          .eq(column, localDate);
+
+        logger?.error('[digest]', {
+          event: 'send_failed',
+          userId: user.id,
+          kind,
+          error: digestError instanceof Error ? digestError.message : String(digestError),
+        });
+      }
+    }
+  }
+
+  if (sent > 0) {
+    logger?.info('[digest]', { event: 'sent', count: sent });
+  }
+
+  return sent;
+}
@@ -0,0 +1,335 @@
+/**
+ * Forecast Service
+ *
+ * Projects month-end spending per category from three inputs:
+ * - month-to-date expenses (already spent, counted as-is)
+ * - known recurring schedules still due this month (counted at their exact amount)
+ * - variable spending still to come, estimated from how much the user spent over the
+ *   same remaining part of each of the last few months, plus the current run rate
+ *
+ * The estimates' mean is the projection and their min/max the range, so the answer is
+ * computed rather than guessed by the LLM. Amounts are in the user's default currency.
+ */
+
+import { formatInTimeZone } from 'date-fns-tz';
+import { endOfMonth, format, getDaysInMonth, parseISO, startOfMonth, subMonths } from 'date-fns';
+import { supabaseService } from '../lib/supabase';
+import { convertCurrency, getUserDefaultCurrency } from '../lib/currency';
+import { getUserTimezone } from './user.service';
+import { getBudgets } from './budget.service';
+import { getNextRunDate, getRecurringTransactions } from './recurring.service';
+
+/** Past complete months used for spending curves */
+const HISTORY_MONTHS = 3;
+/** ± range used when there is a single estimate (e.g. no usable history yet) */
+const RUN_RATE_SPREAD = 0.25;
+const PAGE_SIZE = 1000;
+const MAX_PAGES = 20;
+
+export interface ForecastExpense {
+  date: string; // YYYY-MM-DD
+  category: string;
+  merchant: string;
+  amount: number;
+}
+
+export interface UpcomingRecurring {
+  date: string;
+  category: string;
+  amount: number;
+}
+
+export interface CategoryForecast {
+  category: string;
+  spentSoFar: number;
+  recurringRemaining: number;
+  projected: number;
+  low: number;
+  high: number;
+  budget: number | null;
+}
+
+export interface MonthForecast {
+  month: string; // YYYY-MM
+  currency: string;
+  today: string;
+  daysElapsed: number;
+  daysInMonth: number;
+  spentSoFar: number;
+  projected: number;
+  low: number;
+  high: number;
+  /** Average total of the past months used for the curves (null without history) */
+  typicalMonth: number | null;
+  /** Past months that had any spending - 0 means the range comes from the run rate only */
+  historyMonths: number;
+  categories: CategoryForecast[];
+}
+
+export interface ForecastInput {
+  today: string;
+  /** Expenses from the 1st of the month through today */
+  monthToDate: ForecastExpense[];
+  /** Expenses of the previous complete months, in any order */
+  history: ForecastExpense[];
+  upcomingRecurring: UpcomingRecurring[];
+  /** lowercase "merchant|category" keys of recurring schedules, excluded from variable spend */
+  recurringKeys?: Set<string>;
+  budgets?: Map<string, number>;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function recurringKey(merchant: string, category: string): string {
+  return `${merchant.trim().toLowerCase()}|${category.trim().toLowerCase()}`;
+}
+
+function categoryKey(category: string): string {
+  return category.trim().toLowerCase();
+}
+
+/**
+ * Project month-end spending from month-to-date, history and upcoming recurring items
+ * Pure - all data is passed in, so it is deterministic and testable.
+ */
+export function buildMonthForecast(input: ForecastInput, currency: string): MonthForecast {
+  const today = parseISO(input.today);
+  const daysInMonth = getDaysInMonth(today);
+  const daysElapsed = today.getDate();
+  const elapsedShare = daysElapsed / daysInMonth;
+  const isRecurring = (expense: ForecastExpense) =>
+    input.recurringKeys?.has(recurringKey(expense.merchant, expense.category)) ?? false;
+
+  // Past months keyed by YYYY-MM; each month's remaining variable spend per category is
+  // what was spent after the same share of that month had elapsed
+  const pastMonths = new Map<string, Map<string, number>>();
+  const pastTotals = new Map<string, number>();
+  for (const expense of input.history) {
+    const month = expense.date.slice(0, 7);
+    pastTotals.set(month, (pastTotals.get(month) ?? 0) + expense.amount);
+
+    const remaining = pastMonths.get(month) ?? new Map<string, number>();
+    pastMonths.set(month, remaining);
+
+    const date = parseISO(expense.date);
+    if (isRecurring(expense) || date.getDate() / getDaysInMonth(date) <= elapsedShare) {
+      continue;
+    }
+    const key = categoryKey(expense.category);
+    remaining.set(key, (remaining.get(key) ?? 0) + expense.amount);
+  }
+
+  const names = new Map<string, string>();
+  const spent = new Map<string, number>();
+  const variableSpent = new Map<string, number>();
+  const recurring = new Map<string, number>();
+  const add = (map: Map<string, number>, key: string, amount: number) =>
+    map.set(key, (map.get(key) ?? 0) + amount);
+
+  for (const expense of input.monthToDate) {
+    const key = categoryKey(expense.category);
+    names.set(key, names.get(key) ?? expense.category);
+    add(spent, key, expense.amount);
+    if (!isRecurring(expense)) {
+      add(variableSpent, key, expense.amount);
+    }
+  }
+  for (const item of input.upcomingRecurring) {
+    const key = categoryKey(item.category);
+    names.set(key, names.get(key) ?? item.category);
+    add(recurring, key, item.amount);
+  }
+  for (const expense of input.history) {
+    const key = categoryKey(expense.category);
+    names.set(key, names.get(key) ?? expense.category);
+  }
+
+  const daysLeft = daysInMonth - daysElapsed;
+  const categories: CategoryForecast[] = [];
+
+  for (const [key, category] of names) {
+    const spentSoFar = spent.get(key) ?? 0;
+    const recurringRemaining = recurring.get(key) ?? 0;
+
+    const estimates = [...pastMonths.values()].map((remaining) => remaining.get(key) ?? 0);
+    const runRate = ((variableSpent.get(key) ?? 0) / daysElapsed) * daysLeft;
+    if (runRate > 0 || estimates.length === 0) {
+      estimates.push(runRate);
+    }
+
+    const expected = estimates.reduce((sum, value) => sum + value, 0) / estimates.length;
+    const [low, high] =
+      estimates.length === 1
+        ? [expected * (1 - RUN_RATE_SPREAD), expected * (1 + RUN_RATE_SPREAD)]
+        : [Math.min(...estimates), Math.max(...estimates)];
+
+    const base = spentSoFar + recurringRemaining;
+    if (base + high === 0) {
+      continue;
+    }
+
+    categories.push({
+      category,
+      spentSoFar: round2(spentSoFar),
+      recurringRemaining: round2(recurringRemaining),
+      projected: round2(base + expected),
+      low: round2(base + low),
+      high: round2(base + high),
+      budget: input.budgets?.get(key) ?? null,
+    });
+  }
+
+  categories.sort((a, b) => b.projected - a.projected);
+
+  const sum = (pick: (category: CategoryForecast) => number) =>
+    round2(categories.reduce((total, category) => total + pick(category), 0));
+  const totals = [...pastTotals.values()];
+
+  return {
+    month: input.today.slice(0, 7),
+    currency,
+    today: input.today,
+    daysElapsed,
+    daysInMonth,
+    spentSoFar: sum((category) => category.spentSoFar),
+    projected: sum((category) => category.projected),
+    low: sum((category) => category.low),
+    high: sum((category) => category.high),
+    typicalMonth:
+      totals.length > 0 ? round2(totals.reduce((a, b) => a + b, 0) / totals.length) : null,
+    historyMonths: totals.length,
+    categories,
+  };
+}
+
+/**
+ * Fetch all expenses in the user's default currency between two dates (inclusive)
+ */
+async function fetchExpenses(
+  userId: number,
+  currency: string,
+  dateFrom: string,
+  dateTo: string
+): Promise<ForecastExpense[]> {
+  const expenses: ForecastExpense[] = [];
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const { data, error } = await supabaseService
+      .from('transactions')
+      .select('transaction_date, category, merchant, amount')
+      .eq('user_id', userId)
+      .eq('transaction_type', 'expense')
+      .eq('currency', currency)
+      .gte('transaction_date', dateFrom)
+      .lte('transaction_date', dateTo)
+      .order('id', { ascending: true })
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch transactions for forecast: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      expenses.push({
+        date: row.transaction_date,
+        category: row.category,
+        merchant: row.merchant,
+        amount: Number(row.amount),
+      });
+    }
+
+    if (!data || data.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return expenses;
+}
+
+/**
+ * Occurrences of active recurring expenses not yet logged this month, in `currency`
+ * Schedules in other currencies are converted at today's rate; failed conversions are skipped.
+ */
+async function getUpcomingRecurring(
+  userId: number,
+  currency: string,
+  monthStart: string,
+  monthEnd: string
+): Promise<{ upcoming: UpcomingRecurring[]; keys: Set<string> }> {
+  const schedules = (await getRecurringTransactions(userId)).filter(
+    (schedule) => schedule.status === 'active' && schedule.transaction_type === 'expense'
+  );
+
+  const upcoming: UpcomingRecurring[] = [];
+  const keys = new Set<string>();
+
+  for (const schedule of schedules) {
+    keys.add(recurringKey(schedule.merchant, schedule.category));
+
+    let amount = Number(schedule.amount);
+    if (schedule.currency !== currency) {
+      try {
+        amount = (await convertCurrency(amount, schedule.currency, currency)).convertedAmount;
+      } catch {
+        continue;
+      }
+    }
+
+    // next_run_date is the first occurrence the scheduler hasn't logged yet
+    let occurrence = schedule.next_run_date;
+    while (occurrence <= monthEnd && (!schedule.end_date || occurrence <= schedule.end_date)) {
+      if (occurrence >= monthStart) {
+        upcoming.push({ date: occurrence, category: schedule.category, amount });
+      }
+      occurrence = getNextRunDate(
+        occurrence,
+        schedule.frequency,
+        schedule.interval_count,
+        schedule.day_of_month
+      );
+    }
+  }
+
+  return { upcoming, keys };
+}
+
+/**
+ * Forecast the user's month-end spending as of `today` (defaults to their local date)
+ */
+export async function getMonthForecast(userId: number, today?: string): Promise<MonthForecast> {
+  const [timezone, currency] = await Promise.all([
+    getUserTimezone(userId),
+    getUserDefaultCurrency(userId),
+  ]);
+  const localToday = today ?? formatInTimeZone(new Date(), timezone, 'yyyy-MM-dd');
+  const current = parseISO(localToday);
+  const monthStart = format(startOfMonth(current), 'yyyy-MM-dd');
+  const monthEnd = format(endOfMonth(current), 'yyyy-MM-dd');
+  const historyStart = format(startOfMonth(subMonths(current, HISTORY_MONTHS)), 'yyyy-MM-dd');
+  const historyEnd = format(endOfMonth(subMonths(current, 1)), 'yyyy-MM-dd');
+
+  const [monthToDate, history, recurring, budgets] = await Promise.all([
+    fetchExpenses(userId, currency, monthStart, localToday),
+    fetchExpenses(userId, currency, historyStart, historyEnd),
+    getUpcomingRecurring(userId, currency, monthStart, monthEnd),
+    getBudgets(userId),
+  ]);
+
+  return buildMonthForecast(
+    {
+      today: localToday,
+      monthToDate,
+      history,
+      upcomingRecurring: recurring.upcoming,
+      recurringKeys: recurring.keys,
+      budgets: new Map(
+        budgets
+          .filter((budget) => budget.currency === currency)
+          .map((budget) => [categoryKey(budget.category), Number(budget.amount)])
+      ),
+    },
+    currency
+  );
+}
@@ -0,0 +1,122 @@
+/**
+ * Merchant Rule Service
+ *
+ * Per-user merchant → category rules learned from category corrections
+ * (e.g. the user moves "Noon" from Shopping to Groceries). A rule wins over the
+ * logger agent's guess the next time that merchant is saved. Viewed and deleted
+ * with /rules.
+ */
+
+import { supabaseService } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { normalizeMerchantKey } from './subscription-detection.service';
+
+export type MerchantRule = Database['public']['Tables']['merchant_category_rules']['Row'];
+
+/**
+ * Remember the category a user chose for a merchant (replaces any earlier rule)
+ */
+export async function learnMerchantCategory(
+  userId: number,
+  merchant: string,
+  category: string
+): Promise<MerchantRule | null> {
+  const merchantKey = normalizeMerchantKey(merchant);
+  if (!merchantKey) {
+    return null;
+  }
+
+  const { data, error } = await supabaseService
+    .from('merchant_category_rules')
+    .upsert(
+      { user_id: userId, merchant_key: merchantKey, merchant: merchant.trim(), category },
+      { onConflict: 'user_id,merchant_key' }
+    )
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save merchant rule: ${error?.message || 'Unknown error'}`);
+  }
+
+  return data;
+}
+
+/**
+ * Replace the agent's category with the user's rule for each expense's merchant
+ * One query for the whole message; income and refunds keep their own categories.
+ * @returns Transactions to save, and how many categories a rule changed
+ */
+export async function applyMerchantRules<
+  T extends { merchant: string; category: string; transactionType?: string },
+>(userId: number, transactions: T[]): Promise<{ transactions: T[]; applied: number }> {
+  const isExpense = (tx: T) => (tx.transactionType ?? 'expense') === 'expense';
+  const keys = [
+    ...new Set(transactions.filter(isExpense).map((tx) => normalizeMerchantKey(tx.merchant))),
+  ].filter(Boolean);
+  if (keys.length === 0) {
+    return { transactions, applied: 0 };
+  }
+
+  const { data, error } = await supabaseService
+    .from('merchant_category_rules')
+    .select('merchant_key, category')
+    .eq('user_id', userId)
+    .in('merchant_key', keys);
+
+  if (error) {
+    throw new Error(`Failed to fetch merchant rules: ${error.message}`);
+  }
+
+  const rules = new Map((data || []).map((rule) => [rule.merchant_key, rule.category]));
+  let applied = 0;
+  const result = transactions.map((tx) => {
+    const category = isExpense(tx) ? rules.get(normalizeMerchantKey(tx.merchant)) : undefined;
+    if (!category || category === tx.category) {
+      return tx;
+    }
+    applied++;
+    return { ...tx, category };
+  });
+
+  return { transactions: result, applied };
+}
+
+/**
+ * List a user's rules, alphabetically by merchant
+ */
+export async function getMerchantRules(userId: number): Promise<MerchantRule[]> {
+  const { data, error } = await supabaseService
+    .from('merchant_category_rules')
+    .select('*')
+    .eq('user_id', userId)
+    .order('merchant_key', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch merchant rules: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Delete a rule (transactions already saved keep their category)
+ * @returns The deleted rule, or null if not found
+ */
+export async function deleteMerchantRule(
+  userId: number,
+  ruleId: string
+): Promise<MerchantRule | null> {
+  const { data, error } = await supabaseService
+    .from('merchant_category_rules')
+    .delete()
+    .eq('id', ruleId)
+    .eq('user_id', userId)
+    .select('*');
+
+  if (error) {
+    throw new Error(`Failed to delete merchant rule: ${error.message}`);
+  }
+
+  return data?.[0] ?? null;
+}
@@ -0,0 +1,79 @@
+/**
+ * Notification Service
+ *
+ * Sends proactive (bot-initiated) Telegram messages, e.g. budget alerts and
+ * subscription confirmations.
+ * The bot API is injected at startup so background jobs and tools can message users
+ * without holding a grammY context.
+ */
+
+import { InputFile, type Api } from 'grammy';
+
+type SendMessageOptions = Parameters<Api['sendMessage']>[2];
+type SendPhotoOptions = Parameters<Api['sendPhoto']>[2];
+
+// Global reference to Telegram API for sending messages
+let telegramApi: Api | null = null;
+
+/**
+ * Initialize Telegram API for proactive messages
+ */
+export function initializeTelegramApi(api: Api): void {
+  telegramApi = api;
+}
+
+/**
+ * Send a proactive message to a user
+ * Never throws - delivery failures are logged and reported via the return value
+ *
+ * @returns true if the message was delivered
+ */
+export async function sendProactiveMessage(
+  userId: number,
+  text: string,
+  options?: SendMessageOptions
+): Promise<boolean> {
+  if (!telegramApi) {
+    console.warn(
+      '[notification.service] Telegram API not initialized, skipping message for user:',
+      userId
+    );
+    return false;
+  }
+
+  try {
+    await telegramApi.sendMessage(userId, text, options);
+    return true;
+  } catch (error) {
+    console.error('[notification.service] Failed to send message to user:', userId, error);
+    return false;
+  }
+}
+
+/**
+ * Send a proactive photo (e.g. a chart produced by a tool) to a user
+ * Never throws - delivery failures are logged and reported via the return value
+ *
+ * @returns true if the photo was delivered
+ */
+export async function sendProactivePhoto(
+  userId: number,
+  photo: Buffer,
+  options?: SendPhotoOptions
+): Promise<boolean> {
+  if (!telegramApi) {
+    console.warn(
+      '[notification.service] Telegram API not initialized, skipping photo for user:',
+      userId
+    );
+    return false;
+  }
+
+  try {
+    await telegramApi.sendPhoto(userId, new InputFile(photo, 'chart.png'), options);
+    return true;
+  } catch (error) {
+    console.error('[notification.service] Failed to send photo to user:', userId, error);
+    return false;
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Period Comparison Service
+ *
+ * Compares two date ranges ("October vs September") with exact totals from the
+ * aggregate_transactions RPC: absolute and percentage deltas per currency, plus the
+ * merchants whose change contributed most. Deltas are always periodB - periodA.
+ */
+
+import {
+  aggregateTransactions,
+  type AggregationFilters,
+  type AggregationGroup,
+} from './transaction-aggregation.service';
+
+/** Merchants fetched per period - enough to attribute the change for any realistic month */
+const MERCHANT_LIMIT = 500;
+const DEFAULT_DRIVER_COUNT = 5;
+
+export interface DateRange {
+  dateFrom: string;
+  dateTo: string;
+}
+
+export interface PeriodComparisonFilters {
+  userId: number;
+  periodA: DateRange;
+  periodB: DateRange;
+  category?: string;
+  merchant?: string; // Partial, case-insensitive match
+  transactionType?: 'expense' | 'income' | 'refund';
+  driverCount?: number;
+}
+
+export interface PeriodDelta {
+  currency: string;
+  totalA: number;
+  totalB: number;
+  countA: number;
+  countB: number;
+  delta: number;
+  /** null when periodA had nothing to compare against */
+  percentChange: number | null;
+}
+
+export interface MerchantDriver extends PeriodDelta {
+  merchant: string;
+}
+
+export interface PeriodComparison {
+  periodA: DateRange;
+  periodB: DateRange;
+  totals: PeriodDelta[];
+  drivers: MerchantDriver[];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function buildDelta(
+  currency: string,
+  a: AggregationGroup | undefined,
+  b: AggregationGroup | undefined
+): PeriodDelta {
+  const totalA = a?.total ?? 0;
+  const totalB = b?.total ?? 0;
+  return {
+    currency,
+    totalA: round2(totalA),
+    totalB: round2(totalB),
+    countA: a?.count ?? 0,
+    countB: b?.count ?? 0,
+    delta: round2(totalB - totalA),
+    percentChange: totalA > 0 ? Math.round(((totalB - totalA) / totalA) * 1000) / 10 : null,
+  };
+}
+
+function byCurrencyAndKey(groups: AggregationGroup[]): Map<string, AggregationGroup> {
+  return new Map(groups.map((group) => [`${group.currency}|${group.key ?? ''}`, group]));
+}
+
+/**
+ * Combine per-period aggregates into deltas
+ * Totals are per currency; drivers are the merchants with the largest absolute change,
+ * in the direction of their currency's overall change first.
+ */
+export function buildPeriodComparison(
+  periods: { periodA: DateRange; periodB: DateRange },
+  totalsA: AggregationGroup[],
+  totalsB: AggregationGroup[],
+  merchantsA: AggregationGroup[],
+  merchantsB: AggregationGroup[],
+  driverCount = DEFAULT_DRIVER_COUNT
+): PeriodComparison {
+  const totalMapA = byCurrencyAndKey(totalsA);
+  const totalMapB = byCurrencyAndKey(totalsB);
+  const currencies = [...new Set([...totalsA, ...totalsB].map((group) => group.currency))];
+
+  const totals = currencies
+    .map((currency) =>
+      buildDelta(currency, totalMapA.get(`${currency}|`), totalMapB.get(`${currency}|`))
+    )
+    .sort((x, y) => Math.max(y.totalA, y.totalB) - Math.max(x.totalA, x.totalB));
+  const direction = new Map(totals.map((total) => [total.currency, Math.sign(total.delta)]));
+
+  const merchantMapA = byCurrencyAndKey(merchantsA);
+  const merchantMapB = byCurrencyAndKey(merchantsB);
+  const merchantKeys = new Set([...merchantMapA.keys(), ...merchantMapB.keys()]);
+
+  const drivers = [...merchantKeys]
+    .map((key) => {
+      const group = merchantMapA.get(key) ?? merchantMapB.get(key);
+      return {
+        merchant: group?.key ?? 'Unknown',
+        ...buildDelta(group?.currency ?? '', merchantMapA.get(key), merchantMapB.get(key)),
+      };
+    })
+    .filter((driver) => driver.delta !== 0)
+    .sort((x, y) => {
+      const xWithTrend = Math.sign(x.delta) === direction.get(x.currency) ? 1 : 0;
+      const yWithTrend = Math.sign(y.delta) === direction.get(y.currency) ? 1 : 0;
+      return yWithTrend - xWithTrend || Math.abs(y.delta) - Math.abs(x.delta);
+    })
+    .slice(0, driverCount);
+
+  return { ...periods, totals, drivers };
+}
+
+/**
+ * Compare a user's spending (or income/refunds) between two date ranges
+ */
+export async function comparePeriods(filters: PeriodComparisonFilters): Promise<PeriodComparison> {
+  const { userId, periodA, periodB, category, merchant, driverCount } = filters;
+  const base: AggregationFilters = {
+    userId,
+    category,
+    merchant,
+    transactionType: filters.transactionType ?? 'expense',
+  };
+
+  const [totalsA, totalsB, merchantsA, merchantsB] = await Promise.all([
+    aggregateTransactions({ ...base, ...periodA }),
+    aggregateTransactions({ ...base, ...periodB }),
+    aggregateTransactions({ ...base, ...periodA, groupBy: 'merchant', limit: MERCHANT_LIMIT }),
+    aggregateTransactions({ ...base, ...periodB, groupBy: 'merchant', limit: MERCHANT_LIMIT }),
+  ]);
+
+  return buildPeriodComparison(
+    { periodA, periodB },
+    totalsA,
+    totalsB,
+    merchantsA,
+    merchantsB,
+    driverCount
+  );
+}
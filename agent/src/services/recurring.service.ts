@@ -0,0 +1,435 @@
+/**
+ * Recurring Transaction Service
+ *
+ * Schedules such as "rent 6000 AED every 1st of the month" and the job that
+ * materializes due occurrences into real transactions. Due dates are evaluated
+ * in each user's timezone; each occurrence is claimed with a compare-and-set on
+ * next_run_date so several instances running the job never log it twice.
+ */
+
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  addDays,
+  addWeeks,
+  addMonths,
+  addYears,
+  format,
+  getDaysInMonth,
+  parseISO,
+  setDate,
+  startOfMonth,
+} from 'date-fns';
+import type { Mastra } from '@mastra/core/mastra';
+import { supabaseService } from '../lib/supabase';
+import { messages } from '../lib/messages';
+import type { Database } from '../lib/database.types';
+import { getMerchantEmbedding } from '../lib/embeddings';
+import { getUserDefaultCurrency, convertCurrency, normalizeCurrency } from '../lib/currency';
+import { buildUndoKeyboard } from '../lib/transaction-format';
+import { getUserTimezone } from './user.service';
+import { sendProactiveMessage } from './notification.service';
+import { checkBudgetAfterSave } from './budget.service';
+import {
+  insertTransactionWithRetry,
+  type TransactionInsertPayload,
+  type TransactionType,
+} from './transaction.service';
+
+// Logger type - matches what mastra.getLogger() returns
+type Logger = ReturnType<Mastra['getLogger']>;
+
+export type RecurringTransaction = Database['public']['Tables']['recurring_transactions']['Row'];
+export type RecurringFrequency = RecurringTransaction['frequency'];
+
+export interface CreateRecurringInput {
+  userId: number;
+  amount: number;
+  currency: string;
+  merchant: string;
+  category: string;
+  transactionType?: TransactionType;
+  description?: string;
+  frequency: RecurringFrequency;
+  intervalCount?: number;
+  dayOfMonth?: number;
+  startDate: string;
+  endDate?: string;
+}
+
+/** Upper bound on missed occurrences logged for one schedule in a single run */
+const MAX_CATCH_UP_OCCURRENCES = 12;
+
+/**
+ * Compute the occurrence after `date` (YYYY-MM-DD)
+ * Monthly/yearly schedules keep their anchor day, clamped to short months
+ * (31st → Feb 28 → Mar 31).
+ */
+export function getNextRunDate(
+  date: string,
+  frequency: RecurringFrequency,
+  intervalCount = 1,
+  dayOfMonth?: number | null
+): string {
+  const current = parseISO(date);
+
+  if (frequency === 'daily') {
+    return format(addDays(current, intervalCount), 'yyyy-MM-dd');
+  }
+  if (frequency === 'weekly') {
+    return format(addWeeks(current, intervalCount), 'yyyy-MM-dd');
+  }
+
+  const monthStart =
+    frequency === 'monthly'
+      ? addMonths(startOfMonth(current), intervalCount)
+      : addYears(startOfMonth(current), intervalCount);
+  const anchorDay = dayOfMonth ?? current.getDate();
+  const day = Math.min(anchorDay, getDaysInMonth(monthStart));
+  return format(setDate(monthStart, day), 'yyyy-MM-dd');
+}
+
+function formatOrdinal(day: number): string {
+  const suffix =
+    day % 100 >= 11 && day % 100 <= 13 ? 'th' : (['th', 'st', 'nd', 'rd'][day % 10] ?? 'th');
+  return `${day}${suffix}`;
+}
+
+/**
+ * Human-readable cadence, e.g. "Every month on the 1st", "Every 2 weeks"
+ */
+export function describeRecurrence(
+  frequency: RecurringFrequency,
+  intervalCount = 1,
+  dayOfMonth?: number | null
+): string {
+  const units = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' } as const;
+  const unit = units[frequency];
+  const every = intervalCount === 1 ? `Every ${unit}` : `Every ${intervalCount} ${unit}s`;
+  return frequency === 'monthly' && dayOfMonth
+    ? `${every} on the ${formatOrdinal(dayOfMonth)}`
+    : every;
+}
+
+/**
+ * Create a recurring schedule; the first occurrence is logged on startDate
+ */
+export async function createRecurringTransaction(
+  input: CreateRecurringInput
+): Promise<RecurringTransaction> {
+  const needsAnchor = input.frequency === 'monthly' || input.frequency === 'yearly';
+
+  const { data, error } = await supabaseService
+    .from('recurring_transactions')
+    .insert({
+      user_id: input.userId,
+      amount: input.amount,
+      currency: normalizeCurrency(input.currency) || input.currency.toUpperCase(),
+      merchant: input.merchant,
+      category: input.category,
+      transaction_type: input.transactionType ?? 'expense',
+      description: input.description ?? null,
+      frequency: input.frequency,
+      interval_count: input.intervalCount ?? 1,
+      day_of_month: needsAnchor ? (input.dayOfMonth ?? parseISO(input.startDate).getDate()) : null,
+      next_run_date: input.startDate,
+      end_date: input.endDate ?? null,
+    })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create recurring transaction: ${error?.message ?? 'no data'}`);
+  }
+
+  return data;
+}
+
+/**
+ * List a user's schedules, oldest first
+ */
+export async function getRecurringTransactions(userId: number): Promise<RecurringTransaction[]> {
+  const { data, error } = await supabaseService
+    .from('recurring_transactions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch recurring transactions: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Pause or resume a schedule
+ * Resuming skips occurrences missed while paused instead of back-filling them.
+ * @returns The updated schedule, or null if not found
+ */
+export async function setRecurringStatus(
+  userId: number,
+  recurringId: string,
+  status: RecurringTransaction['status']
+): Promise<RecurringTransaction | null> {
+  const update: Database['public']['Tables']['recurring_transactions']['Update'] = { status };
+
+  if (status === 'active') {
+    const { data: existing } = await supabaseService
+      .from('recurring_transactions')
+      .select('*')
+      .eq('id', recurringId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!existing) {
+      return null;
+    }
+
+    const today = formatInTimeZone(new Date(), await getUserTimezone(userId), 'yyyy-MM-dd');
+    let nextRunDate = existing.next_run_date;
+    while (nextRunDate < today) {
+      nextRunDate = getNextRunDate(
+        nextRunDate,
+        existing.frequency,
+        existing.interval_count,
+        existing.day_of_month
+      );
+    }
+    update.next_run_date = nextRunDate;
+  }
+
+  const { data, error } = await supabaseService
+    .from('recurring_transactions')
+    .update(update)
+    .eq('id', recurringId)
+    .eq('user_id', userId)
+    .select('*');
+
+  if (error) {
+    throw new Error(`Failed to update recurring transaction: ${error.message}`);
+  }
+
+  return data?.[0] ?? null;
+}
+
+/**
+ * Delete a schedule (already logged transactions are kept)
+ * @returns The deleted schedule, or null if not found
+ */
+export async function deleteRecurringTransaction(
+  userId: number,
+  recurringId: string
+): Promise<RecurringTransaction | null> {
+  const { data, error } = await supabaseService
+    .from('recurring_transactions')
+    .delete()
+    .eq('id', recurringId)
+    .eq('user_id', userId)
+    .select('*');
+
+  if (error) {
+    throw new Error(`Failed to delete recurring transaction: ${error.message}`);
+  }
+
+  return data?.[0] ?? null;
+}
+
+/**
+ * Build the insert payload for one occurrence, converting to the user's default currency
+ */
+async function buildOccurrencePayload(
+  schedule: RecurringTransaction,
+  transactionDate: string,
+  logger?: Logger
+): Promise<TransactionInsertPayload> {
+  const [embeddingResult, defaultCurrency] = await Promise.all([
+    getMerchantEmbedding(schedule.merchant).catch(() => null),
+    getUserDefaultCurrency(schedule.user_id),
+  ]);
+
+  const amount = Number(schedule.amount);
+  const payload: TransactionInsertPayload = {
+    user_id: schedule.user_id,
+    amount,
+    currency: defaultCurrency,
+    merchant: schedule.merchant,
+    category: schedule.category,
+    description: schedule.description ?? 'Recurring',
+    transaction_date: transactionDate,
+    transaction_type: schedule.transaction_type,
+    merchant_embedding: embeddingResult,
+    original_amount: null,
+    original_currency: null,
+    converted_amount: null,
+    conversion_rate: null,
+    converted_at: null,
+    conversion_rate_source: null,
+    conversion_rate_date: null,
+  };
+
+  if (schedule.currency !== defaultCurrency) {
+    try {
+      const conversion = await convertCurrency(
+        amount,
+        schedule.currency,
+        defaultCurrency,
+        transactionDate
+      );
+      payload.amount = conversion.convertedAmount;
+      payload.original_amount = amount;
+      payload.original_currency = schedule.currency;
+      payload.converted_amount = conversion.convertedAmount;
+      payload.conversion_rate = conversion.rate;
+      payload.converted_at = new Date().toISOString();
+      payload.conversion_rate_source = conversion.source;
+      payload.conversion_rate_date = conversion.rateDate;
+    } catch (error) {
+      // Same fallback as the save tools: keep the original amount
+      logger?.warn('[recurring-service]', {
+        event: 'currency_conversion_failed',
+        recurringId: schedule.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return payload;
+}
+
+/**
+ * Log every due occurrence of one schedule
+ * @returns Number of transactions created
+ */
+async function materializeSchedule(
+  schedule: RecurringTransaction,
+  today: string,
+  logger?: Logger
+): Promise<number> {
+  let occurrence = schedule.next_run_date;
+  let created = 0;
+
+  while (
+    occurrence <= today &&
+    (!schedule.end_date || occurrence <= schedule.end_date) &&
+    created < MAX_CATCH_UP_OCCURRENCES
+  ) {
+    const nextRunDate = getNextRunDate(
+      occurrence,
+      schedule.frequency,
+      schedule.interval_count,
+      schedule.day_of_month
+    );
+
+    // Claim this occurrence; another instance may already have logged it
+    const { data: claimed, error: claimError } = await supabaseService
+      .from('recurring_transactions')
+      .update({ next_run_date: nextRunDate, last_run_date: occurrence })
+      .eq('id', schedule.id)
+      .eq('status', 'active')
+      .eq('next_run_date', occurrence)
+      .select('id');
+
+    if (claimError || !claimed || claimed.length === 0) {
+      break;
+    }
+
+    try {
+      const payload = await buildOccurrencePayload(schedule, occurrence, logger);
+      const { displayId } = await insertTransactionWithRetry(payload, logger);
+      created++;
+
+      if (payload.transaction_type === 'expense') {
+        void checkBudgetAfterSave(schedule.user_id, payload.category, logger);
+      }
+
+      await sendProactiveMessage(
+        schedule.user_id,
+        messages.recurring.logged(
+          displayId,
+          payload.merchant,
+          payload.amount,
+          payload.currency,
+          occurrence
+        ),
+        { parse_mode: 'Markdown', reply_markup: buildUndoKeyboard(displayId) }
+      );
+
+      logger?.info('[recurring-service]', {
+        event: 'occurrence_logged',
+        recurringId: schedule.id,
+        userId: schedule.user_id,
+        occurrence,
+        displayId,
+      });
+    } catch (error) {
+      // Release the claim so the next run retries this occurrence
+      await supabaseService
+        .from('recurring_transactions')
+        .update({ next_run_date: occurrence })
+        .eq('id', schedule.id)
+        .eq('next_run_date', nextRunDate);
+
+      logger?.error('[recurring-service]', {
+        event: 'occurrence_failed',
+        recurringId: schedule.id,
+        userId: schedule.user_id,
+        occurrence,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      break;
+    }
+
+    occurrence = nextRunDate;
+  }
+
+  return created;
+}
+
+/**
+ * Scheduler job: log all due occurrences for all users
+ * Never throws - failures are logged per schedule
+ */
+export async function runDueRecurringTransactions(
+  logger?: Logger,
+  now: Date = new Date()
+): Promise<{ schedules: number; created: number }> {
+  // UTC+14 is the furthest-ahead timezone, so nothing later than tomorrow (UTC) can be due
+  const latestPossibleDate = format(
+    addDays(parseISO(now.toISOString().slice(0, 10)), 1),
+    'yyyy-MM-dd'
+  );
+
+  const { data: schedules, error } = await supabaseService
+    .from('recurring_transactions')
+    .select('*')
+    .eq('status', 'active')
+    .lte('next_run_date', latestPossibleDate);
+
+  if (error) {
+    logger?.error('[recurring-service]', { event: 'fetch_due_failed', error: error.message });
+    return { schedules: 0, created: 0 };
+  }
+
+  let created = 0;
+  for (const schedule of schedules || []) {
+    try {
+      const timezone = await getUserTimezone(schedule.user_id);
+      const today = formatInTimeZone(now, timezone, 'yyyy-MM-dd');
+      created += await materializeSchedule(schedule, today, logger);
+    } catch (scheduleError) {
+      logger?.error('[recurring-service]', {
+        event: 'schedule_failed',
+        recurringId: schedule.id,
+        error: scheduleError instanceof Error ? scheduleError.message : String(scheduleError),
+      });
+    }
+  }
+
+  logger?.info('[recurring-service]', {
+    event: 'run_complete',
+    schedules: schedules?.length ?? 0,
+    created,
+  });
+
+  return { schedules: schedules?.length ?? 0, created };
+}
@@ -0,0 +1,102 @@
+import type { Mastra } from '@mastra/core/mastra';
+import { recordDailyExchangeRates } from '../lib/currency';
+import { runDueRecurringTransactions } from './recurring.service';
+import { resumeStaleCurrencyMigrations } from './currency-migration.service';
+import { runDueDigests } from './digest.service';
+
+type Logger = ReturnType<Mastra['getLogger']>;
+
+const SCHEDULER_ENV_KEY = 'SCHEDULER_INTERVAL_MS';
+const DEFAULT_SCHEDULER_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+const STARTUP_DELAY_MS = 30 * 1000;
+
+interface ScheduledJob {
+  name: string;
+  run: (logger: Logger) => Promise<unknown>;
+}
+
+/**
+ * Background jobs run on every tick. Each job must be safe to run on
+ * several instances at once (claim work in the database, not in memory).
+ */
+const jobs: ScheduledJob[] = [
+  // Before recurring transactions, so their conversions find today's snapshot
+  { name: 'exchange_rates', run: () => recordDailyExchangeRates() },
+  { name: 'recurring_transactions', run: (logger) => runDueRecurringTransactions(logger) },
+  { name: 'currency_migrations', run: (logger) => resumeStaleCurrencyMigrations(logger) },
+  { name: 'spending_digests', run: (logger) => runDueDigests(logger) },
+];
+
+/**
+ * Registers periodic background jobs (exchange rate snapshots, recurring transactions,
+ * interrupted currency migrations, spending digests, ...).
+ *  - Runs shortly after startup, then on a configurable cadence
+ *  - Skips a tick while the previous one is still running
+ *  - Set SCHEDULER_INTERVAL_MS=0 to disable (e.g. when an external cron drives the jobs)
+ */
+export function registerScheduledJobs(logger: Logger): void {
+  const intervalMs = resolveSchedulerInterval();
+  if (intervalMs === 0) {
+    logger.info('scheduler:disabled');
+    return;
+  }
+
+  let running = false;
+  const tick = async () => {
+    if (running) {
+      logger.warn('scheduler:tick_skipped', { reason: 'previous_tick_running' });
+      return;
+    }
+
+    running = true;
+    try {
+      for (const job of jobs) {
+        const startTime = Date.now();
+        try {
+          await job.run(logger);
+          logger.debug('scheduler:job_completed', {
+            job: job.name,
+            duration: Date.now() - startTime,
+          });
+        } catch (error) {
+          logger.error('scheduler:job_failed', {
+            job: job.name,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  const startupTimer = setTimeout(() => void tick(), Math.min(STARTUP_DELAY_MS, intervalMs));
+  startupTimer.unref?.();
+
+  const schedulerTimer = setInterval(() => void tick(), intervalMs);
+  schedulerTimer.unref?.();
+
+  process.once('beforeExit', () => {
+    clearTimeout(startupTimer);
+    clearInterval(schedulerTimer);
+  });
+
+  logger.debug('scheduler:registered', {
+    intervalMs,
+    jobs: jobs.map((job) => job.name),
+  });
+}
+
+function resolveSchedulerInterval(): number {
+  const value = process.env[SCHEDULER_ENV_KEY];
+  if (!value) {
+    return DEFAULT_SCHEDULER_INTERVAL_MS;
+  }
+
+  const parsed = Number.parseInt(value, 10);
+  if (Number.isNaN(parsed) || parsed < 0) {
+    return DEFAULT_SCHEDULER_INTERVAL_MS;
+  }
+
+  return parsed;
+}
@@ -0,0 +1,235 @@
+/**
+ * Spending Alert Service
+ *
+ * Flags out-of-pattern expenses right after they are saved: an amount far above the
+ * user's usual spend at that merchant or in that category (z-score), or a large first
+ * purchase at a merchant the user has never used. Each user's sensitivity lives in
+ * users.spending_alert_threshold and is raised from the alert's "Fewer alerts" button.
+ */
+
+import type { Mastra } from '@mastra/core/mastra';
+import { format, subDays } from 'date-fns';
+import { supabaseService } from '../lib/supabase';
+import { messages } from '../lib/messages';
+import { sendProactiveMessage } from './notification.service';
+import { getSpendingAlertSettings } from './user.service';
+
+// Logger type - matches what mastra.getLogger() returns
+type Logger = ReturnType<Mastra['getLogger']>;
+
+/** Sensitivity for new users; "Fewer alerts" raises it by one step up to the maximum */
+export const DEFAULT_ALERT_THRESHOLD = 3;
+export const MAX_ALERT_THRESHOLD = 10;
+
+const HISTORY_DAYS = 180;
+const HISTORY_LIMIT = 500;
+const MIN_MERCHANT_HISTORY = 3;
+const MIN_CATEGORY_HISTORY = 5;
+const MIN_HISTORY_FOR_NEW_MERCHANT = 10;
+
+export type SpendingAnomalyKind = 'merchant' | 'category' | 'new_merchant';
+
+export interface SpendingAnomaly {
+  kind: SpendingAnomalyKind;
+  /** Merchant or category the amount is compared against */
+  name: string;
+  amount: number;
+  currency: string;
+  /** Average (merchant/category) or median (new merchant) of the compared history */
+  usual: number;
+  ratio: number;
+}
+
+export interface HistoricalExpense {
+  amount: number;
+  merchant: string;
+  category: string;
+}
+
+export interface SavedExpense {
+  transactionId: string;
+  amount: number;
+  currency: string;
+  merchant: string;
+  category: string;
+}
+
+function normalizeName(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Whether `amount` is an outlier against `amounts`: at least `threshold` standard
+ * deviations above the mean and a meaningful multiple of it (so tiny, steady amounts
+ * don't alert on small changes). Returns the mean and ratio when it is.
+ */
+function findOutlier(
+  amount: number,
+  amounts: number[],
+  threshold: number
+): { usual: number; ratio: number } | null {
+  const mean = amounts.reduce((sum, value) => sum + value, 0) / amounts.length;
+  if (mean <= 0) {
+    return null;
+  }
+
+  const variance = amounts.reduce((sum, value) => sum + (value - mean) ** 2, 0) / amounts.length;
+  const std = Math.sqrt(variance);
+  const zScore = std === 0 ? Infinity : (amount - mean) / std;
+  const ratio = amount / mean;
+
+  if (zScore < threshold || ratio < Math.max(1.5, threshold / 2)) {
+    return null;
+  }
+
+  return { usual: mean, ratio };
+}
+
+/**
+ * Compare a new expense against the user's recent history
+ * Merchant history is preferred; category history is the fallback for merchants with
+ * too few past purchases. A first purchase at a new merchant alerts only when it is
+ * `threshold` times the user's median expense.
+ */
+export function detectUnusualSpending(
+  expense: Omit<SavedExpense, 'transactionId'>,
+  history: HistoricalExpense[],
+  threshold: number = DEFAULT_ALERT_THRESHOLD
+): SpendingAnomaly | null {
+  if (expense.amount <= 0) {
+    return null;
+  }
+
+  const merchant = normalizeName(expense.merchant);
+  const category = normalizeName(expense.category);
+  const merchantAmounts = history
+    .filter((item) => normalizeName(item.merchant) === merchant)
+    .map((item) => item.amount);
+
+  const build = (kind: SpendingAnomalyKind, name: string, usual: number, ratio: number) => ({
+    kind,
+    name,
+    amount: expense.amount,
+    currency: expense.currency,
+    usual,
+    ratio,
+  });
+
+  if (merchantAmounts.length >= MIN_MERCHANT_HISTORY) {
+    const outlier = findOutlier(expense.amount, merchantAmounts, threshold);
+    return outlier ? build('merchant', expense.merchant, outlier.usual, outlier.ratio) : null;
+  }
+
+  if (merchantAmounts.length === 0 && history.length >= MIN_HISTORY_FOR_NEW_MERCHANT) {
+    const usual = median(history.map((item) => item.amount));
+    if (usual > 0 && expense.amount >= usual * threshold) {
+      return build('new_merchant', expense.merchant, usual, expense.amount / usual);
+    }
+  }
+
+  const categoryAmounts = history
+    .filter((item) => normalizeName(item.category) === category)
+    .map((item) => item.amount);
+
+  if (categoryAmounts.length >= MIN_CATEGORY_HISTORY) {
+    const outlier = findOutlier(expense.amount, categoryAmounts, threshold);
+    if (outlier) {
+      return build('category', expense.category, outlier.usual, outlier.ratio);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Next sensitivity step after the user taps "Fewer alerts"
+ */
+export function raiseAlertThreshold(threshold: number): number {
+  return Math.min(MAX_ALERT_THRESHOLD, Math.floor(threshold) + 1);
+}
+
+/**
+ * Inline keyboard for an alert - the muted variant offers to turn alerts back on
+ */
+export function buildSpendingAlertKeyboard(muted = false) {
+  return {
+    inline_keyboard: muted
+      ? [[{ text: '🔔 Unmute alerts', callback_data: 'spending_alert_unmute' }]]
+      : [
+          [
+            { text: '🔉 Fewer alerts', callback_data: 'spending_alert_fewer' },
+            { text: '🔕 Mute alerts', callback_data: 'spending_alert_mute' },
+          ],
+        ],
+  };
+}
+
+/**
+ * Check a saved expense against the user's history and send an alert if it is unusual
+ * Never throws - alerts must not affect saving.
+ */
+export async function checkSpendingAfterSave(
+  userId: number,
+  expense: SavedExpense,
+  logger?: Logger
+): Promise<void> {
+  try {
+    const settings = await getSpendingAlertSettings(userId);
+    if (!settings.enabled) {
+      return;
+    }
+
+    // History in the same currency only - amounts in other currencies aren't comparable
+    const { data: history, error } = await supabaseService
+      .from('transactions')
+      .select('amount, merchant, category')
+      .eq('user_id', userId)
+      .eq('transaction_type', 'expense')
+      .eq('currency', expense.currency)
+      .neq('id', expense.transactionId)
+      .gte('transaction_date', format(subDays(new Date(), HISTORY_DAYS), 'yyyy-MM-dd'))
+      .order('transaction_date', { ascending: false })
+      .limit(HISTORY_LIMIT);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const anomaly = detectUnusualSpending(
+      expense,
+      (history || []).map((item) => ({ ...item, amount: Number(item.amount) })),
+      settings.threshold
+    );
+    if (!anomaly) {
+      return;
+    }
+
+    const delivered = await sendProactiveMessage(userId, messages.spendingAlerts.alert(anomaly), {
+      parse_mode: 'Markdown',
+      reply_markup: buildSpendingAlertKeyboard(),
+    });
+
+    logger?.info('[spending-alert]', {
+      event: 'alert',
+      userId,
+      transactionId: expense.transactionId,
+      kind: anomaly.kind,
+      ratio: anomaly.ratio,
+      threshold: settings.threshold,
+      delivered,
+    });
+  } catch (error) {
+    logger?.warn('[spending-alert]', {
+      event: 'check_failed',
+      userId,
+      transactionId: expense.transactionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
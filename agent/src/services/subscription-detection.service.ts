@@ -0,0 +1,271 @@
+/**
+ * Subscription Detection Service
+ *
+ * Finds subscriptions the user never tagged (monthly Spotify, annual domain
+ * renewals) by scanning expense history for merchants charged at regular
+ * intervals with similar amounts. Pure detection logic is separated from the
+ * database fetch so it can be unit tested.
+ */
+
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarDays,
+  format,
+  parseISO,
+  subDays,
+} from 'date-fns';
+import { supabaseService } from '../lib/supabase';
+import { getUserTimezone } from './user.service';
+
+export type SubscriptionCadence = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export interface ChargeRecord {
+  merchant: string;
+  amount: number;
+  currency: string;
+  transactionDate: string; // YYYY-MM-DD
+}
+
+export interface PriceChange {
+  date: string;
+  from: number;
+  to: number;
+}
+
+export interface DetectedSubscription {
+  merchant: string;
+  cadence: SubscriptionCadence;
+  currency: string;
+  currentAmount: number;
+  yearlyCost: number;
+  chargeCount: number;
+  firstChargeDate: string;
+  lastChargeDate: string;
+  nextExpectedDate: string;
+  priceChanges: PriceChange[];
+}
+
+interface CadenceRule {
+  cadence: SubscriptionCadence;
+  days: number;
+  tolerance: number;
+  minCharges: number;
+  perYear: number;
+}
+
+/**
+ * Expected gap between charges, how far a single gap may drift (billing on
+ * weekends, short months) and how many charges are needed to trust the pattern
+ */
+const CADENCE_RULES: CadenceRule[] = [
+  { cadence: 'weekly', days: 7, tolerance: 1, minCharges: 4, perYear: 52 },
+  { cadence: 'monthly', days: 30, tolerance: 4, minCharges: 3, perYear: 12 },
+  { cadence: 'quarterly', days: 91, tolerance: 10, minCharges: 2, perYear: 4 },
+  { cadence: 'yearly', days: 365, tolerance: 15, minCharges: 2, perYear: 1 },
+];
+
+/** Charges more than this far from the median amount break the pattern */
+const MAX_AMOUNT_DEVIATION = 0.35;
+
+/** Enough history for two annual charges */
+const LOOKBACK_DAYS = 800;
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Group key for a merchant: "SPOTIFY AB", "Spotify." and "spotify" are one merchant.
+ * Merchant category rules are keyed the same way.
+ */
+export function normalizeMerchantKey(merchant: string): string {
+  return merchant
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function addCadence(date: string, cadence: SubscriptionCadence): string {
+  const current = parseISO(date);
+  const next =
+    cadence === 'weekly'
+      ? addWeeks(current, 1)
+      : cadence === 'monthly'
+        ? addMonths(current, 1)
+        : cadence === 'quarterly'
+          ? addMonths(current, 3)
+          : addYears(current, 1);
+  return format(next, 'yyyy-MM-dd');
+}
+
+/**
+ * Detect one merchant's subscription from its charges, or null if irregular
+ */
+function detectFromCharges(charges: ChargeRecord[], today: string): DetectedSubscription | null {
+  // One charge per day; split payments on the same day count once
+  const byDate = new Map<string, ChargeRecord>();
+  for (const charge of charges) {
+    const existing = byDate.get(charge.transactionDate);
+    byDate.set(
+      charge.transactionDate,
+      existing ? { ...existing, amount: existing.amount + charge.amount } : charge
+    );
+  }
+  const sorted = [...byDate.values()].sort((a, b) =>
+    a.transactionDate.localeCompare(b.transactionDate)
+  );
+
+  if (sorted.length < 2) {
+    return null;
+  }
+
+  const intervals = sorted
+    .slice(1)
+    .map((charge, index) =>
+      differenceInCalendarDays(
+        parseISO(charge.transactionDate),
+        parseISO(sorted[index].transactionDate)
+      )
+    );
+  const typicalInterval = median(intervals);
+
+  const rule = CADENCE_RULES.find(
+    (candidate) => Math.abs(typicalInterval - candidate.days) <= candidate.tolerance
+  );
+  if (!rule || sorted.length < rule.minCharges) {
+    return null;
+  }
+
+  if (intervals.some((interval) => Math.abs(interval - rule.days) > rule.tolerance)) {
+    return null;
+  }
+
+  const amounts = sorted.map((charge) => charge.amount);
+  const typicalAmount = median(amounts);
+  if (
+    typicalAmount <= 0 ||
+    amounts.some(
+      (amount) => Math.abs(amount - typicalAmount) / typicalAmount > MAX_AMOUNT_DEVIATION
+    )
+  ) {
+    return null;
+  }
+
+  const last = sorted[sorted.length - 1];
+
+  // Stopped: more than one full cycle overdue
+  const daysSinceLast = differenceInCalendarDays(parseISO(today), parseISO(last.transactionDate));
+  if (daysSinceLast > rule.days * 2 + rule.tolerance) {
+    return null;
+  }
+
+  const priceChanges: PriceChange[] = [];
+  sorted.slice(1).forEach((charge, index) => {
+    const previous = sorted[index].amount;
+    if (Math.abs(charge.amount - previous) >= 0.01) {
+      priceChanges.push({
+        date: charge.transactionDate,
+        from: roundMoney(previous),
+        to: roundMoney(charge.amount),
+      });
+    }
+  });
+
+  let nextExpectedDate = addCadence(last.transactionDate, rule.cadence);
+  while (nextExpectedDate < today) {
+    nextExpectedDate = addCadence(nextExpectedDate, rule.cadence);
+  }
+
+  return {
+    merchant: last.merchant,
+    cadence: rule.cadence,
+    currency: last.currency,
+    currentAmount: roundMoney(last.amount),
+    yearlyCost: roundMoney(last.amount * rule.perYear),
+    chargeCount: sorted.length,
+    firstChargeDate: sorted[0].transactionDate,
+    lastChargeDate: last.transactionDate,
+    nextExpectedDate,
+    priceChanges,
+  };
+}
+
+/**
+ * Detect subscriptions from a list of expense charges
+ * @param today - User's local date (YYYY-MM-DD); subscriptions that stopped are left out
+ * @returns Active subscriptions, most expensive per year first
+ */
+export function detectSubscriptions(
+  charges: ChargeRecord[],
+  today: string
+): DetectedSubscription[] {
+  const groups = new Map<string, ChargeRecord[]>();
+  for (const charge of charges) {
+    const key = `${normalizeMerchantKey(charge.merchant)}|${charge.currency}`;
+    const group = groups.get(key) ?? [];
+    group.push(charge);
+    groups.set(key, group);
+  }
+
+  const detected: DetectedSubscription[] = [];
+  for (const group of groups.values()) {
+    const subscription = detectFromCharges(group, today);
+    if (subscription) {
+      detected.push(subscription);
+    }
+  }
+
+  return detected.sort((a, b) => b.yearlyCost - a.yearlyCost);
+}
+
+/**
+ * Scan a user's expense history for subscriptions
+ */
+export async function findUserSubscriptions(userId: number): Promise<DetectedSubscription[]> {
+  const timezone = await getUserTimezone(userId);
+  const today = formatInTimeZone(new Date(), timezone, 'yyyy-MM-dd');
+  const since = format(subDays(parseISO(today), LOOKBACK_DAYS), 'yyyy-MM-dd');
+
+  const charges: ChargeRecord[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabaseService
+      .from('transactions')
+      .select('merchant, amount, currency, transaction_date')
+      .eq('user_id', userId)
+      .eq('transaction_type', 'expense')
+      .gte('transaction_date', since)
+      .lte('transaction_date', today)
+      .order('transaction_date', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch transactions for subscription detection: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      charges.push({
+        merchant: row.merchant,
+        amount: Number(row.amount),
+        currency: row.currency,
+        transactionDate: row.transaction_date,
+      });
+    }
+
+    if (!data || data.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return detectSubscriptions(charges, today);
+}
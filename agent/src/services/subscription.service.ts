@@ -5,12 +5,12 @@
  */
 
 import Stripe from 'stripe';
-import type { Api } from 'grammy';
 import type { IMastraLogger } from '@mastra/core/logger';
 import { stripe, STRIPE_PRICES, STRIPE_WEBHOOK_SECRET } from '../lib/stripe';
 import { supabaseService } from '../lib/supabase';
 import { updateUserSubscription, getUserSubscription, createOrGetUser } from './user.service';
 import { messages } from '../lib/messages';
+import { sendProactiveMessage } from './notification.service';
 import {
   generateActivationCode,
   generateDeepLink,
@@ -31,17 +31,8 @@ type ActivationCodeRow = Database['public']['Tables']['activation_codes']['Row']
 type ActivationCodeInsert = Database['public']['Tables']['activation_codes']['Insert'];
 type ActivationCodeUpdate = Database['public']['Tables']['activation_codes']['Update'];
 
-// Global reference to Telegram API for sending messages
-let telegramApi: Api | null = null;
 let logger: IMastraLogger | null = null;
 
-/**
- * Initialize Telegram API for sending subscription messages
- */
-export function initializeTelegramApi(api: Api): void {
-  telegramApi = api;
-}
-
 /**
  * Initialize logger for subscription service
  */
@@ -659,28 +650,14 @@ export async function sendSubscriptionConfirmationMessage(
   planTier: string | null,
   userId: number
 ): Promise<void> {
-  if (!telegramApi) {
-    console.warn(
-      '[subscription.service] Telegram API not initialized, skipping confirmation message for user:',
-      userId
-    );
-    return;
-  }
-
-  try {
-    const message = messages.subscription.subscriptionConfirmed(planTier);
-    await telegramApi.sendMessage(userId, message.text, {
-      parse_mode: 'HTML',
-      entities: message.entities,
-    });
+  // Never throws - message delivery shouldn't block subscription processing
+  const message = messages.subscription.subscriptionConfirmed(planTier);
+  const sent = await sendProactiveMessage(userId, message.text, {
+    parse_mode: 'HTML',
+    entities: message.entities,
+  });
+  if (sent) {
     console.log('[subscription.service] Sent confirmation message to user:', userId);
-  } catch (error) {
-    console.error(
-      '[subscription.service] Failed to send confirmation message to user:',
-      userId,
-      error
-    );
-    // Don't throw - message delivery shouldn't block subscription processing
   }
 }
 
@@ -0,0 +1,80 @@
+/**
+ * Transaction Aggregation Service
+ *
+ * Exact totals computed in SQL (aggregate_transactions RPC) over every matching
+ * row, so answers like "total dining this year" don't depend on how many rows a
+ * search returns or on the model doing arithmetic.
+ */
+
+import { supabaseService } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+
+type AggregateArgs = Database['public']['Functions']['aggregate_transactions']['Args'];
+
+export type AggregationGroupBy = 'category' | 'merchant' | 'day' | 'week' | 'month';
+
+export interface AggregationFilters {
+  userId: number;
+  groupBy?: AggregationGroupBy;
+  dateFrom?: string;
+  dateTo?: string;
+  category?: string;
+  merchant?: string; // Partial, case-insensitive match
+  transactionType?: 'expense' | 'income' | 'refund';
+  minAmount?: number;
+  maxAmount?: number;
+  limit?: number;
+}
+
+export interface AggregationGroup {
+  /** Category, merchant, YYYY-MM-DD (day / week start) or YYYY-MM; null when not grouped */
+  key: string | null;
+  currency: string;
+  total: number;
+  count: number;
+  average: number;
+  min: number;
+  max: number;
+  firstDate: string;
+  lastDate: string;
+}
+
+/**
+ * Aggregate a user's transactions
+ * Groups are split per currency (totals never mix currencies). Time groups are
+ * ordered chronologically, other groups by total (largest first).
+ */
+export async function aggregateTransactions(
+  filters: AggregationFilters
+): Promise<AggregationGroup[]> {
+  const args: AggregateArgs = {
+    p_user_id: filters.userId,
+    p_group_by: filters.groupBy ?? null,
+    p_date_from: filters.dateFrom ?? null,
+    p_date_to: filters.dateTo ?? null,
+    p_category: filters.category ?? null,
+    p_merchant: filters.merchant ?? null,
+    p_transaction_type: filters.transactionType ?? null,
+    p_min_amount: filters.minAmount ?? null,
+    p_max_amount: filters.maxAmount ?? null,
+    p_limit: filters.limit ?? 100,
+  };
+
+  const { data, error } = await supabaseService.rpc('aggregate_transactions', args);
+
+  if (error) {
+    throw new Error(`Failed to aggregate transactions: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    key: row.group_key,
+    currency: row.currency,
+    total: Number(row.total),
+    count: Number(row.transaction_count),
+    average: Number(row.average),
+    min: Number(row.min_amount),
+    max: Number(row.max_amount),
+    firstDate: row.first_date,
+    lastDate: row.last_date,
+  }));
+}
@@ -0,0 +1,177 @@
+/**
+ * Transaction Clarification Service
+ *
+ * When a message is missing a required detail ("Carrefour yesterday" has no amount),
+ * the logger asks a follow-up instead of guessing. The partial transaction is persisted
+ * here so the user's next message - on any webhook instance - resumes it instead of
+ * starting a fresh save.
+ */
+
+import { supabaseService } from '../lib/supabase';
+import type { Json } from '../lib/database.types';
+import type { UserMode } from '../lib/user-mode';
+import type { DraftTransaction } from './transaction-draft.service';
+
+export type ClarificationField = 'amount' | 'merchant';
+
+export interface PendingClarification {
+  id: string; // UUID
+  userId: number;
+  sourceText: string;
+  knownFields: Partial<DraftTransaction>;
+  missingFields: ClarificationField[];
+}
+
+const MAX_MERCHANT_ANSWER_WORDS = 6; // Longer replies are a new message, not an answer
+
+// "45", "45 aed", "AED 45", "it was 120.50 usd": the amount and little else
+const AMOUNT_ANSWER =
+  /^(?:(?:it|that)(?:'s|\s+was|\s+is)\s+)?(?:about\s+|around\s+)?(?:[$€£]\s*|[a-z]{3}\s+)?\d+(?:[.,]\d+)?\s*(?:[a-z]{3}|dirhams?|dollars?|euros?|riyals?|pounds?|[$€£])?\.?$/i;
+
+// Signs of a question or a new request rather than a merchant name
+const QUERY_WORDS =
+  /\b(?:how|what|when|which|did i|have i|show|list|total|spend|spent|spending|expenses|income|budget|this (?:week|month|year)|last (?:week|month|year))\b/i;
+
+/**
+ * Persist an open question for the user
+ * Earlier unanswered questions are cancelled: only the latest one can be answered.
+ * @returns Clarification UUID
+ */
+export async function createClarification(
+  userId: number,
+  sourceText: string,
+  knownFields: Partial<DraftTransaction>,
+  missingFields: ClarificationField[]
+): Promise<string> {
+  const { error: cancelError } = await supabaseService
+    .from('transaction_clarifications')
+    .update({ status: 'cancelled' })
+    .eq('user_id', userId)
+    .eq('status', 'pending');
+
+  if (cancelError) {
+    throw new Error(`Failed to cancel open clarifications: ${cancelError.message}`);
+  }
+
+  const { data, error } = await supabaseService
+    .from('transaction_clarifications')
+    .insert({
+      user_id: userId,
+      source_text: sourceText,
+      known_fields: knownFields as unknown as Json,
+      missing_fields: missingFields,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create clarification: ${error?.message ?? 'no data returned'}`);
+  }
+
+  return data.id;
+}
+
+/**
+ * Get the user's open question, if it has not expired
+ */
+export async function getPendingClarification(
+  userId: number
+): Promise<PendingClarification | null> {
+  const { data, error } = await supabaseService
+    .from('transaction_clarifications')
+    .select('id, user_id, source_text, known_fields, missing_fields')
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch clarification: ${error.message}`);
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  return {
+    id: data.id,
+    userId: data.user_id,
+    sourceText: data.source_text,
+    knownFields: data.known_fields as unknown as Partial<DraftTransaction>,
+    missingFields: data.missing_fields as ClarificationField[],
+  };
+}
+
+/**
+ * Close an open question (compare-and-set on status)
+ * Only one caller can win, so a retried webhook never resumes the same draft twice.
+ * @returns true if this caller closed it
+ */
+export async function resolveClarification(
+  userId: number,
+  clarificationId: string,
+  status: 'answered' | 'cancelled'
+): Promise<boolean> {
+  const { data, error } = await supabaseService
+    .from('transaction_clarifications')
+    .update({ status })
+    .eq('id', clarificationId)
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to update clarification: ${error.message}`);
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Whether a message reads as the answer to an open question rather than a new message
+ * An amount answer must be little more than the amount ("45", "it was 45 aed"), so
+ * "Starbucks 25" is a new expense. A merchant answer is a short name with no amount
+ * and nothing that reads like a query; a reply to both may carry a name and an amount.
+ * Only logging users answer: query and chat messages are never taken over.
+ */
+export function isClarificationAnswer(
+  reply: string,
+  missingFields: ClarificationField[],
+  userMode: UserMode
+): boolean {
+  const text = reply.trim();
+
+  if ((userMode !== 'logger' && userMode !== 'auto') || !text || text.endsWith('?')) {
+    return false;
+  }
+
+  const words = text.split(/\s+/);
+  const isShortName = words.length <= MAX_MERCHANT_ANSWER_WORDS && !QUERY_WORDS.test(text);
+
+  // "How much was it, and where?" - both details in one reply ("Starbucks 25")
+  if (missingFields.includes('amount') && missingFields.includes('merchant')) {
+    return isShortName && /\d/.test(text);
+  }
+
+  if (missingFields.includes('amount')) {
+    return AMOUNT_ANSWER.test(text);
+  }
+
+  return isShortName && !/\d/.test(text);
+}
+
+/**
+ * Message for the logger agent that combines the open question with the user's answer
+ * Known fields are passed as extracted, so "yesterday" keeps the original date.
+ */
+export function buildResumedMessage(clarification: PendingClarification, reply: string): string {
+  return [
+    '[Follow-up: the previous message was missing details and the user was asked for them]',
+    `Previous message: ${clarification.sourceText}`,
+    `Already extracted: ${JSON.stringify(clarification.knownFields)}`,
+    `Missing: ${clarification.missingFields.join(', ')}`,
+    `User's answer: ${reply.trim()}`,
+  ].join('\n');
+}
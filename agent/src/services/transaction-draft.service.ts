@@ -0,0 +1,193 @@
+/**
+ * Transaction Draft Service
+ *
+ * Persists parsed transactions awaiting confirmation (users.review_before_save).
+ * Drafts live in the database, not in memory, so the Confirm / Change / Cancel
+ * buttons work no matter which webhook instance receives the callback.
+ */
+
+import { supabaseService } from '../lib/supabase';
+import type { Json } from '../lib/database.types';
+import type { TransactionType } from './transaction.service';
+
+/**
+ * One parsed transaction - mirrors the save-transaction tool input (minus user metadata)
+ */
+export interface DraftTransaction {
+  amount: number;
+  currency: string;
+  merchant: string;
+  category: string;
+  transactionType?: TransactionType;
+  description?: string;
+  transactionDate: string;
+  items?: {
+    name: string;
+    quantity?: number;
+    unitPrice?: number | null;
+    totalPrice: number;
+    discount?: number;
+    tax?: number;
+  }[];
+}
+
+export interface TransactionDraft {
+  id: string; // UUID
+  userId: number;
+  transactions: DraftTransaction[];
+}
+
+/**
+ * Save parsed transactions as a pending draft
+ * @returns Draft UUID (used in callback data)
+ */
+export async function createTransactionDraft(
+  userId: number,
+  transactions: DraftTransaction[]
+): Promise<string> {
+  const { data, error } = await supabaseService
+    .from('transaction_drafts')
+    .insert({
+      user_id: userId,
+      transactions: transactions as unknown as Json,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create transaction draft: ${error?.message ?? 'no data returned'}`);
+  }
+
+  return data.id;
+}
+
+/**
+ * Get a draft that is still pending and not expired
+ */
+export async function getPendingDraft(
+  userId: number,
+  draftId: string
+): Promise<TransactionDraft | null> {
+  const { data, error } = await supabaseService
+    .from('transaction_drafts')
+    .select('id, user_id, transactions')
+    .eq('id', draftId)
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch transaction draft: ${error.message}`);
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  return {
+    id: data.id,
+    userId: data.user_id,
+    transactions: data.transactions as unknown as DraftTransaction[],
+  };
+}
+
+/**
+ * Apply a change (category or date) to every transaction in a pending draft
+ * @returns Updated draft, or null if it is no longer pending
+ */
+export async function updateDraftTransactions(
+  userId: number,
+  draftId: string,
+  changes: Partial<Pick<DraftTransaction, 'category' | 'transactionDate'>>
+): Promise<TransactionDraft | null> {
+  const draft = await getPendingDraft(userId, draftId);
+  if (!draft) {
+    return null;
+  }
+
+  const transactions = draft.transactions.map((tx) => ({ ...tx, ...changes }));
+
+  const { error } = await supabaseService
+    .from('transaction_drafts')
+    .update({ transactions: transactions as unknown as Json })
+    .eq('id', draftId)
+    .eq('user_id', userId)
+    .eq('status', 'pending');
+
+  if (error) {
+    throw new Error(`Failed to update transaction draft: ${error.message}`);
+  }
+
+  return { ...draft, transactions };
+}
+
+/**
+ * Move a pending draft to a final status (compare-and-set on status)
+ * Only one caller can win, so a double-tapped Confirm never saves twice.
+ * @returns The draft if this caller claimed it, null if already handled or expired
+ */
+async function finalizeDraft(
+  userId: number,
+  draftId: string,
+  status: 'confirmed' | 'cancelled'
+): Promise<TransactionDraft | null> {
+  const { data, error } = await supabaseService
+    .from('transaction_drafts')
+    .update({ status })
+    .eq('id', draftId)
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString())
+    .select('id, user_id, transactions');
+
+  if (error) {
+    throw new Error(`Failed to update transaction draft: ${error.message}`);
+  }
+
+  const row = data?.[0];
+  if (!row) {
+    return null;
+  }
+
+  return {
+    id: row.id,
+    userId: row.user_id,
+    transactions: row.transactions as unknown as DraftTransaction[],
+  };
+}
+
+/**
+ * Claim a draft for saving
+ */
+export async function claimDraft(
+  userId: number,
+  draftId: string
+): Promise<TransactionDraft | null> {
+  return finalizeDraft(userId, draftId, 'confirmed');
+}
+
+/**
+ * Cancel a draft
+ * @returns true if the draft was pending and is now cancelled
+ */
+export async function cancelDraft(userId: number, draftId: string): Promise<boolean> {
+  const draft = await finalizeDraft(userId, draftId, 'cancelled');
+  return draft !== null;
+}
+
+/**
+ * Return a claimed draft to pending after a failed save so the user can retry
+ */
+export async function releaseDraft(userId: number, draftId: string): Promise<void> {
+  const { error } = await supabaseService
+    .from('transaction_drafts')
+    .update({ status: 'pending' })
+    .eq('id', draftId)
+    .eq('user_id', userId)
+    .eq('status', 'confirmed');
+
+  if (error) {
+    throw new Error(`Failed to release transaction draft: ${error.message}`);
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Transaction Items Service
+ *
+ * Stores receipt line items (transaction_items) and answers item-level questions
+ * such as "how much did I spend on milk this year?" and per-item price history.
+ */
+
+import { supabaseService } from '../lib/supabase';
+import type { Mastra } from '@mastra/core/mastra';
+
+// Logger type - matches what mastra.getLogger() returns
+type Logger = ReturnType<Mastra['getLogger']>;
+
+export interface TransactionItemInput {
+  name: string;
+  quantity?: number;
+  unitPrice?: number | null;
+  totalPrice: number;
+  discount?: number;
+  tax?: number;
+}
+
+export interface ItemPurchase {
+  name: string;
+  quantity: number;
+  unitPrice: number | null;
+  totalPrice: number;
+  currency: string;
+  merchant: string;
+  transactionDate: string;
+  displayId: number;
+}
+
+export interface ItemSpendingSummary {
+  totalsByCurrency: { currency: string; total: number; quantity: number }[];
+  purchases: ItemPurchase[];
+}
+
+/**
+ * Save the line items of a receipt transaction
+ * Prices are stored in the receipt's own currency (before any conversion)
+ */
+export async function saveTransactionItems(
+  transactionId: string,
+  userId: number,
+  currency: string,
+  items: TransactionItemInput[],
+  logger?: Logger
+): Promise<number> {
+  if (items.length === 0) {
+    return 0;
+  }
+
+  const rows = items.map((item) => ({
+    transaction_id: transactionId,
+    user_id: userId,
+    name: item.name.trim(),
+    quantity: item.quantity ?? 1,
+    unit_price: item.unitPrice ?? null,
+    total_price: item.totalPrice,
+    discount: item.discount ?? 0,
+    tax: item.tax ?? 0,
+    currency,
+  }));
+
+  const { error } = await supabaseService.from('transaction_items').insert(rows);
+
+  if (error) {
+    throw new Error(`Failed to save transaction items: ${error.message}`);
+  }
+
+  logger?.info('[transaction-items]', {
+    event: 'items_saved',
+    transactionId,
+    userId,
+    count: rows.length,
+  });
+
+  return rows.length;
+}
+
+/**
+ * Find purchases of an item (case-insensitive partial match) with totals per currency
+ * Purchases are ordered by date so they double as the item's price history
+ */
+export async function getItemSpending(
+  userId: number,
+  itemName: string,
+  dateFrom?: string,
+  dateTo?: string
+): Promise<ItemSpendingSummary> {
+  let query = supabaseService
+    .from('transaction_items')
+    .select(
+      'name, quantity, unit_price, total_price, currency, transactions!inner(merchant, transaction_date, display_id)'
+    )
+    .eq('user_id', userId)
+    .ilike('name', `%${itemName.trim()}%`);
+
+  if (dateFrom) {
+    query = query.gte('transactions.transaction_date', dateFrom);
+  }
+  if (dateTo) {
+    query = query.lte('transactions.transaction_date', dateTo);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch item spending: ${error.message}`);
+  }
+
+  const purchases: ItemPurchase[] = (data || [])
+    .map((row) => ({
+      name: row.name,
+      quantity: Number(row.quantity),
+      unitPrice: row.unit_price === null ? null : Number(row.unit_price),
+      totalPrice: Number(row.total_price),
+      currency: row.currency,
+      merchant: row.transactions.merchant,
+      transactionDate: row.transactions.transaction_date,
+      displayId: row.transactions.display_id,
+    }))
+    .sort((a, b) => a.transactionDate.localeCompare(b.transactionDate));
+
+  const totals = new Map<string, { currency: string; total: number; quantity: number }>();
+  for (const purchase of purchases) {
+    const entry = totals.get(purchase.currency) ?? {
+      currency: purchase.currency,
+      total: 0,
+      quantity: 0,
+    };
+    entry.total = Math.round((entry.total + purchase.totalPrice) * 100) / 100;
+    entry.quantity += purchase.quantity;
+    totals.set(purchase.currency, entry);
+  }
+
+  return { totalsByCurrency: [...totals.values()], purchases };
+}
@@ -7,10 +7,18 @@
 
 import { supabaseService } from '../lib/supabase';
 import type { Mastra } from '@mastra/core/mastra';
+import type { RateSource } from '../lib/currency';
+import { AgentResponseCache } from '../lib/prompt-cache';
 
 // Logger type - matches what mastra.getLogger() returns
 type Logger = ReturnType<Mastra['getLogger']>;
 
+/**
+ * Direction of money flow. Amounts are always stored positive;
+ * the type decides whether a row adds to spending or to income.
+ */
+export type TransactionType = 'expense' | 'income' | 'refund';
+
 export interface TransactionInsertPayload {
   user_id: number;
   amount: number;
@@ -19,16 +27,25 @@ export interface TransactionInsertPayload {
   category: string;
   description: string | null;
   transaction_date: string;
+  transaction_type: TransactionType;
   merchant_embedding: number[] | null;
   original_amount: number | null;
   original_currency: string | null;
   converted_amount: number | null;
   conversion_rate: number | null;
   converted_at: string | null;
+  conversion_rate_source: RateSource | null;
+  conversion_rate_date: string | null;
 }
 
 export interface InsertTransactionResult {
   transactionId: string;
+  displayId: number;
+  duration: number;
+}
+
+export interface InsertTransactionsResult {
+  transactions: { transactionId: string; displayId: number }[];
   duration: number;
 }
 
@@ -55,31 +72,51 @@ function calculateBackoffDelay(attempt: number): number {
 }
 
 /**
- * Insert transaction into database with retry logic for race conditions
+ * Insert transaction(s) into database with retry logic for race conditions
+ *
+ * Accepts a single payload or an array. Arrays are inserted in ONE statement
+ * (one round-trip); the display_id trigger numbers rows sequentially within it.
  *
  * Retries up to 7 times on display_id duplicate errors (race conditions)
  * with exponential backoff. Other errors are thrown immediately.
  *
- * @param payload - Transaction data to insert
+ * @param payload - Transaction data to insert (or array of rows for a batch)
  * @param logger - Optional logger for retry attempts
- * @returns Transaction ID and insert duration
+ * @returns Transaction ID(s), display ID(s) and insert duration
  * @throws Error if insert fails after all retries or on non-retryable errors
  */
+export async function insertTransactionWithRetry(
+  payload: TransactionInsertPayload[],
+  logger?: Logger
+): Promise<InsertTransactionsResult>;
 export async function insertTransactionWithRetry(
   payload: TransactionInsertPayload,
   logger?: Logger
-): Promise<InsertTransactionResult> {
+): Promise<InsertTransactionResult>;
+export async function insertTransactionWithRetry(
+  payload: TransactionInsertPayload | TransactionInsertPayload[],
+  logger?: Logger
+): Promise<InsertTransactionResult | InsertTransactionsResult> {
   const MAX_RETRIES = 7;
+  const isBatch = Array.isArray(payload);
+  const userId = isBatch ? payload[0]?.user_id : payload.user_id;
   let lastError: unknown = null;
-  let data: { id: string } | null = null;
+  let data: { id: string; display_id: number }[] | null = null;
   const startTime = Date.now();
 
+  if (isBatch && payload.length === 0) {
+    throw new Error('Cannot insert an empty batch of transactions');
+  }
+
   for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-    const { data: insertData, error } = await supabaseService
-      .from('transactions')
-      .insert(payload)
-      .select('id')
-      .single();
+    const { data: insertData, error } = isBatch
+      ? await supabaseService.from('transactions').insert(payload).select('id, display_id')
+      : await supabaseService
+          .from('transactions')
+          .insert(payload)
+          .select('id, display_id')
+          .single()
+          .then((result) => ({ ...result, data: result.data ? [result.data] : null }));
 
     if (!error) {
       data = insertData;
@@ -94,7 +131,7 @@ export async function insertTransactionWithRetry(
       logger?.error('[transaction-service]', {
         event: 'database_error',
         error: error.message,
-        userId: payload.user_id,
+        userId,
         attempt,
         retryable: false,
       });
@@ -107,7 +144,7 @@ export async function insertTransactionWithRetry(
       logger?.warn('[transaction-service]', {
         event: 'retry_attempt',
         error: error.message,
-        userId: payload.user_id,
+        userId,
         attempt: attempt + 1,
         maxRetries: MAX_RETRIES,
         backoffMs,
@@ -121,7 +158,7 @@ export async function insertTransactionWithRetry(
       logger?.error('[transaction-service]', {
         event: 'max_retries_exceeded',
         error: error.message,
-        userId: payload.user_id,
+        userId,
         attempts: MAX_RETRIES + 1,
         reason: 'display_id_race_condition',
       });
@@ -141,13 +178,23 @@ export async function insertTransactionWithRetry(
 
   const duration = Date.now() - startTime;
 
-  if (!data) {
+  if (!data || data.length === 0) {
     throw new Error('Transaction insert succeeded but no data returned');
   }
 
+  // Cached query answers for this user no longer reflect their data
+  await AgentResponseCache.bumpDataVersion(userId);
+
+  if (isBatch) {
+    return {
+      transactions: data.map((row) => ({ transactionId: row.id, displayId: row.display_id })),
+      duration,
+    };
+  }
+
   return {
-    transactionId: data.id,
+    transactionId: data[0].id,
+    displayId: data[0].display_id,
     duration,
   };
 }
-
@@ -368,3 +368,173 @@ export async function updateUserTimezone(userId: number, timezone: string): Prom
     return false;
   }
 }
+
+/**
+ * Check whether the user wants to review transactions before they are saved
+ * Defaults to false (save immediately) on errors
+ */
+export async function getReviewBeforeSave(userId: number): Promise<boolean> {
+  try {
+    const { data, error } = await supabaseService
+      .from('users')
+      .select('review_before_save')
+      .eq('id', userId)
+      .single();
+
+    if (error) {
+      console.warn(`[user.service] Failed to fetch review preference for user ${userId}:`, error);
+      return false;
+    }
+
+    return data?.review_before_save ?? false;
+  } catch (error) {
+    console.error('[user.service] Failed to get review preference:', error);
+    return false;
+  }
+}
+
+/**
+ * Turn the confirm-before-save preview on or off
+ */
+export async function updateReviewBeforeSave(userId: number, enabled: boolean): Promise<boolean> {
+  try {
+    const { error } = await supabaseService
+      .from('users')
+      .update({
+        review_before_save: enabled,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', userId);
+
+    if (error) {
+      throw error;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('[user.service] Failed to update review preference:', error);
+    return false;
+  }
+}
+
+export type DigestFrequency = 'off' | 'weekly' | 'monthly' | 'both';
+
+export interface DigestSettings {
+  frequency: DigestFrequency;
+  hour: number; // Local hour (0-23) digests are sent
+}
+
+/**
+ * Get the user's spending digest preferences
+ * Defaults to off at 9:00 on errors
+ */
+export async function getDigestSettings(userId: number): Promise<DigestSettings> {
+  try {
+    const { data, error } = await supabaseService
+      .from('users')
+      .select('digest_frequency, digest_hour')
+      .eq('id', userId)
+      .single();
+
+    if (error) {
+      console.warn(`[user.service] Failed to fetch digest settings for user ${userId}:`, error);
+      return { frequency: 'off', hour: 9 };
+    }
+
+    return { frequency: data?.digest_frequency ?? 'off', hour: data?.digest_hour ?? 9 };
+  } catch (error) {
+    console.error('[user.service] Failed to get digest settings:', error);
+    return { frequency: 'off', hour: 9 };
+  }
+}
+
+/**
+ * Update the user's spending digest frequency and/or delivery hour
+ */
+export async function updateDigestSettings(
+  userId: number,
+  settings: Partial<DigestSettings>
+): Promise<boolean> {
+  try {
+    const { error } = await supabaseService
+      .from('users')
+      .update({
+        ...(settings.frequency !== undefined && { digest_frequency: settings.frequency }),
+        ...(settings.hour !== undefined && { digest_hour: settings.hour }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', userId);
+
+    if (error) {
+      throw error;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('[user.service] Failed to update digest settings:', error);
+    return false;
+  }
+}
+
+export interface SpendingAlertSettings {
+  enabled: boolean;
+  threshold: number; // Sensitivity - higher means only bigger outliers trigger an alert
+}
+
+/**
+ * Get the user's unusual spending alert preferences
+ * Defaults to disabled on errors so a failed lookup never spams the user
+ */
+export async function getSpendingAlertSettings(userId: number): Promise<SpendingAlertSettings> {
+  try {
+    const { data, error } = await supabaseService
+      .from('users')
+      .select('spending_alerts_enabled, spending_alert_threshold')
+      .eq('id', userId)
+      .single();
+
+    if (error) {
+      console.warn(
+        `[user.service] Failed to fetch spending alert settings for user ${userId}:`,
+        error
+      );
+      return { enabled: false, threshold: 3 };
+    }
+
+    return {
+      enabled: data?.spending_alerts_enabled ?? true,
+      threshold: Number(data?.spending_alert_threshold ?? 3),
+    };
+  } catch (error) {
+    console.error('[user.service] Failed to get spending alert settings:', error);
+    return { enabled: false, threshold: 3 };
+  }
+}
+
+/**
+ * Mute/unmute unusual spending alerts and/or change their sensitivity
+ */
+export async function updateSpendingAlertSettings(
+  userId: number,
+  settings: Partial<SpendingAlertSettings>
+): Promise<boolean> {
+  try {
+    const { error } = await supabaseService
+      .from('users')
+      .update({
+        ...(settings.enabled !== undefined && { spending_alerts_enabled: settings.enabled }),
+        ...(settings.threshold !== undefined && { spending_alert_threshold: settings.threshold }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', userId);
+
+    if (error) {
+      throw error;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('[user.service] Failed to update spending alert settings:', error);
+    return false;
+  }
+}
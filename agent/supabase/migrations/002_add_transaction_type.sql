@@ -0,0 +1,87 @@
+-- Migration: Add transaction direction (expense / income / refund)
+-- Amounts stay positive; transaction_type tells whether money went out or came in
+
+-- Add column with 'expense' default so existing rows keep their meaning
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS transaction_type TEXT NOT NULL DEFAULT 'expense';
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_transaction_type_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_transaction_type_check
+  CHECK (transaction_type IN ('expense', 'income', 'refund'));
+
+CREATE INDEX IF NOT EXISTS idx_transactions_type ON transactions(user_id, transaction_type);
+
+-- Recreate hybrid search with a transaction_type filter and column
+DROP FUNCTION IF EXISTS search_transactions_hybrid(
+  vector(1536),
+  BIGINT,
+  FLOAT,
+  TEXT,
+  DATE,
+  DATE,
+  DECIMAL,
+  DECIMAL,
+  INTEGER
+);
+
+CREATE OR REPLACE FUNCTION search_transactions_hybrid(
+  p_query_embedding vector(1536),
+  p_user_id BIGINT,
+  p_similarity_threshold FLOAT DEFAULT 0.6,
+  p_category TEXT DEFAULT NULL,
+  p_date_from DATE DEFAULT NULL,
+  p_date_to DATE DEFAULT NULL,
+  p_min_amount DECIMAL DEFAULT NULL,
+  p_max_amount DECIMAL DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_transaction_type TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  display_id INT,
+  amount DECIMAL,
+  currency TEXT,
+  merchant TEXT,
+  category TEXT,
+  description TEXT,
+  transaction_date DATE,
+  transaction_type TEXT,
+  similarity FLOAT,
+  original_amount DECIMAL,
+  original_currency TEXT,
+  converted_amount DECIMAL,
+  conversion_rate DECIMAL,
+  converted_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.display_id,
+    t.amount,
+    t.currency,
+    t.merchant,
+    t.category,
+    t.description,
+    t.transaction_date,
+    t.transaction_type,
+    (1 - (t.merchant_embedding <=> p_query_embedding))::FLOAT as similarity,
+    t.original_amount,
+    t.original_currency,
+    t.converted_amount,
+    t.conversion_rate,
+    t.converted_at
+  FROM transactions t
+  WHERE t.user_id = p_user_id
+    AND t.merchant_embedding IS NOT NULL
+    AND (p_category IS NULL OR t.category = p_category)
+    AND (p_date_from IS NULL OR t.transaction_date >= p_date_from)
+    AND (p_date_to IS NULL OR t.transaction_date <= p_date_to)
+    AND (p_min_amount IS NULL OR t.amount >= p_min_amount)
+    AND (p_max_amount IS NULL OR t.amount <= p_max_amount)
+    AND (p_transaction_type IS NULL OR t.transaction_type = p_transaction_type)
+    AND (1 - (t.merchant_embedding <=> p_query_embedding)) > p_similarity_threshold
+  ORDER BY similarity DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,36 @@
+-- Migration: Add per-category monthly budgets
+-- Stores one budget per user/category plus the last alert threshold sent for the month
+
+CREATE TABLE IF NOT EXISTS budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  category TEXT NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'AED',
+  last_alert_threshold INTEGER,
+  last_alert_period DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, category)
+);
+
+CREATE INDEX IF NOT EXISTS idx_budgets_user_id ON budgets(user_id);
+
+ALTER TABLE budgets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own budgets" ON budgets;
+CREATE POLICY "Users can view own budgets"
+ON budgets FOR SELECT
+USING (user_id = get_current_user_id());
+
+DROP POLICY IF EXISTS "Backend service can manage all budgets" ON budgets;
+CREATE POLICY "Backend service can manage all budgets"
+ON budgets FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP TRIGGER IF EXISTS update_budgets_updated_at ON budgets;
+CREATE TRIGGER update_budgets_updated_at
+    BEFORE UPDATE ON budgets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,32 @@
+-- Migration: Add receipt line items
+-- Stores the individual items extracted from receipt photos, linked to their transaction
+
+CREATE TABLE IF NOT EXISTS transaction_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  quantity DECIMAL(10, 3) NOT NULL DEFAULT 1,
+  unit_price DECIMAL(10, 2),
+  total_price DECIMAL(10, 2) NOT NULL,
+  discount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  tax DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_items_transaction_id ON transaction_items(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_items_user_name ON transaction_items(user_id, lower(name));
+
+ALTER TABLE transaction_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own transaction items" ON transaction_items;
+CREATE POLICY "Users can view own transaction items"
+ON transaction_items FOR SELECT
+USING (user_id = get_current_user_id());
+
+DROP POLICY IF EXISTS "Backend service can manage all transaction items" ON transaction_items;
+CREATE POLICY "Backend service can manage all transaction items"
+ON transaction_items FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,37 @@
+-- Migration: Add confirm-before-save drafts
+-- Adds the review_before_save user preference and persists pending drafts so any
+-- webhook instance can handle the Confirm / Change / Cancel buttons
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS review_before_save BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS transaction_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  transactions JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'cancelled')),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '24 hours',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_drafts_user_status ON transaction_drafts(user_id, status);
+
+ALTER TABLE transaction_drafts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own transaction drafts" ON transaction_drafts;
+CREATE POLICY "Users can view own transaction drafts"
+ON transaction_drafts FOR SELECT
+USING (user_id = get_current_user_id());
+
+DROP POLICY IF EXISTS "Backend service can manage all transaction drafts" ON transaction_drafts;
+CREATE POLICY "Backend service can manage all transaction drafts"
+ON transaction_drafts FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP TRIGGER IF EXISTS update_transaction_drafts_updated_at ON transaction_drafts;
+CREATE TRIGGER update_transaction_drafts_updated_at
+    BEFORE UPDATE ON transaction_drafts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,44 @@
+-- Migration: Add recurring transactions
+-- Schedules (rent, gym, Netflix) that the scheduler materializes into transactions when due
+
+CREATE TABLE IF NOT EXISTS recurring_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL,
+  merchant TEXT NOT NULL,
+  category TEXT NOT NULL,
+  transaction_type TEXT NOT NULL DEFAULT 'expense' CHECK (transaction_type IN ('expense', 'income', 'refund')),
+  description TEXT,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'yearly')),
+  interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count > 0),
+  day_of_month INTEGER CHECK (day_of_month BETWEEN 1 AND 31),
+  next_run_date DATE NOT NULL,
+  end_date DATE,
+  last_run_date DATE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_transactions_user_id ON recurring_transactions(user_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_transactions_due ON recurring_transactions(next_run_date) WHERE status = 'active';
+
+ALTER TABLE recurring_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own recurring transactions" ON recurring_transactions;
+CREATE POLICY "Users can view own recurring transactions"
+ON recurring_transactions FOR SELECT
+USING (user_id = get_current_user_id());
+
+DROP POLICY IF EXISTS "Backend service can manage all recurring transactions" ON recurring_transactions;
+CREATE POLICY "Backend service can manage all recurring transactions"
+ON recurring_transactions FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP TRIGGER IF EXISTS update_recurring_transactions_updated_at ON recurring_transactions;
+CREATE TRIGGER update_recurring_transactions_updated_at
+    BEFORE UPDATE ON recurring_transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
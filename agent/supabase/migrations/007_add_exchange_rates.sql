@@ -0,0 +1,37 @@
+-- Migration: Add historical exchange rates
+-- Persists one USD-based rate snapshot per day so conversions use the rate of the
+-- transaction date, and records where each converted row's rate came from
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  rate_date DATE NOT NULL,
+  base_currency TEXT NOT NULL DEFAULT 'USD',
+  rates JSONB NOT NULL, -- { "AED": 3.6725, "EUR": 0.93, ... } relative to base_currency
+  source TEXT NOT NULL DEFAULT 'api',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (rate_date, base_currency)
+);
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS conversion_rate_source TEXT CHECK (conversion_rate_source IN ('api', 'cached', 'fallback')),
+ADD COLUMN IF NOT EXISTS conversion_rate_date DATE;
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- Public read access (rates are shared reference data)
+DROP POLICY IF EXISTS "Anyone can read exchange rates" ON exchange_rates;
+CREATE POLICY "Anyone can read exchange rates"
+ON exchange_rates FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Backend service can manage exchange rates" ON exchange_rates;
+CREATE POLICY "Backend service can manage exchange rates"
+ON exchange_rates FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP TRIGGER IF EXISTS update_exchange_rates_updated_at ON exchange_rates;
+CREATE TRIGGER update_exchange_rates_updated_at
+    BEFORE UPDATE ON exchange_rates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
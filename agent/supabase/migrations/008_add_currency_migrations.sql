@@ -0,0 +1,68 @@
+-- Migration: Add default currency migrations
+-- Tracks the background job that re-denominates a user's history after /currency
+-- changes, with a per-transaction audit trail of the old and new values
+
+CREATE TABLE IF NOT EXISTS currency_migrations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  from_currency TEXT NOT NULL,
+  to_currency TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed', 'superseded')),
+  total_count INT NOT NULL DEFAULT 0,
+  processed_count INT NOT NULL DEFAULT 0,
+  failed_count INT NOT NULL DEFAULT 0,
+  error TEXT,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS transaction_currency_audit (
+  id BIGSERIAL PRIMARY KEY,
+  migration_id UUID NOT NULL REFERENCES currency_migrations(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  old_amount DECIMAL(10, 2) NOT NULL,
+  old_currency TEXT NOT NULL,
+  old_converted_amount DECIMAL(10, 2),
+  old_conversion_rate DECIMAL(10, 6),
+  new_amount DECIMAL(10, 2) NOT NULL,
+  new_currency TEXT NOT NULL,
+  new_conversion_rate DECIMAL(10, 6),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_currency_migrations_user_status ON currency_migrations(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_transaction_currency_audit_migration ON transaction_currency_audit(migration_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_currency_audit_transaction ON transaction_currency_audit(transaction_id);
+
+ALTER TABLE currency_migrations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transaction_currency_audit ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own currency migrations" ON currency_migrations;
+CREATE POLICY "Users can view own currency migrations"
+ON currency_migrations FOR SELECT
+USING (user_id = get_current_user_id());
+
+DROP POLICY IF EXISTS "Backend service can manage all currency migrations" ON currency_migrations;
+CREATE POLICY "Backend service can manage all currency migrations"
+ON currency_migrations FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view own currency audit" ON transaction_currency_audit;
+CREATE POLICY "Users can view own currency audit"
+ON transaction_currency_audit FOR SELECT
+USING (user_id = get_current_user_id());
+
+DROP POLICY IF EXISTS "Backend service can manage all currency audit" ON transaction_currency_audit;
+CREATE POLICY "Backend service can manage all currency audit"
+ON transaction_currency_audit FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP TRIGGER IF EXISTS update_currency_migrations_updated_at ON currency_migrations;
+CREATE TRIGGER update_currency_migrations_updated_at
+    BEFORE UPDATE ON currency_migrations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,78 @@
+-- Migration: Add aggregate_transactions RPC
+-- Sums, counts, averages and extremes computed server-side so query answers don't depend on row limits
+
+-- Aggregation RPC: exact totals for query mode, computed in SQL over every matching row
+-- p_group_by: NULL (single total), 'category', 'merchant', 'day', 'week' (ISO, Monday) or 'month'
+CREATE OR REPLACE FUNCTION aggregate_transactions(
+  p_user_id BIGINT,
+  p_group_by TEXT DEFAULT NULL,
+  p_date_from DATE DEFAULT NULL,
+  p_date_to DATE DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_merchant TEXT DEFAULT NULL,
+  p_transaction_type TEXT DEFAULT NULL,
+  p_min_amount DECIMAL DEFAULT NULL,
+  p_max_amount DECIMAL DEFAULT NULL,
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+  group_key TEXT,
+  currency TEXT,
+  total DECIMAL,
+  transaction_count BIGINT,
+  average DECIMAL,
+  min_amount DECIMAL,
+  max_amount DECIMAL,
+  first_date DATE,
+  last_date DATE
+) AS $$
+BEGIN
+  IF p_group_by IS NOT NULL AND p_group_by NOT IN ('category', 'merchant', 'day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Invalid group_by: %', p_group_by;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    g.group_key,
+    g.currency,
+    g.total,
+    g.transaction_count,
+    g.average,
+    g.min_amount,
+    g.max_amount,
+    g.first_date,
+    g.last_date
+  FROM (
+    SELECT
+      CASE p_group_by
+        WHEN 'category' THEN t.category
+        WHEN 'merchant' THEN t.merchant
+        WHEN 'day' THEN to_char(t.transaction_date, 'YYYY-MM-DD')
+        WHEN 'week' THEN to_char(date_trunc('week', t.transaction_date), 'YYYY-MM-DD')
+        WHEN 'month' THEN to_char(t.transaction_date, 'YYYY-MM')
+      END AS group_key,
+      t.currency,
+      SUM(t.amount) AS total,
+      COUNT(*) AS transaction_count,
+      ROUND(AVG(t.amount), 2) AS average,
+      MIN(t.amount) AS min_amount,
+      MAX(t.amount) AS max_amount,
+      MIN(t.transaction_date) AS first_date,
+      MAX(t.transaction_date) AS last_date
+    FROM transactions t
+    WHERE t.user_id = p_user_id
+      AND (p_date_from IS NULL OR t.transaction_date >= p_date_from)
+      AND (p_date_to IS NULL OR t.transaction_date <= p_date_to)
+      AND (p_category IS NULL OR t.category ILIKE p_category)
+      AND (p_merchant IS NULL OR t.merchant ILIKE '%' || p_merchant || '%')
+      AND (p_transaction_type IS NULL OR t.transaction_type = p_transaction_type)
+      AND (p_min_amount IS NULL OR t.amount >= p_min_amount)
+      AND (p_max_amount IS NULL OR t.amount <= p_max_amount)
+    GROUP BY 1, 2
+  ) g
+  ORDER BY
+    CASE WHEN p_group_by IN ('day', 'week', 'month') THEN g.group_key END ASC,
+    g.total DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE;
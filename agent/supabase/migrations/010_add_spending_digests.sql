@@ -0,0 +1,20 @@
+-- Migration: Add weekly/monthly spending digest preferences
+-- Digests are sent at digest_hour in the user's timezone; the last_*_digest_on
+-- dates (user's local date) make sure each digest goes out once per period
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS digest_frequency TEXT NOT NULL DEFAULT 'off'
+  CHECK (digest_frequency IN ('off', 'weekly', 'monthly', 'both'));
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS digest_hour SMALLINT NOT NULL DEFAULT 9
+  CHECK (digest_hour BETWEEN 0 AND 23);
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS last_weekly_digest_on DATE;
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS last_monthly_digest_on DATE;
+
+CREATE INDEX IF NOT EXISTS idx_users_digest_frequency ON users(digest_frequency)
+  WHERE digest_frequency <> 'off';
@@ -0,0 +1,11 @@
+-- Migration: Add unusual spending alert preferences
+-- spending_alert_threshold is the per-user sensitivity: how many standard deviations
+-- (or multiples of the usual amount) a transaction must exceed before an alert is sent.
+-- "Fewer alerts like this" raises it; "Mute" turns alerts off entirely.
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS spending_alerts_enabled BOOLEAN NOT NULL DEFAULT TRUE;
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS spending_alert_threshold REAL NOT NULL DEFAULT 3
+  CHECK (spending_alert_threshold BETWEEN 1 AND 10);
@@ -0,0 +1,9 @@
+-- Migration: Allow 'auto' as users.current_mode
+-- In auto mode every message is classified and routed to the logger, query or chat
+-- agent; the explicit modes remain available as overrides.
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_current_mode_check;
+
+ALTER TABLE users
+ADD CONSTRAINT users_current_mode_check
+  CHECK (current_mode IN ('logger', 'chat', 'query', 'auto'));
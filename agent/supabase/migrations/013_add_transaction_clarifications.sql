@@ -0,0 +1,37 @@
+-- Migration: Add clarifying questions for incomplete transactions
+-- When a message is missing a required detail ("Carrefour yesterday" has no amount) the
+-- logger asks a follow-up; the partial transaction is persisted here so the user's next
+-- message, handled by any webhook instance, resumes it instead of starting a fresh save
+
+CREATE TABLE IF NOT EXISTS transaction_clarifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  source_text TEXT NOT NULL,
+  known_fields JSONB NOT NULL DEFAULT '{}',
+  missing_fields TEXT[] NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'answered', 'cancelled')),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '30 minutes',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_clarifications_user_status ON transaction_clarifications(user_id, status);
+
+ALTER TABLE transaction_clarifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own transaction clarifications" ON transaction_clarifications;
+CREATE POLICY "Users can view own transaction clarifications"
+ON transaction_clarifications FOR SELECT
+USING (user_id = get_current_user_id());
+
+DROP POLICY IF EXISTS "Backend service can manage all transaction clarifications" ON transaction_clarifications;
+CREATE POLICY "Backend service can manage all transaction clarifications"
+ON transaction_clarifications FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP TRIGGER IF EXISTS update_transaction_clarifications_updated_at ON transaction_clarifications;
+CREATE TRIGGER update_transaction_clarifications_updated_at
+    BEFORE UPDATE ON transaction_clarifications
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
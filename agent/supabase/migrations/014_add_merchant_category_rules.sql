@@ -0,0 +1,35 @@
+-- Migration: Add per-user merchant category rules
+-- Learned when a user corrects a transaction's category (e.g. Noon: Shopping -> Groceries)
+-- and applied to that merchant's future transactions before the model's own guess
+
+CREATE TABLE IF NOT EXISTS merchant_category_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  merchant_key TEXT NOT NULL,
+  merchant TEXT NOT NULL,
+  category TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, merchant_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_merchant_category_rules_user_id ON merchant_category_rules(user_id);
+
+ALTER TABLE merchant_category_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own merchant rules" ON merchant_category_rules;
+CREATE POLICY "Users can view own merchant rules"
+ON merchant_category_rules FOR SELECT
+USING (user_id = get_current_user_id());
+
+DROP POLICY IF EXISTS "Backend service can manage all merchant rules" ON merchant_category_rules;
+CREATE POLICY "Backend service can manage all merchant rules"
+ON merchant_category_rules FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP TRIGGER IF EXISTS update_merchant_category_rules_updated_at ON merchant_category_rules;
+CREATE TRIGGER update_merchant_category_rules_updated_at
+    BEFORE UPDATE ON merchant_category_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
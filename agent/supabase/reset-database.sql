@@ -24,6 +24,11 @@ DROP TRIGGER IF EXISTS update_users_updated_at ON users;
 DROP TRIGGER IF EXISTS update_subscription_usage_updated_at ON subscription_usage;
 DROP TRIGGER IF EXISTS update_webhook_updates_updated_at ON webhook_updates;
 DROP TRIGGER IF EXISTS update_activation_codes_updated_at ON activation_codes;
+DROP TRIGGER IF EXISTS update_budgets_updated_at ON budgets;
+DROP TRIGGER IF EXISTS update_transaction_drafts_updated_at ON transaction_drafts;
+DROP TRIGGER IF EXISTS update_recurring_transactions_updated_at ON recurring_transactions;
+DROP TRIGGER IF EXISTS update_exchange_rates_updated_at ON exchange_rates;
+DROP TRIGGER IF EXISTS update_currency_migrations_updated_at ON currency_migrations;
 
 -- ============================================================================
 -- PART 2: DROP RLS POLICIES
@@ -57,6 +62,34 @@ DROP POLICY IF EXISTS "Backend service can manage all webhook updates" ON webhoo
 -- Activation codes table policies
 DROP POLICY IF EXISTS "Backend service can manage all activation codes" ON activation_codes;
 
+-- Budgets table policies
+DROP POLICY IF EXISTS "Users can view own budgets" ON budgets;
+DROP POLICY IF EXISTS "Backend service can manage all budgets" ON budgets;
+
+-- Transaction Items table policies
+DROP POLICY IF EXISTS "Users can view own transaction items" ON transaction_items;
+DROP POLICY IF EXISTS "Backend service can manage all transaction items" ON transaction_items;
+
+-- Transaction Drafts table policies
+DROP POLICY IF EXISTS "Users can view own transaction drafts" ON transaction_drafts;
+DROP POLICY IF EXISTS "Backend service can manage all transaction drafts" ON transaction_drafts;
+
+-- Recurring Transactions table policies
+DROP POLICY IF EXISTS "Users can view own recurring transactions" ON recurring_transactions;
+DROP POLICY IF EXISTS "Backend service can manage all recurring transactions" ON recurring_transactions;
+
+-- Exchange Rates table policies
+DROP POLICY IF EXISTS "Anyone can read exchange rates" ON exchange_rates;
+DROP POLICY IF EXISTS "Backend service can manage exchange rates" ON exchange_rates;
+
+-- Currency Migrations table policies
+DROP POLICY IF EXISTS "Users can view own currency migrations" ON currency_migrations;
+DROP POLICY IF EXISTS "Backend service can manage all currency migrations" ON currency_migrations;
+
+-- Transaction Currency Audit table policies
+DROP POLICY IF EXISTS "Users can view own currency audit" ON transaction_currency_audit;
+DROP POLICY IF EXISTS "Backend service can manage all currency audit" ON transaction_currency_audit;
+
 -- ============================================================================
 -- PART 3: DROP FUNCTIONS
 -- ============================================================================
@@ -71,6 +104,19 @@ DROP FUNCTION IF EXISTS search_transactions_hybrid(
   DATE,
   DECIMAL,
   DECIMAL,
+  INTEGER,
+  TEXT
+);
+DROP FUNCTION IF EXISTS aggregate_transactions(
+  BIGINT,
+  TEXT,
+  DATE,
+  DATE,
+  TEXT,
+  TEXT,
+  TEXT,
+  DECIMAL,
+  DECIMAL,
   INTEGER
 );
 
@@ -108,6 +154,13 @@ DROP FUNCTION IF EXISTS update_updated_at_column() CASCADE;
 -- ============================================================================
 
 -- Drop tables that reference other tables first
+DROP TABLE IF EXISTS transaction_currency_audit CASCADE;
+DROP TABLE IF EXISTS currency_migrations CASCADE;
+DROP TABLE IF EXISTS exchange_rates CASCADE;
+DROP TABLE IF EXISTS recurring_transactions CASCADE;
+DROP TABLE IF EXISTS transaction_drafts CASCADE;
+DROP TABLE IF EXISTS transaction_items CASCADE;
+DROP TABLE IF EXISTS budgets CASCADE;
 DROP TABLE IF EXISTS webhook_updates CASCADE;
 DROP TABLE IF EXISTS activation_codes CASCADE;
 DROP TABLE IF EXISTS subscription_usage CASCADE;
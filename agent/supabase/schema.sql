@@ -25,8 +25,15 @@ CREATE TABLE IF NOT EXISTS users (
   last_name TEXT,
   email TEXT UNIQUE, -- User email for subscription management
   default_currency TEXT NOT NULL DEFAULT 'AED',
-  current_mode TEXT NOT NULL DEFAULT 'chat' CHECK (current_mode IN ('logger', 'chat', 'query')),
+  current_mode TEXT NOT NULL DEFAULT 'chat' CHECK (current_mode IN ('logger', 'chat', 'query', 'auto')),
   timezone TEXT,
+  review_before_save BOOLEAN NOT NULL DEFAULT false, -- Show a Confirm/Cancel preview before saving (logger mode)
+  digest_frequency TEXT NOT NULL DEFAULT 'off' CHECK (digest_frequency IN ('off', 'weekly', 'monthly', 'both')), -- Spending digests opt-in
+  digest_hour SMALLINT NOT NULL DEFAULT 9 CHECK (digest_hour BETWEEN 0 AND 23), -- Local hour digests are sent
+  last_weekly_digest_on DATE, -- Local date the last weekly digest was sent
+  last_monthly_digest_on DATE, -- Local date the last monthly digest was sent
+  spending_alerts_enabled BOOLEAN NOT NULL DEFAULT TRUE, -- Unusual spending alerts (muted from the alert's keyboard)
+  spending_alert_threshold REAL NOT NULL DEFAULT 3 CHECK (spending_alert_threshold BETWEEN 1 AND 10), -- Alert sensitivity (higher = fewer alerts)
   metadata JSONB,
   
   -- Subscription fields
@@ -56,6 +63,7 @@ CREATE TABLE IF NOT EXISTS transactions (
   category TEXT NOT NULL,
   description TEXT,
   transaction_date DATE NOT NULL,
+  transaction_type TEXT NOT NULL DEFAULT 'expense' CHECK (transaction_type IN ('expense', 'income', 'refund')),
 
   -- Currency conversion tracking (for multi-currency support)
   original_amount DECIMAL(10, 2), -- Amount in the currency user specified
@@ -63,6 +71,8 @@ CREATE TABLE IF NOT EXISTS transactions (
   converted_amount DECIMAL(10, 2), -- Amount converted to user's default currency
   conversion_rate DECIMAL(10, 6), -- Exchange rate used for conversion
   converted_at TIMESTAMPTZ, -- When conversion was performed
+  conversion_rate_source TEXT CHECK (conversion_rate_source IN ('api', 'cached', 'fallback')), -- Live API, stored snapshot, or static fallback
+  conversion_rate_date DATE, -- Date of the rate snapshot used (normally transaction_date)
 
   -- Vector embeddings for fuzzy search
   merchant_embedding vector(1536), -- text-embedding-3-small (1536 dimensions)
@@ -127,6 +137,156 @@ CREATE TABLE IF NOT EXISTS activation_codes (
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Per-category monthly budgets
+-- Spending is measured per calendar month in the user's timezone
+CREATE TABLE IF NOT EXISTS budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  category TEXT NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'AED', -- User's default currency when the budget was set
+
+  -- Alert tracking (prevents repeat alerts for the same threshold in one month)
+  last_alert_threshold INTEGER, -- 50, 80, or 100
+  last_alert_period DATE, -- First day of the month the alert was sent for
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(user_id, category)
+);
+
+-- Receipt line items
+-- One row per item extracted from a receipt photo; prices are in the receipt's currency
+CREATE TABLE IF NOT EXISTS transaction_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- Item data
+  name TEXT NOT NULL,
+  quantity DECIMAL(10, 3) NOT NULL DEFAULT 1,
+  unit_price DECIMAL(10, 2),
+  total_price DECIMAL(10, 2) NOT NULL, -- Line total after item discount
+  discount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  tax DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL, -- Currency printed on the receipt
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Confirm-before-save drafts
+-- Parsed transactions waiting for the user's Confirm / Cancel (users.review_before_save)
+CREATE TABLE IF NOT EXISTS transaction_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  transactions JSONB NOT NULL, -- Array of save-transaction inputs (amount, currency, merchant, ...)
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'cancelled')),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '24 hours',
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Recurring transaction schedules (rent, gym, subscriptions)
+-- The scheduler inserts a transaction when next_run_date is reached in the user's timezone
+CREATE TABLE IF NOT EXISTS recurring_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- Transaction template
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL, -- Converted to the user's default currency when materialized
+  merchant TEXT NOT NULL,
+  category TEXT NOT NULL,
+  transaction_type TEXT NOT NULL DEFAULT 'expense' CHECK (transaction_type IN ('expense', 'income', 'refund')),
+  description TEXT,
+
+  -- Schedule
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'yearly')),
+  interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count > 0), -- e.g. 2 = every 2 weeks
+  day_of_month INTEGER CHECK (day_of_month BETWEEN 1 AND 31), -- Monthly/yearly anchor (clamped to month end)
+  next_run_date DATE NOT NULL,
+  end_date DATE,
+  last_run_date DATE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused')),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Daily exchange rate snapshots (historical conversions by transaction date)
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  rate_date DATE NOT NULL,
+  base_currency TEXT NOT NULL DEFAULT 'USD',
+  rates JSONB NOT NULL, -- { "AED": 3.6725, "EUR": 0.93, ... } relative to base_currency
+  source TEXT NOT NULL DEFAULT 'api',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (rate_date, base_currency)
+);
+
+-- Default currency migration jobs (re-denominate history after /currency)
+CREATE TABLE IF NOT EXISTS currency_migrations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  from_currency TEXT NOT NULL,
+  to_currency TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed', 'superseded')),
+  total_count INT NOT NULL DEFAULT 0,
+  processed_count INT NOT NULL DEFAULT 0,
+  failed_count INT NOT NULL DEFAULT 0,
+  error TEXT,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Audit trail of values changed by currency migrations
+CREATE TABLE IF NOT EXISTS transaction_currency_audit (
+  id BIGSERIAL PRIMARY KEY,
+  migration_id UUID NOT NULL REFERENCES currency_migrations(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  old_amount DECIMAL(10, 2) NOT NULL,
+  old_currency TEXT NOT NULL,
+  old_converted_amount DECIMAL(10, 2),
+  old_conversion_rate DECIMAL(10, 6),
+  new_amount DECIMAL(10, 2) NOT NULL,
+  new_currency TEXT NOT NULL,
+  new_conversion_rate DECIMAL(10, 6),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Clarifying questions for incomplete transactions
+-- A message missing its amount or merchant waits here for the user's answer
+CREATE TABLE IF NOT EXISTS transaction_clarifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  source_text TEXT NOT NULL, -- The message that was missing details
+  known_fields JSONB NOT NULL DEFAULT '{}', -- Details already extracted (merchant, date, category, ...)
+  missing_fields TEXT[] NOT NULL, -- 'amount' and/or 'merchant'
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'answered', 'cancelled')),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '30 minutes',
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Merchant category rules
+-- Learned from the user's category corrections; applied when the merchant is logged again
+CREATE TABLE IF NOT EXISTS merchant_category_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  merchant_key TEXT NOT NULL, -- Normalized merchant name used for matching ("noon")
+  merchant TEXT NOT NULL, -- Merchant as last written ("Noon")
+  category TEXT NOT NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, merchant_key)
+);
+
 -- ----------------------------------------------------------------------------
 -- 1.3 Indexes
 -- ----------------------------------------------------------------------------
@@ -134,11 +294,13 @@ CREATE TABLE IF NOT EXISTS activation_codes (
 -- Users indexes
 CREATE INDEX IF NOT EXISTS idx_users_chat_id ON users(telegram_chat_id);
 CREATE INDEX IF NOT EXISTS idx_users_mode ON users(current_mode);
+CREATE INDEX IF NOT EXISTS idx_users_digest_frequency ON users(digest_frequency) WHERE digest_frequency <> 'off';
 
 -- Transactions indexes
 CREATE INDEX IF NOT EXISTS idx_transactions_user_id ON transactions(user_id);
 CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions(transaction_date);
 CREATE INDEX IF NOT EXISTS idx_transactions_category ON transactions(category);
+CREATE INDEX IF NOT EXISTS idx_transactions_type ON transactions(user_id, transaction_type);
 CREATE INDEX IF NOT EXISTS idx_transactions_merchant ON transactions USING gin(to_tsvector('english', merchant));
 
 -- Vector indexes for similarity search (IVFFlat algorithm)
@@ -174,6 +336,29 @@ CREATE INDEX IF NOT EXISTS idx_activation_session ON activation_codes(stripe_ses
 CREATE INDEX IF NOT EXISTS idx_activation_expires ON activation_codes(expires_at);
 CREATE INDEX IF NOT EXISTS idx_activation_used ON activation_codes(used_at);
 
+-- Budgets indexes
+CREATE INDEX IF NOT EXISTS idx_budgets_user_id ON budgets(user_id);
+
+-- Transaction items indexes
+CREATE INDEX IF NOT EXISTS idx_transaction_items_transaction_id ON transaction_items(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_items_user_name ON transaction_items(user_id, lower(name));
+
+-- Transaction drafts indexes
+CREATE INDEX IF NOT EXISTS idx_transaction_drafts_user_status ON transaction_drafts(user_id, status);
+
+-- Recurring transactions indexes
+CREATE INDEX IF NOT EXISTS idx_recurring_transactions_user_id ON recurring_transactions(user_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_transactions_due ON recurring_transactions(next_run_date) WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_currency_migrations_user_status ON currency_migrations(user_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_currency_audit_migration ON transaction_currency_audit(migration_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_currency_audit_transaction ON transaction_currency_audit(transaction_id);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_clarifications_user_status ON transaction_clarifications(user_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_merchant_category_rules_user_id ON merchant_category_rules(user_id);
+
 -- ============================================================================
 -- PART 2: ROW LEVEL SECURITY (RLS) POLICIES
 -- ============================================================================
@@ -189,6 +374,15 @@ ALTER TABLE merchant_embeddings_cache ENABLE ROW LEVEL SECURITY;
 ALTER TABLE subscription_usage ENABLE ROW LEVEL SECURITY;
 ALTER TABLE webhook_updates ENABLE ROW LEVEL SECURITY;
 ALTER TABLE activation_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE budgets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transaction_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transaction_drafts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recurring_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE currency_migrations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transaction_currency_audit ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transaction_clarifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE merchant_category_rules ENABLE ROW LEVEL SECURITY;
 
 -- NOTE: Mastra system tables (mastra_*, etc.) intentionally have NO RLS
 -- They are framework system tables, not user data
@@ -314,6 +508,124 @@ ON activation_codes FOR ALL
 USING (auth.role() = 'service_role')
 WITH CHECK (auth.role() = 'service_role');
 
+-- ----------------------------------------------------------------------------
+-- 2.9 Budgets Table - RLS Policies
+-- ----------------------------------------------------------------------------
+
+CREATE POLICY "Users can view own budgets"
+ON budgets FOR SELECT
+USING (user_id = get_current_user_id());
+
+CREATE POLICY "Backend service can manage all budgets"
+ON budgets FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ----------------------------------------------------------------------------
+-- 2.10 Transaction Items Table - RLS Policies
+-- ----------------------------------------------------------------------------
+
+CREATE POLICY "Users can view own transaction items"
+ON transaction_items FOR SELECT
+USING (user_id = get_current_user_id());
+
+CREATE POLICY "Backend service can manage all transaction items"
+ON transaction_items FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ----------------------------------------------------------------------------
+-- 2.11 Transaction Drafts Table - RLS Policies
+-- ----------------------------------------------------------------------------
+
+CREATE POLICY "Users can view own transaction drafts"
+ON transaction_drafts FOR SELECT
+USING (user_id = get_current_user_id());
+
+CREATE POLICY "Backend service can manage all transaction drafts"
+ON transaction_drafts FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ----------------------------------------------------------------------------
+-- 2.12 Recurring Transactions Table - RLS Policies
+-- ----------------------------------------------------------------------------
+
+CREATE POLICY "Users can view own recurring transactions"
+ON recurring_transactions FOR SELECT
+USING (user_id = get_current_user_id());
+
+CREATE POLICY "Backend service can manage all recurring transactions"
+ON recurring_transactions FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ----------------------------------------------------------------------------
+-- 2.13 Exchange Rates Table - RLS Policies
+-- ----------------------------------------------------------------------------
+
+-- Public read access (rates are shared reference data)
+CREATE POLICY "Anyone can read exchange rates"
+ON exchange_rates FOR SELECT
+USING (true);
+
+CREATE POLICY "Backend service can manage exchange rates"
+ON exchange_rates FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ----------------------------------------------------------------------------
+-- 2.14 Currency Migrations Table - RLS Policies
+-- ----------------------------------------------------------------------------
+
+CREATE POLICY "Users can view own currency migrations"
+ON currency_migrations FOR SELECT
+USING (user_id = get_current_user_id());
+
+CREATE POLICY "Backend service can manage all currency migrations"
+ON currency_migrations FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ----------------------------------------------------------------------------
+-- 2.15 Transaction Currency Audit Table - RLS Policies
+-- ----------------------------------------------------------------------------
+
+CREATE POLICY "Users can view own currency audit"
+ON transaction_currency_audit FOR SELECT
+USING (user_id = get_current_user_id());
+
+CREATE POLICY "Backend service can manage all currency audit"
+ON transaction_currency_audit FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ----------------------------------------------------------------------------
+-- 2.16 Transaction Clarifications Table - RLS Policies
+-- ----------------------------------------------------------------------------
+
+CREATE POLICY "Users can view own transaction clarifications"
+ON transaction_clarifications FOR SELECT
+USING (user_id = get_current_user_id());
+
+CREATE POLICY "Backend service can manage all transaction clarifications"
+ON transaction_clarifications FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ----------------------------------------------------------------------------
+-- 2.17 Merchant Category Rules Table - RLS Policies
+-- ----------------------------------------------------------------------------
+
+CREATE POLICY "Users can view own merchant rules"
+ON merchant_category_rules FOR SELECT
+USING (user_id = get_current_user_id());
+
+CREATE POLICY "Backend service can manage all merchant rules"
+ON merchant_category_rules FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
 -- ============================================================================
 -- PART 3: TRIGGERS, RPC FUNCTIONS, AND HELPER FUNCTIONS
 -- ============================================================================
@@ -399,6 +711,41 @@ CREATE TRIGGER update_activation_codes_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_budgets_updated_at
+    BEFORE UPDATE ON budgets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_transaction_drafts_updated_at
+    BEFORE UPDATE ON transaction_drafts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_recurring_transactions_updated_at
+    BEFORE UPDATE ON recurring_transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_exchange_rates_updated_at
+    BEFORE UPDATE ON exchange_rates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_currency_migrations_updated_at
+    BEFORE UPDATE ON currency_migrations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_transaction_clarifications_updated_at
+    BEFORE UPDATE ON transaction_clarifications
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_merchant_category_rules_updated_at
+    BEFORE UPDATE ON merchant_category_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
 -- ----------------------------------------------------------------------------
 -- 3.3 RPC Functions
 -- ----------------------------------------------------------------------------
@@ -413,7 +760,8 @@ CREATE OR REPLACE FUNCTION search_transactions_hybrid(
   p_date_to DATE DEFAULT NULL,
   p_min_amount DECIMAL DEFAULT NULL,
   p_max_amount DECIMAL DEFAULT NULL,
-  p_limit INTEGER DEFAULT 50
+  p_limit INTEGER DEFAULT 50,
+  p_transaction_type TEXT DEFAULT NULL
 )
 RETURNS TABLE (
   id UUID,
@@ -424,6 +772,7 @@ RETURNS TABLE (
   category TEXT,
   description TEXT,
   transaction_date DATE,
+  transaction_type TEXT,
   similarity FLOAT,
   original_amount DECIMAL,
   original_currency TEXT,
@@ -442,6 +791,7 @@ BEGIN
     t.category,
     t.description,
     t.transaction_date,
+    t.transaction_type,
     (1 - (t.merchant_embedding <=> p_query_embedding))::FLOAT as similarity,
     t.original_amount,
     t.original_currency,
@@ -456,12 +806,89 @@ BEGIN
     AND (p_date_to IS NULL OR t.transaction_date <= p_date_to)
     AND (p_min_amount IS NULL OR t.amount >= p_min_amount)
     AND (p_max_amount IS NULL OR t.amount <= p_max_amount)
+    AND (p_transaction_type IS NULL OR t.transaction_type = p_transaction_type)
     AND (1 - (t.merchant_embedding <=> p_query_embedding)) > p_similarity_threshold
   ORDER BY similarity DESC
   LIMIT p_limit;
 END;
 $$ LANGUAGE plpgsql STABLE;
 
+-- Aggregation RPC: exact totals for query mode, computed in SQL over every matching row
+-- p_group_by: NULL (single total), 'category', 'merchant', 'day', 'week' (ISO, Monday) or 'month'
+CREATE OR REPLACE FUNCTION aggregate_transactions(
+  p_user_id BIGINT,
+  p_group_by TEXT DEFAULT NULL,
+  p_date_from DATE DEFAULT NULL,
+  p_date_to DATE DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_merchant TEXT DEFAULT NULL,
+  p_transaction_type TEXT DEFAULT NULL,
+  p_min_amount DECIMAL DEFAULT NULL,
+  p_max_amount DECIMAL DEFAULT NULL,
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+  group_key TEXT,
+  currency TEXT,
+  total DECIMAL,
+  transaction_count BIGINT,
+  average DECIMAL,
+  min_amount DECIMAL,
+  max_amount DECIMAL,
+  first_date DATE,
+  last_date DATE
+) AS $$
+BEGIN
+  IF p_group_by IS NOT NULL AND p_group_by NOT IN ('category', 'merchant', 'day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Invalid group_by: %', p_group_by;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    g.group_key,
+    g.currency,
+    g.total,
+    g.transaction_count,
+    g.average,
+    g.min_amount,
+    g.max_amount,
+    g.first_date,
+    g.last_date
+  FROM (
+    SELECT
+      CASE p_group_by
+        WHEN 'category' THEN t.category
+        WHEN 'merchant' THEN t.merchant
+        WHEN 'day' THEN to_char(t.transaction_date, 'YYYY-MM-DD')
+        WHEN 'week' THEN to_char(date_trunc('week', t.transaction_date), 'YYYY-MM-DD')
+        WHEN 'month' THEN to_char(t.transaction_date, 'YYYY-MM')
+      END AS group_key,
+      t.currency,
+      SUM(t.amount) AS total,
+      COUNT(*) AS transaction_count,
+      ROUND(AVG(t.amount), 2) AS average,
+      MIN(t.amount) AS min_amount,
+      MAX(t.amount) AS max_amount,
+      MIN(t.transaction_date) AS first_date,
+      MAX(t.transaction_date) AS last_date
+    FROM transactions t
+    WHERE t.user_id = p_user_id
+      AND (p_date_from IS NULL OR t.transaction_date >= p_date_from)
+      AND (p_date_to IS NULL OR t.transaction_date <= p_date_to)
+      AND (p_category IS NULL OR t.category ILIKE p_category)
+      AND (p_merchant IS NULL OR t.merchant ILIKE '%' || p_merchant || '%')
+      AND (p_transaction_type IS NULL OR t.transaction_type = p_transaction_type)
+      AND (p_min_amount IS NULL OR t.amount >= p_min_amount)
+      AND (p_max_amount IS NULL OR t.amount <= p_max_amount)
+    GROUP BY 1, 2
+  ) g
+  ORDER BY
+    CASE WHEN p_group_by IN ('day', 'week', 'month') THEN g.group_key END ASC,
+    g.total DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
 -- ----------------------------------------------------------------------------
 -- 3.4 Helper Functions
 -- ----------------------------------------------------------------------------